@@ -0,0 +1,26 @@
+import nextJest from "next/jest.js";
+
+const createJestConfig = nextJest({ dir: "./" });
+
+const config = {
+  testEnvironment: "node",
+  testMatch: ["<rootDir>/src/**/__tests__/**/*.test.ts"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+};
+
+// next/jest skips node_modules when transforming; uuid only ships ES
+// modules, so let it through
+export default async function jestConfig() {
+  const resolved = await createJestConfig(config)();
+  return {
+    ...resolved,
+    transformIgnorePatterns: [
+      "/node_modules/(?!uuid/)",
+      ...resolved.transformIgnorePatterns.filter(
+        (pattern) => !pattern.includes("node_modules")
+      ),
+    ],
+  };
+}
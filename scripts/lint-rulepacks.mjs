@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+// Lint rulepacks/ and checklists/ (see src/lib/rulepack-linter.ts).
+//
+//   npm run lint:rulepacks             # human-readable report
+//   npm run lint:rulepacks -- --json   # JSON report, for pre-commit hooks
+//   npm run lint:rulepacks -- --strict # also fail on warnings
+//
+// Exits with 1 when there are errors (or warnings, with --strict).
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { createJiti } from "jiti";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const args = new Set(process.argv.slice(2));
+
+// Resolve the `@/` alias from tsconfig.json
+const jiti = createJiti(import.meta.url, {
+  alias: { "@/": join(root, "src/") },
+});
+const { RulepackLinter } = await jiti.import("../src/lib/rulepack-linter.ts");
+
+process.chdir(root);
+const report = await RulepackLinter.lint();
+
+if (args.has("--json")) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  for (const issue of report.issues) {
+    console.log(
+      `${issue.file}: ${issue.severity} [${issue.code}] ${issue.message}`
+    );
+  }
+  console.log(
+    `${report.filesChecked} files checked: ${report.errorCount} errors, ${report.warningCount} warnings`
+  );
+}
+
+const failed =
+  report.errorCount > 0 || (args.has("--strict") && report.warningCount > 0);
+process.exit(failed ? 1 : 0);
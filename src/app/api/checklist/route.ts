@@ -6,9 +6,17 @@ async function getChecklistLoader() {
   return ChecklistLoader;
 }
 
+// Missing checklists are 404s rather than server errors
+async function errorStatus(error: unknown): Promise<number> {
+  const { ChecklistNotFoundError } = await import("@/lib/checklist-loader");
+  return error instanceof ChecklistNotFoundError ? 404 : 500;
+}
+
 async function getSchemas() {
-  const { FormatEnum, ValidationLevelEnum } = await import("@/types/rulepack");
-  return { FormatEnum, ValidationLevelEnum };
+  const { ValidationLevelEnum } = await import("@/types/rulepack");
+  const { FormatRegistry } = await import("@/lib/format-registry");
+  const { RulepackLoader } = await import("@/lib/rulepack-loader");
+  return { FormatRegistry, ValidationLevelEnum, RulepackLoader };
 }
 
 export async function GET(request: NextRequest) {
@@ -16,20 +24,22 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const format = searchParams.get("format");
     const level = searchParams.get("level");
-    const version = searchParams.get("version") || "v1";
     const category = searchParams.get("category");
     const flat = searchParams.get("flat") === "true";
 
-    const { FormatEnum, ValidationLevelEnum } = await getSchemas();
+    const { FormatRegistry, ValidationLevelEnum, RulepackLoader } =
+      await getSchemas();
+    const version =
+      searchParams.get("version") || RulepackLoader.getDefaultVersion();
 
     // If no parameters, return available options
     if (!format || !level) {
       return NextResponse.json({
         success: true,
         data: {
-          supportedFormats: FormatEnum.options,
+          supportedFormats: await FormatRegistry.ids(),
           supportedLevels: ValidationLevelEnum.options,
-          supportedVersions: ["v1"],
+          supportedVersions: await RulepackLoader.getAvailableVersions(),
           usage: {
             structured:
               "/api/checklist?format=press_release&level=intermediate",
@@ -42,15 +52,15 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate format and level
-    const formatResult = FormatEnum.safeParse(format);
+    const isKnownFormat = typeof format === "string" && (await FormatRegistry.has(format));
     const levelResult = ValidationLevelEnum.safeParse(level);
 
-    if (!formatResult.success) {
+    if (!isKnownFormat) {
       return NextResponse.json(
         {
           success: false,
           error: `Invalid format: ${format}`,
-          availableFormats: FormatEnum.options,
+          availableFormats: await FormatRegistry.ids(),
         },
         { status: 400 }
       );
@@ -75,7 +85,7 @@ export async function GET(request: NextRequest) {
     if (category) {
       // Get specific category
       checklistData = await ChecklistLoader.getChecklistByCategory(
-        formatResult.data,
+        format,
         levelResult.data,
         category,
         version
@@ -83,14 +93,14 @@ export async function GET(request: NextRequest) {
     } else if (flat) {
       // Get flat list
       checklistData = await ChecklistLoader.getFlatChecklist(
-        formatResult.data,
+        format,
         levelResult.data,
         version
       );
     } else {
       // Get structured checklist
       checklistData = await ChecklistLoader.loadChecklist(
-        formatResult.data,
+        format,
         levelResult.data,
         version
       );
@@ -98,7 +108,7 @@ export async function GET(request: NextRequest) {
 
     // Get metadata
     const metadata = await ChecklistLoader.getChecklistMetadata(
-      formatResult.data,
+      format,
       levelResult.data,
       version
     );
@@ -118,7 +128,7 @@ export async function GET(request: NextRequest) {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
       },
-      { status: 500 }
+      { status: await errorStatus(error) }
     );
   }
 }
@@ -126,7 +136,14 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { content, format, level, version = "v1" } = body;
+    const { FormatRegistry, ValidationLevelEnum, RulepackLoader } =
+      await getSchemas();
+    const {
+      content,
+      format,
+      level,
+      version = RulepackLoader.getDefaultVersion(),
+    } = body;
 
     // Validate required fields
     if (!content || !format || !level) {
@@ -139,18 +156,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { FormatEnum, ValidationLevelEnum } = await getSchemas();
-
     // Validate format and level
-    const formatResult = FormatEnum.safeParse(format);
+    const isKnownFormat = typeof format === "string" && (await FormatRegistry.has(format));
     const levelResult = ValidationLevelEnum.safeParse(level);
 
-    if (!formatResult.success || !levelResult.success) {
+    if (!isKnownFormat || !levelResult.success) {
       return NextResponse.json(
         {
           success: false,
           error: "Invalid format or level",
-          availableFormats: FormatEnum.options,
+          availableFormats: await FormatRegistry.ids(),
           availableLevels: ValidationLevelEnum.options,
         },
         { status: 400 }
@@ -162,14 +177,14 @@ export async function POST(request: NextRequest) {
     // Validate content against checklist
     const result = await ChecklistLoader.validateAgainstChecklist(
       content,
-      formatResult.data,
+      format,
       levelResult.data,
       version
     );
 
     // Get checklist metadata
     const metadata = await ChecklistLoader.getChecklistMetadata(
-      formatResult.data,
+      format,
       levelResult.data,
       version
     );
@@ -189,7 +204,7 @@ export async function POST(request: NextRequest) {
         success: false,
         error: error instanceof Error ? error.message : "Validation failed",
       },
-      { status: 500 }
+      { status: await errorStatus(error) }
     );
   }
 }
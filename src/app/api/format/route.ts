@@ -0,0 +1,54 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+import { NextRequest, NextResponse } from "next/server";
+
+// Dynamic imports to prevent build-time issues
+async function getFormatRegistry() {
+  const { FormatRegistry } = await import("@/lib/format-registry");
+  return FormatRegistry;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    const FormatRegistry = await getFormatRegistry();
+
+    // If no id specified, list every format discovered from rulepacks
+    if (!id) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          formats: await FormatRegistry.list(),
+        },
+      });
+    }
+
+    const format = await FormatRegistry.get(id);
+    if (!format) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown format: ${id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: format,
+    });
+  } catch (error) {
+    console.error("Error in format API:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+import { NextRequest, NextResponse } from "next/server";
+import { ValidationLevelEnum } from "@/types/rulepack";
+
+// Dynamic imports to prevent build-time issues
+async function getRulepackLoader() {
+  const { RulepackLoader } = await import("@/lib/rulepack-loader");
+  return RulepackLoader;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const level = searchParams.get("level");
+
+    const RulepackLoader = await getRulepackLoader();
+
+    // If no level specified, list the level guides for selection
+    if (!level) {
+      const levelGuides = await RulepackLoader.loadAllLevelGuides();
+      return NextResponse.json({
+        success: true,
+        data: {
+          levelGuides: levelGuides.map((levelGuide) => ({
+            level: levelGuide.level,
+            name: levelGuide.name,
+            description: levelGuide.description,
+            tokenLimits: levelGuide.tokenLimits,
+          })),
+        },
+      });
+    }
+
+    const parsedLevel = ValidationLevelEnum.safeParse(level);
+    if (!parsedLevel.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown level: ${level}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const levelGuide = await RulepackLoader.loadLevelGuide(parsedLevel.data);
+    return NextResponse.json({
+      success: true,
+      data: levelGuide,
+    });
+  } catch (error) {
+    console.error("Error in level API:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getLLMClient } from '@/lib/llm-client';
+import { encodeSSE } from '@/lib/sse';
+import {
+  createRequestContext,
+  enforceRateLimit,
+  parseUserInput,
+  preparePromptGeneration,
+  completePromptGeneration,
+  toErrorResponse
+} from '@/lib/prompt-pipeline';
+
+// Runtime configuration for Node.js (required for file system access)
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Streaming variant of POST /api/prompt.
+ *
+ * Failures before generation starts (rate limit, invalid input, token limit)
+ * are returned as regular JSON errors. Once generation starts the response is
+ * an SSE stream of `start`, `delta` ({ text }), `rewrite` ({ scoreBefore })
+ * when the automatic rewrite pass starts, and finally either `done` (the same
+ * payload as /api/prompt) or `error`. Closing the connection
+ * cancels the upstream LLM request.
+ */
+export async function POST(request: NextRequest) {
+  const context = createRequestContext(request);
+
+  let rateLimitHeaders: Record<string, string>;
+  let prepared;
+  try {
+    rateLimitHeaders = await enforceRateLimit(context);
+    const userInput = await parseUserInput(request, context);
+    prepared = await preparePromptGeneration(userInput, context, request.signal);
+  } catch (error) {
+    const { body, status, headers } = toErrorResponse(error, context);
+    return NextResponse.json(body, { status, ...(headers ? { headers } : {}) });
+  }
+
+  const abortController = new AbortController();
+  const abort = () => abortController.abort();
+  request.signal.addEventListener('abort', abort);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abortController.signal.aborted) return;
+        controller.enqueue(encoder.encode(encodeSSE(event, data)));
+      };
+
+      try {
+        send('start', { requestId: context.requestId });
+
+        // Created lazily so provider configuration errors are reported as events
+        const llmClient = getLLMClient();
+        const llmResponse = await llmClient.streamContent(
+          prepared.llmRequest,
+          text => send('delta', { text }),
+          abortController.signal
+        );
+
+        const response = await completePromptGeneration(prepared, llmResponse, context, {
+          signal: abortController.signal,
+          onRewrite: scoreBefore => send('rewrite', { scoreBefore }),
+        });
+        send('done', response);
+      } catch (error) {
+        send('error', toErrorResponse(error, context).body);
+      } finally {
+        request.signal.removeEventListener('abort', abort);
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...rateLimitHeaders,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -6,49 +6,111 @@ async function getRulepackLoader() {
   return RulepackLoader;
 }
 
+async function getFormatRegistry() {
+  const { FormatRegistry } = await import("@/lib/format-registry");
+  return FormatRegistry;
+}
+
+// Versions a format does not have are 400s rather than server errors
+async function versionErrorResponse(
+  error: unknown
+): Promise<NextResponse | null> {
+  const { RulepackVersionError } = await import("@/lib/rulepack-loader");
+  if (!(error instanceof RulepackVersionError)) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      availableVersions: error.availableVersions,
+    },
+    { status: 400 }
+  );
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const format = searchParams.get("format");
-    const version = searchParams.get("version") || "v1";
+    const version = searchParams.get("version") || undefined;
+    const overlay = searchParams.get("overlay");
 
     const RulepackLoader = await getRulepackLoader();
+    const FormatRegistry = await getFormatRegistry();
 
-    // If no format specified, return all available formats
+    // If no format specified, return all available formats and overlays
     if (!format) {
-      const formats = RulepackLoader.getAvailableFormats();
+      const formats = await FormatRegistry.list();
+      const overlays = await RulepackLoader.loadAllOverlayPacks();
       return NextResponse.json({
         success: true,
         data: {
-          availableFormats: formats,
-          supportedVersions: ["v1"],
+          availableFormats: formats.map((definition) => definition.id),
+          supportedVersions: await RulepackLoader.getAvailableVersions(),
+          defaultVersion: RulepackLoader.getDefaultVersion(),
+          versionsByFormat: Object.fromEntries(
+            formats.map((definition) => [definition.id, definition.versions])
+          ),
+          availableOverlays: overlays.map((overlayPack) => ({
+            id: overlayPack.id,
+            name: overlayPack.name,
+            description: overlayPack.description,
+            appliesTo: overlayPack.appliesTo,
+          })),
         },
       });
     }
 
     // Validate format
-    if (!RulepackLoader.isFormatSupported(format)) {
+    if (!(await FormatRegistry.has(format))) {
       return NextResponse.json(
         {
           success: false,
           error: `Unsupported format: ${format}`,
-          availableFormats: RulepackLoader.getAvailableFormats(),
+          availableFormats: await FormatRegistry.ids(),
         },
         { status: 400 }
       );
     }
 
-    // Load specific rulepack
-    const validFormat = format as Parameters<
-      typeof RulepackLoader.loadFormatPack
-    >[0];
-    const rulepack = await RulepackLoader.loadFormatPack(validFormat, version);
+    // Load specific rulepack, with the overlay applied when requested
+    if (overlay) {
+      try {
+        const overlayPack = await RulepackLoader.loadOverlayPack(overlay);
+        if (!RulepackLoader.isOverlayApplicable(overlayPack, format)) {
+          throw new Error(`Overlay pack ${overlay} does not apply to ${format}`);
+        }
+      } catch (error) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error instanceof Error ? error.message : `Unknown overlay pack: ${overlay}`,
+          },
+          { status: 404 }
+        );
+      }
+    }
+
+    const resolvedVersion = await RulepackLoader.resolveVersion(format, version);
+    const rulepack = await RulepackLoader.resolveRulepack(
+      format,
+      resolvedVersion,
+      overlay || undefined
+    );
 
     return NextResponse.json({
       success: true,
+      version: resolvedVersion,
       data: rulepack,
     });
   } catch (error) {
+    const versionError = await versionErrorResponse(error);
+    if (versionError) {
+      return versionError;
+    }
+
     console.error("Error in rulepack API:", error);
 
     return NextResponse.json(
@@ -64,7 +126,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { formats, version = "v1" } = body;
+    const { formats, version } = body;
 
     if (!Array.isArray(formats)) {
       return NextResponse.json(
@@ -77,10 +139,12 @@ export async function POST(request: NextRequest) {
     }
 
     const RulepackLoader = await getRulepackLoader();
+    const FormatRegistry = await getFormatRegistry();
 
     // Validate all formats
+    const availableFormats = await FormatRegistry.ids();
     const invalidFormats = formats.filter(
-      (format) => !RulepackLoader.isFormatSupported(format)
+      (format) => !availableFormats.includes(format)
     );
 
     if (invalidFormats.length > 0) {
@@ -88,12 +152,17 @@ export async function POST(request: NextRequest) {
         {
           success: false,
           error: `Unsupported formats: ${invalidFormats.join(", ")}`,
-          availableFormats: RulepackLoader.getAvailableFormats(),
+          availableFormats,
         },
         { status: 400 }
       );
     }
 
+    // Reject a version any of the formats lacks before loading
+    for (const format of formats) {
+      await RulepackLoader.resolveVersion(format, version);
+    }
+
     // Load multiple rulepacks
     const rulepacks: Record<string, unknown> = {};
 
@@ -116,6 +185,11 @@ export async function POST(request: NextRequest) {
       data: rulepacks,
     });
   } catch (error) {
+    const versionError = await versionErrorResponse(error);
+    if (versionError) {
+      return versionError;
+    }
+
     console.error("Error in rulepack bulk API:", error);
 
     return NextResponse.json(
@@ -0,0 +1,114 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+import { NextRequest, NextResponse } from "next/server";
+
+// Dynamic imports to prevent build-time issues
+async function getTokenizer() {
+  const { getTokenizer } = await import("@/lib/tokenizer");
+  return getTokenizer();
+}
+
+async function getRateLimiter() {
+  const { getRateLimiter, RequestIdentifier, createRateLimitHeaders } =
+    await import("@/lib/rate-limiter");
+  return {
+    rateLimiter: getRateLimiter(),
+    RequestIdentifier,
+    createRateLimitHeaders,
+  };
+}
+
+interface TokensRequestBody {
+  texts: Record<string, string>; // Field name to text, e.g. { topic, context }
+}
+
+// Most fields and characters counted per request; the form sends two short
+// fields
+const MAX_FIELDS = 10;
+const MAX_TOTAL_LENGTH = 20000;
+
+/**
+ * Count tokens with the configured model's tokenizer, for live counts in the
+ * form
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limited per IP, separately from prompt generation so that live
+    // counts do not use up the form's prompt requests
+    const { rateLimiter, RequestIdentifier, createRateLimitHeaders } =
+      await getRateLimiter();
+    const rateLimit = await rateLimiter.checkLimit(
+      RequestIdentifier.getIP(request.headers),
+      "tokens"
+    );
+    const headers = createRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.",
+        },
+        { status: 429, headers }
+      );
+    }
+
+    let body: TokensRequestBody;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Request body must be valid JSON",
+        },
+        { status: 400, headers }
+      );
+    }
+    const texts = body?.texts;
+    const values =
+      texts && typeof texts === "object" ? Object.values(texts) : [];
+
+    if (
+      !texts ||
+      typeof texts !== "object" ||
+      values.length > MAX_FIELDS ||
+      values.some((text) => typeof text !== "string") ||
+      values.reduce((total, text) => total + text.length, 0) > MAX_TOTAL_LENGTH
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `texts must map at most ${MAX_FIELDS} field names to strings of at most ${MAX_TOTAL_LENGTH} characters in all`,
+        },
+        { status: 400, headers }
+      );
+    }
+
+    const tokenizer = await getTokenizer();
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          vocabulary: tokenizer.vocabulary,
+          counts: Object.fromEntries(
+            Object.entries(texts).map(([field, text]) => [
+              field,
+              tokenizer.count(text),
+            ])
+          ),
+        },
+      },
+      { headers }
+    );
+  } catch (error) {
+    console.error("Error in tokens API:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
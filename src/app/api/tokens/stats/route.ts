@@ -0,0 +1,119 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+import { NextRequest, NextResponse } from "next/server";
+
+// Dynamic imports to prevent build-time issues
+async function getTokenGuard() {
+  const { getTokenGuard } = await import("@/lib/token-guard");
+  const { monthOf } = await import("@/lib/token-ledger");
+  return { tokenGuard: getTokenGuard(), monthOf };
+}
+
+async function getSchemas() {
+  const { ValidationLevelEnum } = await import("@/types/rulepack");
+  const { FormatRegistry } = await import("@/lib/format-registry");
+  return { FormatRegistry, ValidationLevelEnum };
+}
+
+/**
+ * Whether the request carries TOKEN_STATS_API_KEY as its bearer token.
+ * Without the key configured, no request is.
+ */
+async function isAuthorized(request: NextRequest): Promise<boolean> {
+  const apiKey = process.env.TOKEN_STATS_API_KEY;
+  const token = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(.+)$/)?.[1];
+  if (!apiKey || !token) {
+    return false;
+  }
+
+  const { createHash, timingSafeEqual } = await import("crypto");
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(apiKey));
+}
+
+/**
+ * Token usage from the ledger. Narrow with `month` (YYYY-MM, this month by
+ * default; "all" for every month), `format`, `level`, `user` and `office`.
+ * `user` (a session id or token) requires the stats API key.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get("month");
+    const format = searchParams.get("format");
+    const level = searchParams.get("level");
+    const user = searchParams.get("user");
+    const office = searchParams.get("office");
+
+    if (user && !(await isAuthorized(request))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Authorization required to filter by user",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { FormatRegistry, ValidationLevelEnum } = await getSchemas();
+    const levelResult = level ? ValidationLevelEnum.safeParse(level) : null;
+
+    if (month && month !== "all" && !/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid month: ${month} (expected YYYY-MM or all)`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (format && !(await FormatRegistry.has(format))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid format: ${format}`,
+          availableFormats: await FormatRegistry.ids(),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (levelResult && !levelResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid level: ${level}`,
+          availableLevels: ValidationLevelEnum.options,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { tokenGuard, monthOf } = await getTokenGuard();
+    const stats = await tokenGuard.getTokenStats({
+      ...(month !== "all" ? { month: month || monthOf() } : {}),
+      ...(format ? { format } : {}),
+      ...(levelResult?.success ? { level: levelResult.data } : {}),
+      ...(user ? { userId: user } : {}),
+      ...(office ? { office } : {}),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    console.error("Error in token stats API:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
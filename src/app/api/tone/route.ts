@@ -0,0 +1,59 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+import { NextRequest, NextResponse } from "next/server";
+
+// Dynamic imports to prevent build-time issues
+async function getRulepackLoader() {
+  const { RulepackLoader } = await import("@/lib/rulepack-loader");
+  return RulepackLoader;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    const RulepackLoader = await getRulepackLoader();
+
+    // If no id specified, list available tone packs for selection
+    if (!id) {
+      const tonePacks = await RulepackLoader.loadAllTonePacks();
+      return NextResponse.json({
+        success: true,
+        data: {
+          tonePacks: tonePacks.map((tonePack) => ({
+            id: tonePack.id,
+            name: tonePack.name,
+            description: tonePack.description,
+          })),
+        },
+      });
+    }
+
+    try {
+      const tonePack = await RulepackLoader.loadTonePack(id);
+      return NextResponse.json({
+        success: true,
+        data: tonePack,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : `Unknown tone pack: ${id}`,
+        },
+        { status: 404 }
+      );
+    }
+  } catch (error) {
+    console.error("Error in tone API:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
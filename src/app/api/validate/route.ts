@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { ComplianceJudge } from "@/lib/compliance-rules";
+import type { JudgeHooks } from "@/lib/llm-judge";
+import type { PromptPipelineError } from "@/lib/prompt-pipeline";
 
 // Dynamic imports to prevent build-time issues
 async function getValidation() {
@@ -11,9 +14,37 @@ async function getChecklistLoader() {
   return ChecklistLoader;
 }
 
+async function getJudge() {
+  const { LLMJudge } = await import("@/lib/llm-judge");
+  const { LLMError } = await import("@/lib/llm-client");
+  const { ScoringModel } = await import("@/lib/scoring");
+  const { splitFindings } = await import("@/lib/findings");
+  const { getTokenGuard } = await import("@/lib/token-guard");
+  const { PromptGenerator } = await import("@/lib/prompt-generator");
+  const pipeline = await import("@/lib/prompt-pipeline");
+  return {
+    LLMJudge,
+    LLMError,
+    ScoringModel,
+    splitFindings,
+    getTokenGuard,
+    PromptGenerator,
+    pipeline,
+  };
+}
+
 async function getSchemas() {
-  const { FormatEnum, ValidationLevelEnum } = await import("@/types/rulepack");
-  return { FormatEnum, ValidationLevelEnum };
+  const { ValidationLevelEnum } = await import("@/types/rulepack");
+  const { FormatRegistry } = await import("@/lib/format-registry");
+  const { RulepackLoader, RulepackVersionError } = await import(
+    "@/lib/rulepack-loader"
+  );
+  return {
+    FormatRegistry,
+    ValidationLevelEnum,
+    RulepackLoader,
+    RulepackVersionError,
+  };
 }
 
 interface ValidateRequestBody {
@@ -22,8 +53,31 @@ interface ValidateRequestBody {
   level: string;
   version?: string;
   includeChecklist?: boolean;
+  judge?: boolean; // Grade with the LLM judge as well as the rules
+}
+
+/**
+ * Response for a pipeline refusal (rate limit, token limit or budget)
+ */
+function pipelineErrorResponse(
+  error: PromptPipelineError,
+  headers: Record<string, string>
+) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error.details ? { details: error.details } : {}),
+    },
+    { status: error.status, headers: error.headers ?? headers }
+  );
 }
 
+// Longest content validated; generated prompts stay well under it, and the
+// cap bounds the time spent tokenizing
+const MAX_CONTENT_LENGTH = 20000;
+
 export async function POST(request: NextRequest) {
   try {
     const body: ValidateRequestBody = await request.json();
@@ -31,8 +85,9 @@ export async function POST(request: NextRequest) {
       content,
       format,
       level,
-      version = "v1",
+      version,
       includeChecklist = false,
+      judge = false,
     } = body;
 
     // Validate required fields
@@ -46,18 +101,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { FormatEnum, ValidationLevelEnum } = await getSchemas();
+    if (typeof content !== "string" || content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `content must be a string of at most ${MAX_CONTENT_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      FormatRegistry,
+      ValidationLevelEnum,
+      RulepackLoader,
+      RulepackVersionError,
+    } = await getSchemas();
 
     // Validate format and level
-    const formatResult = FormatEnum.safeParse(format);
+    const isKnownFormat = typeof format === "string" && (await FormatRegistry.has(format));
     const levelResult = ValidationLevelEnum.safeParse(level);
 
-    if (!formatResult.success) {
+    if (!isKnownFormat) {
       return NextResponse.json(
         {
           success: false,
           error: `Invalid format: ${format}`,
-          availableFormats: FormatEnum.options,
+          availableFormats: await FormatRegistry.ids(),
         },
         { status: 400 }
       );
@@ -74,16 +144,169 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let rulepackVersion: string;
+    try {
+      rulepackVersion = await RulepackLoader.resolveVersion(format, version);
+    } catch (error) {
+      if (error instanceof RulepackVersionError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+            availableVersions: error.availableVersions,
+          },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
     const ContentValidator = await getValidation();
 
+    // The LLM judge grades the rulepack's dos and donts and the checklist
+    // items first, so a failing judge fails the request before any other
+    // judge call is made. Judged requests are rate limited and count against
+    // token limits and budgets like /api/prompt; the first judge call is
+    // admitted with the request and every later one is checked against the
+    // budgets before it is made.
+    const {
+      LLMJudge,
+      LLMError,
+      ScoringModel,
+      splitFindings,
+      getTokenGuard,
+      PromptGenerator,
+      pipeline,
+    } = await getJudge();
+    let judged = null;
+    let complianceJudge: ComplianceJudge | undefined;
+    let budgetError: PromptPipelineError | undefined;
+    let rateLimitHeaders: Record<string, string> = {};
+    if (judge) {
+      const context = pipeline.createRequestContext(request);
+      const rulepack = await RulepackLoader.loadFormatPack(
+        format,
+        rulepackVersion
+      );
+      const judgeRequest = {
+        subject: "content" as const,
+        formatName: rulepack.display.name,
+        format,
+        level: levelResult.data,
+        requestId: context.requestId,
+        metadata: pipeline.getRequestMetadata(context),
+      };
+      const criteria = await LLMJudge.criteriaFor(
+        rulepack,
+        format,
+        levelResult.data
+      );
+      let admitted = false;
+      const hooks: JudgeHooks = {
+        beforeCall: async (call) => {
+          if (!admitted) {
+            admitted = true;
+            return;
+          }
+          try {
+            await pipeline.enforceCallBudgets(
+              call,
+              judgeRequest.metadata,
+              context
+            );
+          } catch (error) {
+            // Validation reports a failing judge as a failed check, so the
+            // refusal is kept to answer the request with
+            if (error instanceof pipeline.PromptPipelineError) {
+              budgetError ??= error;
+            }
+            throw error;
+          }
+        },
+        onUsage: async (response) => {
+          await getTokenGuard().logActualUsage(context.requestId, response);
+        },
+      };
+
+      try {
+        rateLimitHeaders = await pipeline.enforceRateLimit(context);
+        await pipeline.enforceTokenLimits(
+          {
+            ...PromptGenerator.generateJudgePrompts({
+              ...judgeRequest,
+              text: content,
+              criteria,
+            }),
+            format,
+            level: levelResult.data,
+            purpose: "judge",
+          },
+          judgeRequest.metadata,
+          context
+        );
+        const result = await LLMJudge.grade(
+          { ...judgeRequest, text: content, criteria },
+          request.signal,
+          hooks
+        );
+        judged = { result, criteria, rulepack };
+      } catch (error) {
+        if (error instanceof pipeline.PromptPipelineError) {
+          return pipelineErrorResponse(error, rateLimitHeaders);
+        }
+        if (error instanceof LLMError) {
+          return NextResponse.json(
+            { success: false, error: `LLM judge failed: ${error.message}` },
+            { status: 502, headers: rateLimitHeaders }
+          );
+        }
+        throw error;
+      }
+
+      complianceJudge = LLMJudge.complianceJudge(
+        judgeRequest,
+        hooks,
+        request.signal
+      );
+    }
+
     // Perform content validation
-    const validationResult = await ContentValidator.validateContent(
+    let validationResult = await ContentValidator.validateContent(
       content,
-      formatResult.data,
+      format,
       levelResult.data,
-      version
+      rulepackVersion,
+      complianceJudge
     );
 
+    // Merge the judgments with the rule-based findings and score them together
+    if (judged) {
+      const { result, criteria, rulepack } = judged;
+      const levelGuide = await RulepackLoader.loadLevelGuide(levelResult.data);
+      const findings = [
+        ...validationResult.findings,
+        ...LLMJudge.toFindings(result.judgments, criteria, content),
+      ];
+      const checks = [
+        ...validationResult.checks,
+        ...LLMJudge.toChecks(result.judgments, criteria),
+      ];
+      const { errors, warnings } = splitFindings(findings);
+      validationResult = {
+        ...validationResult,
+        isValid: errors.length === 0,
+        errors,
+        warnings,
+        findings,
+        checks,
+        scoring: ScoringModel.score(
+          checks,
+          ScoringModel.resolveConfig(rulepack, levelGuide),
+          levelGuide.strictness.passScore
+        ),
+      };
+    }
+
     // Optionally include checklist validation
     let checklistResult = null;
     if (includeChecklist) {
@@ -91,9 +314,10 @@ export async function POST(request: NextRequest) {
         const ChecklistLoader = await getChecklistLoader();
         checklistResult = await ChecklistLoader.validateAgainstChecklist(
           content,
-          formatResult.data,
+          format,
           levelResult.data,
-          version
+          rulepackVersion,
+          complianceJudge
         );
       } catch (error) {
         console.warn("Checklist validation failed:", error);
@@ -101,13 +325,31 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        validation: validationResult,
-        checklist: checklistResult,
+    if (budgetError) {
+      return pipelineErrorResponse(budgetError, rateLimitHeaders);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          validation: validationResult,
+          checklist: checklistResult,
+          ...(judged
+            ? {
+                judge: {
+                  criteria: judged.criteria.length,
+                  failed: judged.result.judgments.filter(
+                    (judgment) => !judgment.passed
+                  ).length,
+                  cached: judged.result.cached,
+                },
+              }
+            : {}),
+        },
       },
-    });
+      { headers: rateLimitHeaders }
+    );
   } catch (error) {
     console.error("Error in validation API:", error);
 
@@ -122,14 +364,16 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET() {
-  const { FormatEnum, ValidationLevelEnum } = await getSchemas();
+  const { FormatRegistry, ValidationLevelEnum, RulepackLoader } =
+    await getSchemas();
   
   return NextResponse.json({
     success: true,
     data: {
-      supportedFormats: FormatEnum.options,
+      supportedFormats: await FormatRegistry.ids(),
       supportedLevels: ValidationLevelEnum.options,
-      supportedVersions: ["v1"],
+      supportedVersions: await RulepackLoader.getAvailableVersions(),
+      defaultVersion: RulepackLoader.getDefaultVersion(),
       endpoints: {
         validate: "POST /api/validate",
         rulepack: "GET /api/rulepack",
@@ -1,6 +1,6 @@
 "use client"
 
-import { useMemo, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Form, FormControl, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
@@ -16,36 +16,146 @@ import {
   type APIResponse,
   type PromptResponse,
   type ErrorResponse,
+  type NormalizedTopic,
+  type ValidationFinding,
 } from "@/types/rulepack"
+import { readSSE } from "@/lib/sse"
 
-const formatOptions: { value: Format; label: string }[] = [
-  { value: "press_release", label: "보도자료" },
-  { value: "speech", label: "연설문" },
-  { value: "sns", label: "SNS 게시글" },
-  { value: "inquiry", label: "자료제출" },
-  { value: "report", label: "보고서" },
-  { value: "media_scraping", label: "이슈 분석" },
-]
-
-const levelOptions: { value: ValidationLevel; label: string }[] = [
-  { value: "basic", label: "기본 (≤300토큰)" },
-  { value: "intermediate", label: "중급 (≤600토큰)" },
-  { value: "advanced", label: "고급 (≤900토큰)" },
+// Shown until the level guides are loaded from /api/level
+const defaultLevelOptions: LevelOption[] = [
+  { value: "basic", label: "기본" },
+  { value: "intermediate", label: "중급" },
+  { value: "advanced", label: "고급" },
 ]
 
 function isSuccess(res: APIResponse): res is PromptResponse {
   return (res as PromptResponse).success === true
 }
 
+// Format as listed by /api/format
+interface FormatOption {
+  id: Format
+  name: string
+  icon: string
+  description?: string
+  versions: string[]
+}
+
+interface LevelOption {
+  value: ValidationLevel
+  label: string
+}
+
+interface LevelGuideSummary {
+  level: ValidationLevel
+  name: string
+  tokenLimits: { input: number; output: number }
+}
+
+interface ToneOption {
+  id: string
+  name: string
+  description?: string
+}
+
+// Editable text form of a NormalizedTopic (list fields one item per line)
+interface TopicDraft {
+  domain: string
+  keyMessages: string
+  stakeholders: string
+  risks: string
+}
+
+function toTopicDraft(topic: NormalizedTopic): TopicDraft {
+  return {
+    domain: topic.domain,
+    keyMessages: topic.keyMessages.join("\n"),
+    stakeholders: topic.stakeholders.join("\n"),
+    risks: topic.risks.join("\n"),
+  }
+}
+
+function fromTopicDraft(draft: TopicDraft): NormalizedTopic {
+  const lines = (text: string) =>
+    text.split("\n").map((line) => line.trim()).filter(Boolean)
+  return {
+    domain: draft.domain.trim(),
+    keyMessages: lines(draft.keyMessages),
+    stakeholders: lines(draft.stakeholders),
+    risks: lines(draft.risks),
+  }
+}
+
+interface TextSegment {
+  text: string
+  finding?: ValidationFinding // Set for highlighted segments
+}
+
+// Split text into plain and highlighted segments. Findings without offsets are
+// skipped, as are findings overlapping an earlier one.
+function toSegments(text: string, findings: ValidationFinding[] = []): TextSegment[] {
+  const located = findings
+    .filter((finding) => finding.start !== undefined && finding.end !== undefined && finding.end > finding.start)
+    .sort((a, b) => (a.start ?? 0) - (b.start ?? 0))
+
+  const segments: TextSegment[] = []
+  let position = 0
+  for (const finding of located) {
+    const start = finding.start ?? 0
+    const end = Math.min(finding.end ?? 0, text.length)
+    if (start < position || start >= end) {
+      continue
+    }
+    if (start > position) {
+      segments.push({ text: text.slice(position, start) })
+    }
+    segments.push({ text: text.slice(start, end), finding })
+    position = end
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position) })
+  }
+  return segments
+}
+
+function HighlightedText({ text, findings }: { text: string; findings?: ValidationFinding[] | undefined }) {
+  return (
+    <>
+      {toSegments(text, findings).map((segment, index) =>
+        segment.finding ? (
+          <mark
+            key={index}
+            title={[segment.finding.message, segment.finding.suggestion].filter(Boolean).join("\n")}
+            className={`rounded px-0.5 underline decoration-wavy ${
+              segment.finding.severity === "error"
+                ? "bg-red-100 text-red-900 decoration-red-500"
+                : "bg-yellow-100 text-yellow-900 decoration-yellow-500"
+            }`}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
 export default function PromptGenerator() {
   const [formData, setFormData] = useState<Partial<UserInput>>({
     topic: "",
     format: "press_release",
     level: "intermediate",
     context: "",
-    tone: "public_official_v1",
+    tone: "", // Empty: the format's default tone pack
     additionalRequirements: [],
-    options: { includeWarnings: true, strictMode: true },
+    options: {
+      includeWarnings: true,
+      strictMode: true,
+      autoRewrite: false,
+      judge: false,
+    },
   })
 
   const [isLoading, setIsLoading] = useState(false)
@@ -53,35 +163,150 @@ export default function PromptGenerator() {
   const [error, setError] = useState<string | null>(null)
   const [newRequirement, setNewRequirement] = useState("")
   const [copySuccess, setCopySuccess] = useState<string>("")
+  const [streamingText, setStreamingText] = useState("")
+  const [isRewriting, setIsRewriting] = useState(false)
+  const [topicDraft, setTopicDraft] = useState<TopicDraft | null>(null)
+  const [toneOptions, setToneOptions] = useState<ToneOption[]>([])
+  const [levelOptions, setLevelOptions] = useState<LevelOption[]>(defaultLevelOptions)
+  const [formatOptions, setFormatOptions] = useState<FormatOption[]>([])
+  const [tokenCounts, setTokenCounts] = useState<{ topic?: number; context?: number }>({})
+
+  useEffect(() => {
+    fetch("/api/format")
+      .then((response) => response.json())
+      .then((data: { success: boolean; data?: { formats: FormatOption[] } }) => {
+        if (data.success && data.data) setFormatOptions(data.data.formats)
+      })
+      .catch((err) => console.error("형식 목록 로드 실패:", err))
+
+    fetch("/api/level")
+      .then((response) => response.json())
+      .then((data: { success: boolean; data?: { levelGuides: LevelGuideSummary[] } }) => {
+        if (data.success && data.data) {
+          setLevelOptions(
+            data.data.levelGuides.map((guide) => ({
+              value: guide.level,
+              label: `${guide.name} (≤${guide.tokenLimits.output}토큰)`,
+            }))
+          )
+        }
+      })
+      .catch((err) => console.error("수준 목록 로드 실패:", err))
+
+    fetch("/api/tone")
+      .then((response) => response.json())
+      .then((data: { success: boolean; data?: { tonePacks: ToneOption[] } }) => {
+        if (data.success && data.data) setToneOptions(data.data.tonePacks)
+      })
+      .catch((err) => console.error("어조 목록 로드 실패:", err))
+  }, [])
+
+  // Live token counts for topic and context, once typing pauses
+  useEffect(() => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          texts: { topic: formData.topic || "", context: formData.context || "" },
+        }),
+        signal: controller.signal,
+      })
+        .then((response) => response.json())
+        .then((data: { success: boolean; data?: { counts: { topic: number; context: number } } }) => {
+          if (data.success && data.data) setTokenCounts(data.data.counts)
+        })
+        .catch((err) => {
+          if (!controller.signal.aborted) console.error("토큰 수 계산 실패:", err)
+        })
+    }, 300)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [formData.topic, formData.context])
+  const abortRef = useRef<AbortController | null>(null)
 
   const reqCount = formData.additionalRequirements?.length || 0
+  const selectedFormat = formatOptions.find((option) => option.id === formData.format)
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const generate = async (input: Partial<UserInput>) => {
+    const controller = new AbortController()
+    abortRef.current = controller
     setIsLoading(true)
     setError(null)
     setResult(null)
+    setStreamingText("")
+    setIsRewriting(false)
     try {
-      const response = await fetch("/api/prompt", {
+      const response = await fetch("/api/prompt/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...input,
+          tone: input.tone || undefined,
+          rulepackVersion: input.rulepackVersion || undefined,
+        }),
+        signal: controller.signal,
       })
-      const data = (await response.json()) as APIResponse
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        const data = (await response.json()) as APIResponse
         if (!isSuccess(data)) setError((data as ErrorResponse).error.message)
         else setError("서버 오류가 발생했습니다.")
-      } else {
-        setResult(data)
+        return
+      }
+
+      for await (const { event, data } of readSSE(response.body)) {
+        if (event === "delta") {
+          const { text } = JSON.parse(data) as { text: string }
+          setStreamingText((prev) => prev + text)
+        } else if (event === "rewrite") {
+          setIsRewriting(true)
+        } else if (event === "done") {
+          const response = JSON.parse(data) as PromptResponse
+          setResult(response)
+          const normalizedTopic = response.data.metadata.normalizedTopic
+          setTopicDraft(normalizedTopic ? toTopicDraft(normalizedTopic) : null)
+        } else if (event === "error") {
+          setError((JSON.parse(data) as ErrorResponse).error.message)
+        }
       }
     } catch (err) {
-      console.error("API 호출 실패:", err)
-      setError("네트워크 오류가 발생했습니다. 다시 시도해주세요.")
+      if (controller.signal.aborted) {
+        setError("생성이 취소되었습니다.")
+      } else {
+        console.error("API 호출 실패:", err)
+        setError("네트워크 오류가 발생했습니다. 다시 시도해주세요.")
+      }
     } finally {
+      abortRef.current = null
+      setStreamingText("")
+      setIsRewriting(false)
       setIsLoading(false)
     }
   }
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await generate(formData)
+  }
+
+  // Regenerate with the aide's edited interpretation instead of a new normalization call
+  const regenerateWithTopic = async () => {
+    if (!topicDraft) return
+    await generate({ ...formData, normalizedTopic: fromTopicDraft(topicDraft) })
+  }
+
+  const updateTopicDraft = (field: keyof TopicDraft, value: string) => {
+    setTopicDraft((prev) => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const cancelGeneration = () => {
+    abortRef.current?.abort()
+  }
+
   const addRequirement = () => {
     if (newRequirement.trim() && reqCount < 5) {
       setFormData((prev) => ({
@@ -170,6 +395,7 @@ export default function PromptGenerator() {
                       </FormControl>
                       <div className="text-xs text-muted-foreground mt-1">
                         작성하고자 하는 콘텐츠의 핵심 주제를 간단명료하게 입력하세요
+                        {tokenCounts.topic !== undefined && ` · 토큰 ${tokenCounts.topic}개`}
                       </div>
                       <FormMessage>
                         {formData.topic && formData.topic.length > 200 &&
@@ -189,20 +415,22 @@ export default function PromptGenerator() {
                             setFormData((prev) => ({
                               ...prev,
                               format: e.target.value as Format,
+                              rulepackVersion: "", // Versions differ per format
                             }))
                           }
                           required
                           className="input-focus h-12 text-base border-border/50 bg-background/50"
                         >
+                          {formatOptions.length === 0 && <option value={formData.format}>형식 불러오는 중…</option>}
                           {formatOptions.map((option) => (
-                            <option key={option.value} value={option.value}>
-                              {option.label}
+                            <option key={option.id} value={option.id}>
+                              {option.icon} {option.name}
                             </option>
                           ))}
                         </Select>
                       </FormControl>
                       <div className="text-xs text-muted-foreground mt-1">
-                        생성할 프롬프트가 만들어낼 콘텐츠의 형식을 선택하세요
+                        {selectedFormat?.description || "생성할 프롬프트가 만들어낼 콘텐츠의 형식을 선택하세요"}
                       </div>
                     </FormItem>
                   </div>
@@ -235,6 +463,55 @@ export default function PromptGenerator() {
                         </div>
                       </FormItem>
 
+                      <FormItem>
+                        <FormLabel htmlFor="tone">어조</FormLabel>
+                        <FormControl>
+                          <Select
+                            id="tone"
+                            value={formData.tone || ""}
+                            onChange={(e) =>
+                              setFormData((prev) => ({ ...prev, tone: e.target.value }))
+                            }
+                          >
+                            <option value="">형식 기본 어조</option>
+                            {toneOptions.map((option) => (
+                              <option key={option.id} value={option.id}>
+                                {option.name}
+                              </option>
+                            ))}
+                          </Select>
+                        </FormControl>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {toneOptions.find((option) => option.id === formData.tone)?.description ||
+                            "프롬프트에 반영할 경어법과 문체를 선택하세요"}
+                        </div>
+                      </FormItem>
+
+                      {(selectedFormat?.versions.length ?? 0) > 1 && (
+                        <FormItem>
+                          <FormLabel htmlFor="rulepackVersion">규칙 버전</FormLabel>
+                          <FormControl>
+                            <Select
+                              id="rulepackVersion"
+                              value={formData.rulepackVersion || ""}
+                              onChange={(e) =>
+                                setFormData((prev) => ({ ...prev, rulepackVersion: e.target.value }))
+                              }
+                            >
+                              <option value="">기본 버전</option>
+                              {selectedFormat?.versions.map((version) => (
+                                <option key={version} value={version}>
+                                  {version}
+                                </option>
+                              ))}
+                            </Select>
+                          </FormControl>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            비교할 작성 규칙 버전을 선택하세요
+                          </div>
+                        </FormItem>
+                      )}
+
                       <FormItem>
                         <FormLabel htmlFor="context">배경 정보</FormLabel>
                         <FormControl>
@@ -251,12 +528,65 @@ export default function PromptGenerator() {
                         </FormControl>
                         <div className="text-xs text-muted-foreground mt-1">
                           주제와 관련된 현재 상황이나 맥락을 설명해주세요
+                          {tokenCounts.context !== undefined && ` · 토큰 ${tokenCounts.context}개`}
                         </div>
                         <FormMessage>
                           {formData.context && formData.context.length > 500 &&
                             "배경정보는 500자 이내로 입력해주세요"}
                         </FormMessage>
                       </FormItem>
+
+                      <FormItem>
+                        <label htmlFor="autoRewrite" className="flex items-center gap-2 text-sm font-medium text-foreground">
+                          <input
+                            id="autoRewrite"
+                            type="checkbox"
+                            checked={formData.options?.autoRewrite ?? false}
+                            onChange={(e) =>
+                              setFormData((prev) => ({
+                                ...prev,
+                                options: {
+                                  includeWarnings: prev.options?.includeWarnings ?? true,
+                                  strictMode: prev.options?.strictMode ?? false,
+                                  judge: prev.options?.judge ?? false,
+                                  ...prev.options,
+                                  autoRewrite: e.target.checked,
+                                },
+                              }))
+                            }
+                          />
+                          체크리스트 자동 보완
+                        </label>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          검증에서 미준수 항목이 있으면 1회 자동으로 재작성하고, 점수가 더 높은 결과를 사용합니다
+                        </div>
+                      </FormItem>
+
+                      <FormItem>
+                        <label htmlFor="judge" className="flex items-center gap-2 text-sm font-medium text-foreground">
+                          <input
+                            id="judge"
+                            type="checkbox"
+                            checked={formData.options?.judge ?? false}
+                            onChange={(e) =>
+                              setFormData((prev) => ({
+                                ...prev,
+                                options: {
+                                  includeWarnings: prev.options?.includeWarnings ?? true,
+                                  strictMode: prev.options?.strictMode ?? false,
+                                  autoRewrite: prev.options?.autoRewrite ?? false,
+                                  ...prev.options,
+                                  judge: e.target.checked,
+                                },
+                              }))
+                            }
+                          />
+                          LLM 심사
+                        </label>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          생성된 프롬프트가 형식의 권장·금지 사항을 지키는지 LLM이 한 번 더 심사합니다
+                        </div>
+                      </FormItem>
                     </div>
 
                     <div className="space-y-4">
@@ -327,6 +657,16 @@ export default function PromptGenerator() {
                       "프롬프트 생성"
                     )}
                   </Button>
+                  {isLoading && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={cancelGeneration}
+                      className="w-full mt-3 h-12 text-base font-medium"
+                    >
+                      생성 취소
+                    </Button>
+                  )}
                 </Form>
               </CardContent>
             </Card>
@@ -354,6 +694,21 @@ export default function PromptGenerator() {
                   </div>
                 )}
 
+                {isLoading && (
+                  <div className="animate-fade-up">
+                    <h4 className="text-lg font-medium text-foreground mb-3">
+                      {isRewriting ? "미준수 항목 보완 중" : "생성 중인 프롬프트"}
+                    </h4>
+                    <div className="p-6 bg-gradient-to-br from-background to-muted/30 rounded-lg border border-border/30 shadow-modern">
+                      <pre className="whitespace-pre-wrap text-sm leading-relaxed text-foreground">
+                        {isRewriting
+                          ? `${streamingText}\n\n체크리스트 미준수 항목을 보완하여 다시 작성하고 있습니다...`
+                          : streamingText || "응답을 기다리는 중..."}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+
                 {result && isSuccess(result) && (
                   <div className="space-y-6">
                     {/* Prompt Output */}
@@ -378,9 +733,10 @@ export default function PromptGenerator() {
                       </div>
                       <div className="p-6 bg-gradient-to-br from-background to-muted/30 rounded-lg border border-border/30 shadow-modern">
                         <pre className="whitespace-pre-wrap text-sm leading-relaxed text-foreground">
-                          {typeof result.data.prompt === 'string'
-                            ? result.data.prompt
-                            : JSON.stringify(result.data.prompt, null, 2)}
+                          <HighlightedText
+                            text={result.data.prompt}
+                            findings={result.data.validation.findings}
+                          />
                         </pre>
                       </div>
                     </div>
@@ -392,7 +748,8 @@ export default function PromptGenerator() {
                         <div className="p-4 bg-secondary/30 rounded-lg border border-border/30">
                           <div className="text-sm text-muted-foreground mb-1">형식</div>
                           <div className="font-medium text-foreground">
-                            {formatOptions.find((f) => f.value === result.data.metadata.format)?.label}
+                            {formatOptions.find((f) => f.id === result.data.metadata.format)?.name ||
+                              result.data.metadata.format}
                           </div>
                         </div>
                         <div className="p-4 bg-secondary/30 rounded-lg border border-border/30">
@@ -401,6 +758,17 @@ export default function PromptGenerator() {
                             {levelOptions.find((l) => l.value === result.data.metadata.level)?.label}
                           </div>
                         </div>
+                        <div className="p-4 bg-secondary/30 rounded-lg border border-border/30">
+                          <div className="text-sm text-muted-foreground mb-1">어조</div>
+                          <div className="font-medium text-foreground">
+                            {toneOptions.find((t) => t.id === result.data.metadata.toneUsed)?.name ||
+                              result.data.metadata.toneUsed}
+                          </div>
+                        </div>
+                        <div className="p-4 bg-secondary/30 rounded-lg border border-border/30">
+                          <div className="text-sm text-muted-foreground mb-1">규칙 버전</div>
+                          <div className="font-medium text-foreground">{result.data.rulepack.version}</div>
+                        </div>
                         <div className="p-4 bg-secondary/30 rounded-lg border border-border/30">
                           <div className="text-sm text-muted-foreground mb-1">토큰 수</div>
                           <div className="font-medium text-foreground">{result.data.metadata.tokenCount}</div>
@@ -409,9 +777,91 @@ export default function PromptGenerator() {
                           <div className="text-sm text-muted-foreground mb-1">처리 시간</div>
                           <div className="font-medium text-foreground">{result.data.metadata.processingTime}ms</div>
                         </div>
+                        {result.data.metadata.cost && (
+                          <div className="p-4 bg-secondary/30 rounded-lg border border-border/30">
+                            <div className="text-sm text-muted-foreground mb-1">비용</div>
+                            <div className="font-medium text-foreground">
+                              ${result.data.metadata.cost.total.toFixed(6)}
+                              {result.data.metadata.cost.unpricedModels && " (가격 미등록 모델 포함)"}
+                            </div>
+                          </div>
+                        )}
+                        {result.data.metadata.rewrite && (
+                          <div className="p-4 bg-secondary/30 rounded-lg border border-border/30 md:col-span-2">
+                            <div className="text-sm text-muted-foreground mb-1">자동 보완</div>
+                            <div className="font-medium text-foreground">
+                              {result.data.metadata.rewrite.count === 0
+                                ? `재작성 실패 · 초안 유지 (${result.data.metadata.rewrite.scoreBefore}점)`
+                                : `재작성 ${result.data.metadata.rewrite.count}회 · ${result.data.metadata.rewrite.scoreBefore}점 → ${result.data.metadata.rewrite.scoreAfter}점 · ${
+                                    result.data.metadata.rewrite.kept === "rewritten" ? "재작성본 사용" : "초안 유지"
+                                  }`}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
 
+                    {/* Topic Interpretation */}
+                    {topicDraft && (
+                      <div>
+                        <h4 className="text-lg font-medium text-foreground mb-2">주제 해석</h4>
+                        <p className="text-sm text-muted-foreground mb-4">
+                          주제가 어떻게 해석되었는지 확인하고, 필요하면 수정한 뒤 다시 생성하세요 (목록은 한 줄에 하나씩)
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormItem>
+                            <FormLabel htmlFor="topic-domain">분야</FormLabel>
+                            <Input
+                              id="topic-domain"
+                              value={topicDraft.domain}
+                              onChange={(e) => updateTopicDraft("domain", e.target.value)}
+                              maxLength={100}
+                            />
+                          </FormItem>
+                          <FormItem>
+                            <FormLabel htmlFor="topic-stakeholders">이해관계자</FormLabel>
+                            <Textarea
+                              id="topic-stakeholders"
+                              value={topicDraft.stakeholders}
+                              onChange={(e) => updateTopicDraft("stakeholders", e.target.value)}
+                              rows={3}
+                            />
+                          </FormItem>
+                          <FormItem>
+                            <FormLabel htmlFor="topic-key-messages">핵심 메시지</FormLabel>
+                            <Textarea
+                              id="topic-key-messages"
+                              value={topicDraft.keyMessages}
+                              onChange={(e) => updateTopicDraft("keyMessages", e.target.value)}
+                              rows={3}
+                            />
+                          </FormItem>
+                          <FormItem>
+                            <FormLabel htmlFor="topic-risks">유의할 리스크</FormLabel>
+                            <Textarea
+                              id="topic-risks"
+                              value={topicDraft.risks}
+                              onChange={(e) => updateTopicDraft("risks", e.target.value)}
+                              rows={3}
+                            />
+                          </FormItem>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={regenerateWithTopic}
+                          disabled={
+                            isLoading ||
+                            !topicDraft.domain.trim() ||
+                            fromTopicDraft(topicDraft).keyMessages.length === 0
+                          }
+                          className="mt-4"
+                        >
+                          수정한 해석으로 다시 생성
+                        </Button>
+                      </div>
+                    )}
+
                     {/* Validation Results */}
                     {result.data.validation && (
                       <div>
@@ -433,8 +883,55 @@ export default function PromptGenerator() {
                                 {result.data.validation.score}/100점
                               </span>
                             </div>
+                            {result.data.validation.scoring && (
+                              <div className="mt-2 text-xs space-y-1">
+                                <div>
+                                  {`검사 ${result.data.validation.scoring.passedChecks}/${result.data.validation.scoring.totalChecks}개 통과 (가중 점수 ${result.data.validation.scoring.weightedScore}점)`}
+                                  {result.data.validation.scoring.errorCap !== undefined &&
+                                    ` · 오류가 있어 ${result.data.validation.scoring.errorCap}점 상한 적용`}
+                                  {` · 통과 기준 ${result.data.validation.scoring.passScore}점`}
+                                </div>
+                                <div className="flex flex-wrap gap-x-3">
+                                  {result.data.validation.scoring.categories.map((category) => (
+                                    <span key={category.category}>
+                                      {`${category.category} ${category.score}점 (${category.passedChecks}/${category.totalChecks}${
+                                        category.weight !== 1 ? ` · 가중치 ×${category.weight}` : ""
+                                      })`}
+                                    </span>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
                           </div>
 
+                          {result.data.validation.checklist.length > 0 && (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              {result.data.validation.checklist.map((group) => (
+                                <div key={group.category} className="p-4 bg-secondary/30 rounded-lg border border-border/30">
+                                  <h5 className="font-medium text-foreground mb-2">{group.category}</h5>
+                                  <ul className="space-y-1">
+                                    {group.items.map((item) => (
+                                      <li key={item.description} className="text-sm flex items-start gap-2">
+                                        <span
+                                          className={
+                                            item.passed
+                                              ? "text-green-600"
+                                              : item.severity === "error"
+                                                ? "text-red-600"
+                                                : "text-yellow-600"
+                                          }
+                                        >
+                                          {item.passed ? "✓" : "✗"}
+                                        </span>
+                                        <span className="text-foreground">{item.description}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+
                           {result.data.validation.warnings && result.data.validation.warnings.length > 0 && (
                             <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
                               <h5 className="font-medium text-yellow-800 mb-3 flex items-center gap-2">
@@ -452,6 +949,34 @@ export default function PromptGenerator() {
                             </div>
                           )}
 
+                          {result.data.validation.findings && result.data.validation.findings.some((finding) => finding.start !== undefined) && (
+                            <div className="p-4 bg-secondary/30 border border-border/30 rounded-lg">
+                              <h5 className="font-medium text-foreground mb-3 flex items-center gap-2">
+                                <span>🔍</span>
+                                표시된 항목
+                              </h5>
+                              <ul className="space-y-2">
+                                {result.data.validation.findings
+                                  .filter((finding) => finding.start !== undefined && finding.end !== undefined)
+                                  .map((finding, index) => (
+                                    <li key={index} className="text-sm flex items-start gap-2">
+                                      <mark
+                                        className={`rounded px-1 shrink-0 ${
+                                          finding.severity === "error" ? "bg-red-100 text-red-900" : "bg-yellow-100 text-yellow-900"
+                                        }`}
+                                      >
+                                        {result.data.prompt.slice(finding.start, finding.end)}
+                                      </mark>
+                                      <span className="text-muted-foreground">
+                                        {finding.message}
+                                        {finding.suggestion && ` → ${finding.suggestion}`}
+                                      </span>
+                                    </li>
+                                  ))}
+                              </ul>
+                            </div>
+                          )}
+
                           {result.data.validation.suggestions && result.data.validation.suggestions.length > 0 && (
                             <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                               <h5 className="font-medium text-blue-800 mb-3 flex items-center gap-2">
@@ -0,0 +1,349 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { cp, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ChecklistAnnotationError,
+  ChecklistLoader,
+  ChecklistNotFoundError,
+} from "../checklist-loader";
+import { RulepackLoader } from "../rulepack-loader";
+import { ValidationLevelEnum } from "@/types/rulepack";
+
+const HASHTAGS = "5개 이하의 해시태그를 사용했는가?";
+const MAIN_LENGTH = "200자 이내로 작성되었는가?";
+const ACCURACY = "모든 정보가 정확하고 검증 가능한가?";
+
+const post = (hashtags: string[], main = "청년 주거 지원이 확대됩니다.") =>
+  [
+    "🎯 훅",
+    "청년 주거, 이제 달라집니다!",
+    "📝 메인 콘텐츠",
+    main,
+    "👉 행동 유도",
+    "댓글로 의견을 남겨 주세요",
+    "🏷️ 해시태그",
+    hashtags.join(" "),
+  ].join("\n");
+
+describe("ChecklistLoader", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    ChecklistLoader.clearCache();
+  });
+
+  it.each([
+    "inquiry",
+    "media_scraping",
+    "press_release",
+    "report",
+    "sns",
+    "speech",
+  ])("should have a checklist for every level of %s", async (format) => {
+    for (const level of ValidationLevelEnum.options) {
+      expect(
+        (await ChecklistLoader.loadChecklist(format, level)).length
+      ).toBeGreaterThan(0);
+    }
+  });
+
+  it("should throw for a missing checklist instead of returning nothing", async () => {
+    await expect(
+      ChecklistLoader.loadChecklist("sns", "intermediate", "v9")
+    ).rejects.toThrow(ChecklistNotFoundError);
+  });
+
+  describe("extends", () => {
+    it("should inherit the parent's items and add its own", async () => {
+      const intermediate = await ChecklistLoader.loadChecklist(
+        "sns",
+        "intermediate"
+      );
+      const advanced = await ChecklistLoader.loadChecklist("sns", "advanced");
+      const items = (checklist: typeof advanced) =>
+        checklist.flatMap((category) => category.items);
+
+      expect(items(advanced)).toEqual(
+        expect.arrayContaining(items(intermediate))
+      );
+      expect(items(advanced).length).toBeGreaterThan(
+        items(intermediate).length
+      );
+      // A category with an inherited name extends that category
+      expect(
+        advanced.filter((category) => category.category === "정확성 (Accuracy)")
+      ).toHaveLength(1);
+      expect(
+        advanced.find((category) => category.category === "리스크 검토")
+          ?.annotations["게시 전 리스크 검토 항목이 정리되어 있는가?"]
+      ).toEqual({ kind: "section", section: "risk_review" });
+      // Inherited annotations still apply
+      expect(
+        advanced.find((category) => category.items.includes(HASHTAGS))
+          ?.annotations[HASHTAGS]
+      ).toMatchObject({ kind: "count" });
+    });
+
+    it("should report the parent in the metadata", async () => {
+      const metadata = await ChecklistLoader.getChecklistMetadata(
+        "sns",
+        "advanced"
+      );
+
+      expect(metadata.extends).toBe("sns_intermediate_v1");
+    });
+
+    describe("with edited checklists", () => {
+      let root: string;
+
+      const write = (id: string, frontmatter: string) =>
+        writeFile(
+          join(root, "checklists", `${id}.md`),
+          `---\n${frontmatter}\n---\n\n## 항목\n\n- [ ] 확인\n`
+        );
+
+      beforeEach(async () => {
+        root = await mkdtemp(join(tmpdir(), "checklists-"));
+        await cp(join(process.cwd(), "checklists"), join(root, "checklists"), {
+          recursive: true,
+        });
+        jest.spyOn(process, "cwd").mockReturnValue(root);
+      });
+
+      afterEach(async () => {
+        await rm(root, { recursive: true });
+      });
+
+      it("should reject frontmatter that does not match the file name", async () => {
+        await write(
+          "sns_basic_v1",
+          "format: sns\nlevel: advanced\nversion: v1"
+        );
+
+        await expect(
+          ChecklistLoader.loadChecklist("sns", "basic")
+        ).rejects.toThrow("describes sns_advanced_v1");
+      });
+
+      it("should reject unknown and circular parents", async () => {
+        await write(
+          "sns_basic_v1",
+          "format: sns\nlevel: basic\nversion: v1\nextends: sns_basic_v2"
+        );
+        await write(
+          "report_basic_v1",
+          "format: report\nlevel: basic\nversion: v1\nextends: report_advanced_v1"
+        );
+        await write(
+          "report_advanced_v1",
+          "format: report\nlevel: advanced\nversion: v1\nextends: report_basic_v1"
+        );
+
+        await expect(
+          ChecklistLoader.loadChecklist("sns", "basic")
+        ).rejects.toThrow("unknown checklist 'sns_basic_v2'");
+        await expect(
+          ChecklistLoader.loadChecklist("report", "basic")
+        ).rejects.toThrow("circular extends");
+      });
+
+      it("should reject checklists without frontmatter", async () => {
+        await writeFile(
+          join(root, "checklists", "sns_basic_v1.md"),
+          "## 항목\n\n- [ ] 확인\n"
+        );
+
+        await expect(
+          ChecklistLoader.loadChecklist("sns", "basic")
+        ).rejects.toThrow("missing frontmatter");
+      });
+    });
+  });
+
+  describe("parseAnnotation", () => {
+    it("should parse every kind of check", () => {
+      expect(ChecklistLoader.parseAnnotation("regex !/획기적/i")).toEqual({
+        kind: "regex",
+        pattern: "획기적",
+        flags: "i",
+        negate: true,
+      });
+      expect(ChecklistLoader.parseAnnotation("section quote")).toEqual({
+        kind: "section",
+        section: "quote",
+      });
+      expect(ChecklistLoader.parseAnnotation("max-length lead 120")).toEqual({
+        kind: "max-length",
+        max: 120,
+        section: "lead",
+      });
+      expect(ChecklistLoader.parseAnnotation("max-length 500")).toEqual({
+        kind: "max-length",
+        max: 500,
+      });
+      expect(ChecklistLoader.parseAnnotation("count /#\\S+/ >= 2")).toEqual({
+        kind: "count",
+        pattern: "#\\S+",
+        flags: "",
+        operator: ">=",
+        value: 2,
+      });
+      expect(ChecklistLoader.parseAnnotation("judge 사실이 정확한가?")).toEqual(
+        {
+          kind: "judge",
+          question: "사실이 정확한가?",
+        }
+      );
+    });
+
+    it.each([
+      "length 200",
+      "regex 획기적",
+      "regex /(/",
+      "max-length 많이",
+      "count /#/ < 3",
+      "count !/#/ <= 3",
+      "judge",
+    ])("should reject '%s'", (annotation) => {
+      expect(() => ChecklistLoader.parseAnnotation(annotation)).toThrow(
+        ChecklistAnnotationError
+      );
+    });
+  });
+
+  it("should strip annotations from item text", async () => {
+    const checklist = await ChecklistLoader.loadChecklist(
+      "sns",
+      "intermediate"
+    );
+    const hashtags = checklist.find((item) => item.items.includes(HASHTAGS));
+
+    expect(hashtags?.annotations[HASHTAGS]).toEqual({
+      kind: "count",
+      pattern: "#[^\\s#]+",
+      flags: "",
+      operator: "<=",
+      value: 5,
+    });
+    expect(
+      checklist
+        .flatMap((category) => category.items)
+        .filter((item) => item.includes("<!--"))
+    ).toEqual([]);
+  });
+
+  it("should find annotations that fail to parse", () => {
+    const errors = ChecklistLoader.findAnnotationErrors(
+      [
+        "- [ ] 확인 <!-- check: section quote -->",
+        "- [ ] 길이 <!-- check: length 200 -->",
+      ].join("\n")
+    );
+
+    expect(errors.map((error) => error.annotation)).toEqual(["length 200"]);
+  });
+
+  describe("validateAgainstChecklist", () => {
+    it("should run annotated checks instead of guessing", async () => {
+      const few = await ChecklistLoader.validateAgainstChecklist(
+        post(["#청년", "#주거"]),
+        "sns",
+        "intermediate"
+      );
+      const many = await ChecklistLoader.validateAgainstChecklist(
+        post(["#청년", "#주거", "#지원", "#정책", "#국회", "#의견"]),
+        "sns",
+        "intermediate"
+      );
+
+      expect(few.passed).toContain(HASHTAGS);
+      expect(many.failed).toContain(HASHTAGS);
+    });
+
+    it("should measure max-length within the named section", async () => {
+      const short = await ChecklistLoader.validateAgainstChecklist(
+        post(["#청년"]),
+        "sns",
+        "intermediate"
+      );
+      const long = await ChecklistLoader.validateAgainstChecklist(
+        post(["#청년"], "가".repeat(201)),
+        "sns",
+        "intermediate"
+      );
+
+      expect(short.passed).toContain(MAIN_LENGTH);
+      expect(long.failed).toContain(MAIN_LENGTH);
+    });
+
+    it("should skip judge checks without a judge and score the rest", async () => {
+      const result = await ChecklistLoader.validateAgainstChecklist(
+        post(["#청년"]),
+        "sns",
+        "intermediate"
+      );
+
+      expect(result.skipped).toEqual([ACCURACY]);
+      expect(result.total).toBe(
+        result.passed.length + result.failed.length + 1
+      );
+      expect(result.score).toBe(
+        Math.round(
+          (result.passed.length /
+            (result.passed.length + result.failed.length)) *
+            100
+        )
+      );
+    });
+
+    it("should locate sections with the requested rulepack version", async () => {
+      const headline = "제목이 있는가?";
+      jest.spyOn(ChecklistLoader, "loadChecklist").mockResolvedValue([
+        {
+          category: "필수 구성",
+          items: [headline],
+          annotations: { [headline]: { kind: "section", section: "headline" } },
+        },
+      ]);
+      const loadFormatPack = jest.spyOn(RulepackLoader, "loadFormatPack");
+
+      const result = await ChecklistLoader.validateAgainstChecklist(
+        "## 제목\n청년 주거 지원 확대\n",
+        "press_release",
+        "basic",
+        "v2"
+      );
+
+      expect(loadFormatPack).toHaveBeenCalledWith("press_release", "v2");
+      expect(result.passed).toEqual([headline]);
+    });
+
+    it("should ask the judge each judge check's question", async () => {
+      const questions: string[] = [];
+
+      const result = await ChecklistLoader.validateAgainstChecklist(
+        post(["#청년"]),
+        "sns",
+        "intermediate",
+        "v1",
+        async (question) => {
+          questions.push(question);
+          return false;
+        }
+      );
+
+      expect(questions).toEqual([
+        "게시글의 모든 정보가 정확하고 검증 가능한가?",
+      ]);
+      expect(result.skipped).toEqual([]);
+      expect(result.failed).toContain(ACCURACY);
+    });
+  });
+});
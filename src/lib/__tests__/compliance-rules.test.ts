@@ -0,0 +1,196 @@
+import { describe, it, expect } from "@jest/globals";
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import yaml from "js-yaml";
+import {
+  ComplianceRuleRegistry,
+  type ComplianceContext,
+} from "../compliance-rules";
+import { MarkdownSectionParser } from "../markdown-sections";
+import { type Section } from "@/types/rulepack";
+
+// A passing and a failing text for every rule the shipped packs reference
+const SAMPLES: Record<string, { pass: string; fail: string }> = {
+  facts_required: {
+    pass: "2024년 신청자는 120명입니다",
+    fail: "신청자가 늘었습니다",
+  },
+  source_required: { pass: "출처: 국토교통부", fail: "신청자가 늘었습니다" },
+  objective_tone: {
+    pass: "신청자가 늘었습니다",
+    fail: "개인적으로는 좋은 정책이라고 봅니다",
+  },
+  no_exaggeration: { pass: "신청자가 늘었습니다", fail: "획기적인 정책입니다" },
+  evidence_based: {
+    pass: "분석 결과 신청자가 늘었습니다",
+    fail: "신청자가 늘었습니다",
+  },
+  accuracy_required: { pass: "정확한 내용", fail: "틀린 내용" },
+  official_tone: { pass: "신청자가 늘었습니다", fail: "진짜 좋은 정책입니다" },
+  character_limit: {
+    pass: "본문은 200자 이내로 작성합니다",
+    fail: "본문을 작성합니다",
+  },
+  platform_optimized: { pass: "인스타그램에 게시합니다", fail: "게시합니다" },
+  engaging_content: { pass: "함께해 주세요", fail: "공지합니다" },
+  accurate_information: {
+    pass: "국토교통부가 발표했습니다",
+    fail: "소문에 따르면 발표가 있습니다",
+  },
+  appropriate_hashtags: { pass: "#청년 #주거", fail: "#청년 #청년" },
+  audience_appropriate: { pass: "청년 여러분께 알립니다", fail: "알립니다" },
+  clear_message: { pass: "핵심 메시지: 지원 확대", fail: "지원이 있습니다" },
+  logical_flow: {
+    pass: "도입\n메인 콘텐츠\n마무리",
+    fail: "마무리\n메인 콘텐츠\n도입",
+  },
+  respectful_tone: { pass: "의견이 다릅니다", fail: "한심한 주장입니다" },
+  complete_information: {
+    pass: "10월 1일 국토교통부가 발표했습니다",
+    fail: "발표가 있었습니다",
+  },
+  clear_structure: { pass: "## 요약\n- 첫째\n- 둘째", fail: "한 문단입니다" },
+  contact_included: { pass: "담당: 02-1234-5678", fail: "보도자료입니다" },
+  formal_tone: { pass: "자료를 요청합니다", fail: "자료 보내주세요 감사해요" },
+  legal_basis_required: {
+    pass: "국회법 제128조에 따라 요청합니다",
+    fail: "자료를 요청합니다",
+  },
+  data_specification_required: {
+    pass: "최근 3년 기간, 엑셀 형식으로",
+    fail: "자료를 요청합니다",
+  },
+  systematic_approach: { pass: "수집 기준과 절차", fail: "기사를 모읍니다" },
+  no_bias: { pass: "여야 의견을 함께 싣습니다", fail: "편파 보도를 모읍니다" },
+  text_output_only: {
+    pass: "- 기사 제목",
+    fail: '```json\n{"title": "기사"}\n```',
+  },
+};
+
+const SECTIONS: Record<string, Section> = Object.fromEntries(
+  Object.entries({
+    intro: "도입",
+    main: "메인 콘텐츠",
+    outro: "마무리",
+    contact: "연락처",
+  }).map(([id, label]) => [id, { label, aliases: [], patterns: [], hints: {} }])
+);
+
+const context = (content: string): ComplianceContext => {
+  const spans = MarkdownSectionParser.locate(
+    MarkdownSectionParser.parse(content, {
+      labels: MarkdownSectionParser.sectionLabels(SECTIONS),
+    }),
+    Object.keys(SECTIONS),
+    SECTIONS
+  );
+
+  return {
+    content,
+    requiredSections: ["intro", "main", "outro"],
+    findSection: (section) => spans[section] ?? null,
+    // Accepts content that does not say it is wrong
+    judge: async (_criterion, text) => !text.includes("틀린"),
+  };
+};
+
+/**
+ * Every compliance rule referenced by the packs under rulepacks/
+ */
+async function referencedRules(): Promise<string[]> {
+  const rules = new Set<string>();
+  for (const dir of ["base", "format", "overlay"]) {
+    const root = join(process.cwd(), "rulepacks", dir);
+    for (const file of (await readdir(root)).filter((name) =>
+      name.endsWith(".yaml")
+    )) {
+      const pack = yaml.load(await readFile(join(root, file), "utf-8")) as {
+        complianceRules?: string[];
+      };
+      pack.complianceRules?.forEach((rule) => rules.add(rule));
+    }
+  }
+  return Array.from(rules).sort();
+}
+
+describe("ComplianceRuleRegistry", () => {
+  it("should register every rule referenced by the shipped rulepacks", async () => {
+    const rules = await referencedRules();
+
+    expect(rules.length).toBeGreaterThan(0);
+    expect(rules.filter((rule) => !ComplianceRuleRegistry.has(rule))).toEqual(
+      []
+    );
+    expect(rules.filter((rule) => !(rule in SAMPLES))).toEqual([]);
+  });
+
+  describe.each(Object.entries(SAMPLES))("%s", (id, { pass, fail }) => {
+    it("should accept the passing sample", async () => {
+      const result = await ComplianceRuleRegistry.check([id], context(pass));
+
+      expect(result.findings).toEqual([]);
+    });
+
+    it("should report the failing sample with the rule's severity", async () => {
+      const rule = ComplianceRuleRegistry.get(id);
+      const result = await ComplianceRuleRegistry.check([id], context(fail));
+
+      expect(rule?.description).toBeTruthy();
+      expect(result.findings.length).toBeGreaterThan(0);
+      for (const finding of result.findings) {
+        expect(finding).toMatchObject({
+          ruleId: id,
+          severity: rule?.severity,
+          suggestion: rule?.suggestion,
+        });
+      }
+    });
+  });
+
+  it("should report unknown rule ids as errors", async () => {
+    const result = await ComplianceRuleRegistry.check(
+      ["made_up_rule"],
+      context("내용")
+    );
+
+    expect(
+      result.findings.map((finding) => [finding.severity, finding.message])
+    ).toEqual([["error", "알 수 없는 준수 규칙입니다: made_up_rule"]]);
+  });
+
+  it("should skip LLM-judged rules without a judge", async () => {
+    const result = await ComplianceRuleRegistry.check(["accuracy_required"], {
+      content: "틀린 내용",
+      requiredSections: [],
+      findSection: () => null,
+    });
+
+    expect(result.findings).toEqual([]);
+    expect(result.skipped).toEqual(["accuracy_required"]);
+  });
+
+  it("should locate each forbidden expression", async () => {
+    const content = "획기적이고 혁신적인 정책";
+
+    const result = await ComplianceRuleRegistry.check(
+      ["no_exaggeration"],
+      context(content)
+    );
+
+    expect(
+      result.findings.map((finding) =>
+        content.slice(finding.start, finding.end)
+      )
+    ).toEqual(["획기적", "혁신적"]);
+  });
+
+  it("should describe unknown rules by their id", () => {
+    expect(ComplianceRuleRegistry.describe("no_bias")).toBe(
+      "편향 없는 키워드·매체 선정"
+    );
+    expect(ComplianceRuleRegistry.describe("made_up_rule")).toBe(
+      "made_up_rule"
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LLMClient, LLMError } from "../llm-client";
+import { FixtureProvider } from "../llm-providers/fixture";
+import { MockProvider } from "../llm-providers/mock";
+import { FormatRegistry } from "../format-registry";
+import PromptGenerator from "../prompt-generator";
+
+const baseRequest = {
+  systemPrompt: "system",
+  userPrompt: "user",
+  level: "intermediate" as const,
+  requestId: "test-request",
+};
+
+describe("FixtureProvider", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.LLM_FIXTURE_MODE;
+    delete process.env.LLM_FIXTURE_DIR;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe("replay", () => {
+    it("should replay the shipped default fixture for every format", async () => {
+      const client = new LLMClient(new FixtureProvider());
+
+      for (const format of await FormatRegistry.ids()) {
+        const response = await client.generateContent({
+          ...baseRequest,
+          format,
+          topic: "청년 주거 지원 확대",
+        });
+
+        expect(response.content.length).toBeGreaterThan(0);
+        expect(response.usage.totalTokens).toBeGreaterThan(0);
+      }
+    });
+
+    it("should produce prompts that pass validatePrompt", async () => {
+      const client = new LLMClient(new FixtureProvider());
+
+      for (const format of await FormatRegistry.ids()) {
+        const response = await client.generateContent({
+          ...baseRequest,
+          format,
+          topic: "디지털 격차 해소",
+        });
+        const result = await PromptGenerator.validatePrompt(
+          response.content,
+          format,
+          "intermediate"
+        );
+
+        expect(result.validation.errors).toEqual([]);
+        expect(result.validation.isValid).toBe(true);
+      }
+    });
+
+    it("should fail with FIXTURE_NOT_FOUND when nothing matches", async () => {
+      process.env.LLM_FIXTURE_DIR = await mkdtemp(join(tmpdir(), "fixtures-"));
+      const client = new LLMClient(new FixtureProvider());
+
+      await expect(
+        client.generateContent({ ...baseRequest, format: "sns", topic: "x" })
+      ).rejects.toMatchObject({ code: "FIXTURE_NOT_FOUND" });
+
+      await rm(process.env.LLM_FIXTURE_DIR, { recursive: true });
+    });
+  });
+
+  describe("record", () => {
+    it("should record upstream completions and replay them by topic hash", async () => {
+      const fixtureDir = await mkdtemp(join(tmpdir(), "fixtures-"));
+      process.env.LLM_FIXTURE_DIR = fixtureDir;
+      const request = {
+        ...baseRequest,
+        format: "report" as const,
+        topic: "  저출산   대응 예산 ",
+      };
+
+      process.env.LLM_FIXTURE_MODE = "record";
+      const recorder = new LLMClient(new FixtureProvider(new MockProvider()));
+      const recorded = await recorder.generateContent(request);
+
+      const files = await readdir(fixtureDir);
+      expect(files).toEqual([`${FixtureProvider.getFixtureKey(request)}.json`]);
+
+      process.env.LLM_FIXTURE_MODE = "replay";
+      const player = new LLMClient(new FixtureProvider());
+      const replayed = await player.generateContent({
+        ...request,
+        topic: "저출산 대응 예산",
+      });
+
+      expect(replayed.content).toBe(recorded.content);
+
+      await rm(fixtureDir, { recursive: true });
+    });
+
+    it("should require an upstream provider", () => {
+      process.env.LLM_FIXTURE_MODE = "record";
+      expect(() => new FixtureProvider()).toThrow(LLMError);
+    });
+  });
+});
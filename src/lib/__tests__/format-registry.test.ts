@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { FormatRegistry } from "../format-registry";
+import { RulepackLoader } from "../rulepack-loader";
+
+describe("FormatRegistry", () => {
+  beforeEach(() => {
+    RulepackLoader.clearCache();
+    FormatRegistry.clear();
+  });
+
+  it("should list formats discovered from rulepacks in display order", async () => {
+    expect(await FormatRegistry.ids()).toEqual([
+      "press_release",
+      "speech",
+      "sns",
+      "inquiry",
+      "report",
+      "media_scraping",
+    ]);
+  });
+
+  it("should expose display metadata and versions from the rulepack", async () => {
+    const pressRelease = await FormatRegistry.get("press_release");
+
+    expect(pressRelease).toMatchObject({
+      name: "보도자료",
+      icon: "📰",
+      versions: ["v1", "v2"],
+      defaultVersion: "v1",
+    });
+    expect(await FormatRegistry.getCompletionEstimate("sns", "basic")).toBe(50);
+  });
+
+  it("should give every format a label for each required section", async () => {
+    for (const format of await FormatRegistry.list()) {
+      const rulepack = await RulepackLoader.loadFormatPack(format.id);
+      for (const section of rulepack.requiredSections) {
+        expect(rulepack.sections[section]?.label).toBeTruthy();
+      }
+    }
+  });
+
+  it("should fall back for unknown formats", async () => {
+    expect(await FormatRegistry.has("newsletter")).toBe(false);
+    expect(await FormatRegistry.getDisplayName("newsletter")).toBe("newsletter");
+    expect(await FormatRegistry.getCompletionEstimate("newsletter", "basic")).toBeNull();
+  });
+});
@@ -0,0 +1,230 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { LLMClient, LLMError, resetLLMClient } from "../llm-client";
+import { LLMJudge, type JudgeRequest } from "../llm-judge";
+import { ContentValidator } from "../validation";
+
+const criteria: JudgeRequest["criteria"] = [
+  { id: "do_1", kind: "do", text: "간결한 문장" },
+  { id: "dont_1", kind: "dont", text: "과도한 해시태그" },
+];
+
+const request = (text: string): JudgeRequest => ({
+  subject: "content",
+  formatName: "SNS 게시물",
+  format: "sns",
+  level: "intermediate",
+  requestId: "judge-test",
+  text,
+  criteria,
+});
+
+describe("LLMJudge", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = "mock";
+    resetLLMClient();
+    LLMJudge.clearCache();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetLLMClient();
+    jest.restoreAllMocks();
+  });
+
+  it("should turn the rulepack's dos and donts and unchecked checklist items into criteria", async () => {
+    expect(
+      await LLMJudge.criteriaFor(
+        { dos: ["간결한 문장"], donts: ["과장", "비방"] },
+        "sns",
+        "basic"
+      )
+    ).toEqual([
+      { id: "do_1", kind: "do", text: "간결한 문장" },
+      { id: "dont_1", kind: "dont", text: "과장" },
+      { id: "dont_2", kind: "dont", text: "비방" },
+      // Annotated items are checked by the checklist itself
+      { id: "check_1", kind: "check", text: "맞춤법과 띄어쓰기가 정확한가?" },
+    ]);
+  });
+
+  it("should grade every criterion through the configured provider", async () => {
+    const text = "청년 주거 지원이 확대됩니다. 과도한 해시태그 #청년";
+
+    const usage: number[] = [];
+    const result = await LLMJudge.grade(request(text), undefined, {
+      onUsage: (response) => {
+        usage.push(response.usage.totalTokens);
+      },
+    });
+
+    expect(result.cached).toBe(false);
+    expect(usage).toEqual([expect.any(Number)]);
+    expect(usage[0]).toBeGreaterThan(0);
+    expect(
+      result.judgments.map((judgment) => [judgment.id, judgment.passed])
+    ).toEqual([
+      ["do_1", true],
+      ["dont_1", false],
+    ]);
+
+    const [finding] = LLMJudge.toFindings(result.judgments, criteria, text);
+    expect(finding).toMatchObject({ ruleId: "llm_judge", severity: "warning" });
+    expect(text.slice(finding?.start, finding?.end)).toBe("과도한 해시태그");
+    expect(LLMJudge.toChecks(result.judgments, criteria)).toEqual([
+      expect.objectContaining({
+        id: "do_1",
+        category: "LLM 판정",
+        passed: true,
+      }),
+      expect.objectContaining({
+        id: "dont_1",
+        name: "과도한 해시태그",
+        passed: false,
+        suggestion: "다음에 해당하는 내용을 빼세요: 과도한 해시태그",
+      }),
+    ]);
+  });
+
+  it("should reuse the verdict for the same text and criteria", async () => {
+    const generate = jest.spyOn(LLMClient.prototype, "generateContent");
+
+    const first = await LLMJudge.grade(request("같은 내용"));
+    const second = await LLMJudge.grade(request("같은 내용"));
+    await LLMJudge.grade(request("다른 내용"));
+
+    expect(second).toEqual({ judgments: first.judgments, cached: true });
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it("should grade as many criteria per call as the level's output holds", async () => {
+    const generate = jest.spyOn(LLMClient.prototype, "generateContent");
+    const many = Array.from({ length: 15 }, (_, i) => ({
+      id: `check_${i + 1}`,
+      kind: "check" as const,
+      text: `기준 ${i + 1}`,
+    }));
+
+    // Basic allows 300 output tokens, six judgments
+    const result = await LLMJudge.grade({
+      ...request("내용"),
+      level: "basic",
+      criteria: many,
+    });
+
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(result.judgments.map((judgment) => judgment.id)).toEqual(
+      many.map((criterion) => criterion.id)
+    );
+  });
+
+  it("should make no call that its beforeCall hook refuses", async () => {
+    const generate = jest.spyOn(LLMClient.prototype, "generateContent");
+    const many = Array.from({ length: 15 }, (_, i) => ({
+      id: `check_${i + 1}`,
+      kind: "check" as const,
+      text: `기준 ${i + 1}`,
+    }));
+    let calls = 0;
+
+    await expect(
+      LLMJudge.grade(
+        { ...request("내용"), level: "basic", criteria: many },
+        undefined,
+        {
+          beforeCall: (call) => {
+            expect(call.purpose).toBe("judge");
+            if (++calls > 1) {
+              throw new Error("budget exceeded");
+            }
+          },
+        }
+      )
+    ).rejects.toThrow("budget exceeded");
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  describe("parse", () => {
+    it("should accept JSON wrapped in code fences", () => {
+      const judgments = LLMJudge.parse(
+        '```json\n{"judgments": [{"id": "dont_1", "passed": true, "reason": "없음"}, {"id": "do_1", "passed": false, "reason": "문장이 깁니다"}]}\n```',
+        criteria
+      );
+
+      // In criteria order
+      expect(judgments.map((judgment) => judgment.id)).toEqual([
+        "do_1",
+        "dont_1",
+      ]);
+    });
+
+    it.each([
+      ["no JSON", "판정할 수 없습니다."],
+      [
+        "a missing criterion",
+        '{"judgments": [{"id": "do_1", "passed": true, "reason": "충족"}]}',
+      ],
+      [
+        "an unknown criterion",
+        '{"judgments": [{"id": "do_1", "passed": true, "reason": "충족"}, {"id": "dont_1", "passed": true, "reason": "없음"}, {"id": "do_9", "passed": true, "reason": "충족"}]}',
+      ],
+      [
+        "extra keys",
+        '{"judgments": [{"id": "do_1", "passed": true, "reason": "충족", "score": 5}, {"id": "dont_1", "passed": true, "reason": "없음"}]}',
+      ],
+      [
+        "a non-boolean verdict",
+        '{"judgments": [{"id": "do_1", "passed": "yes", "reason": "충족"}, {"id": "dont_1", "passed": true, "reason": "없음"}]}',
+      ],
+    ])("should reject a verdict with %s", (_case, content) => {
+      expect(() => LLMJudge.parse(content, criteria)).toThrow(LLMError);
+    });
+  });
+
+  it("should check LLM-judged compliance rules when validation has a judge", async () => {
+    const usage: number[] = [];
+    const judge = LLMJudge.complianceJudge(
+      {
+        subject: "content",
+        formatName: "보도자료",
+        format: "press_release",
+        level: "intermediate",
+        requestId: "judge-test",
+      },
+      {
+        onUsage: (response) => {
+          usage.push(response.usage.totalTokens);
+        },
+      }
+    );
+
+    const without = await ContentValidator.validateContent(
+      "청년 주거 지원이 확대됩니다.",
+      "press_release",
+      "intermediate"
+    );
+    const withJudge = await ContentValidator.validateContent(
+      "청년 주거 지원이 확대됩니다.",
+      "press_release",
+      "intermediate",
+      undefined,
+      judge
+    );
+
+    expect(without.checks.map((check) => check.id)).not.toContain(
+      "accuracy_required"
+    );
+    expect(withJudge.checks).toContainEqual(
+      expect.objectContaining({ id: "accuracy_required", passed: true })
+    );
+    expect(usage).toHaveLength(1);
+  });
+});
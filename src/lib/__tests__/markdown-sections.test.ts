@@ -0,0 +1,134 @@
+import { describe, it, expect } from "@jest/globals";
+import { MarkdownSectionParser } from "../markdown-sections";
+import { type Section } from "@/types/rulepack";
+
+const section = (label: string, extra: Partial<Section> = {}): Section => ({
+  label,
+  aliases: [],
+  patterns: [],
+  hints: {},
+  ...extra,
+});
+
+describe("MarkdownSectionParser", () => {
+  describe("parse", () => {
+    it("should build a heading tree from markdown, emoji and numbered headings", () => {
+      const content = [
+        "# 보고서",
+        "## 📋 요약",
+        "요약 내용",
+        "## 분석",
+        "1. 현황",
+        "현황 설명",
+        "2. 쟁점",
+        "- 첫째 쟁점입니다",
+        "📌 참고",
+        "출처: 통계청",
+      ].join("\n");
+
+      const document = MarkdownSectionParser.parse(content);
+
+      expect(
+        document.headings.map((heading) => [heading.kind, heading.title])
+      ).toEqual([
+        ["markdown", "보고서"],
+        ["markdown", "📋 요약"],
+        ["markdown", "분석"],
+        ["numbered", "현황"],
+        ["numbered", "쟁점"],
+        ["emoji", "참고"],
+        ["label", "출처"],
+      ]);
+      expect(document.tree.map((heading) => heading.title)).toEqual(["보고서"]);
+      expect(
+        document.tree[0]?.children.map((heading) => heading.title)
+      ).toEqual(["📋 요약", "분석"]);
+      // Numbered and emoji headings nest under the markdown heading they follow
+      expect(
+        document.tree[0]?.children[1]?.children.map((heading) => heading.title)
+      ).toEqual(["현황", "쟁점", "참고"]);
+    });
+
+    it("should not treat sentences, list items or fenced lines as headings", () => {
+      const content = [
+        "1. 지원 대상이 확대됩니다.",
+        "- 요약",
+        "```",
+        "# 주석",
+        "```",
+        "https://example.com",
+      ].join("\n");
+
+      expect(MarkdownSectionParser.parse(content).headings).toEqual([]);
+    });
+
+    it("should treat a bare label line as a heading only when asked to", () => {
+      expect(MarkdownSectionParser.parse("요약\n내용").headings).toEqual([]);
+      expect(
+        MarkdownSectionParser.parse("요약\n내용", { labels: ["요약"] }).headings
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("locate", () => {
+    const sections = {
+      summary: section("요약"),
+      analysis: section("분석", { aliases: ["검토"] }),
+      contact: section("연락처", { patterns: ["\\d{2,4}-\\d{3,4}-\\d{4}"] }),
+    };
+
+    it("should return each section's span and the text under its heading", () => {
+      const content = [
+        "## 요약",
+        "한 줄 요약",
+        "## 검토 의견",
+        "검토 내용",
+        "",
+        "문의 02-123-4567",
+      ].join("\n");
+
+      const spans = MarkdownSectionParser.locate(
+        MarkdownSectionParser.parse(content),
+        ["summary", "analysis", "contact"],
+        sections
+      );
+
+      expect(spans.summary?.text).toBe("한 줄 요약");
+      expect(content.slice(spans.summary?.start, spans.summary?.end)).toBe(
+        "## 요약\n한 줄 요약\n"
+      );
+      expect(spans.analysis?.line).toBe(2);
+      expect(spans.analysis?.text).toBe("검토 내용\n\n문의 02-123-4567");
+      // Located by its pattern, without a heading
+      expect(spans.contact).toMatchObject({
+        heading: null,
+        line: 5,
+        text: "문의 02-123-4567",
+      });
+    });
+
+    it("should not locate a section that is only mentioned in the body", () => {
+      const content = ["## 분석", "요약하면 다음과 같습니다"].join("\n");
+
+      const spans = MarkdownSectionParser.locate(
+        MarkdownSectionParser.parse(content),
+        ["summary"],
+        sections
+      );
+
+      expect(spans.summary).toBeUndefined();
+    });
+
+    it("should start a label line's text after its colon", () => {
+      const content = "요약: 지원 대상 확대\n대상은 청년입니다";
+
+      const spans = MarkdownSectionParser.locate(
+        MarkdownSectionParser.parse(content),
+        ["summary"],
+        sections
+      );
+
+      expect(spans.summary?.text).toBe("지원 대상 확대\n대상은 청년입니다");
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PricingCatalog } from "../pricing";
+
+describe("PricingCatalog", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    PricingCatalog.clear();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    PricingCatalog.clear();
+    jest.restoreAllMocks();
+  });
+
+  it("should price dated snapshots by their family's longest matching key", () => {
+    expect(PricingCatalog.get("gpt-4o-mini-2024-07-18")).toEqual(
+      PricingCatalog.get("gpt-4o-mini")
+    );
+    expect(PricingCatalog.get("gpt-4o-2024-08-06")?.input).toBe(2.5);
+    expect(PricingCatalog.get("gpt-5-mini")?.input).toBe(0.25);
+    expect(PricingCatalog.get("o3-mini-2025-01-31")?.input).toBe(1.1);
+    expect(PricingCatalog.get("o3-2025-04-16")?.input).toBe(2);
+    expect(PricingCatalog.get("no-such-model")).toBeNull();
+  });
+
+  it("should price cached input and reasoning tokens separately", () => {
+    const cost = PricingCatalog.costOf("gpt-5", {
+      promptTokens: 1_000_000,
+      completionTokens: 1_000_000,
+      totalTokens: 2_000_000,
+      cachedPromptTokens: 200_000,
+      reasoningTokens: 400_000,
+    });
+
+    expect(cost.priced).toBe(true);
+    expect(cost.input).toBeCloseTo(0.8 * 1.25);
+    expect(cost.cachedInput).toBeCloseTo(0.2 * 0.125);
+    // Reasoning defaults to the output price
+    expect(cost.output).toBeCloseTo(0.6 * 10);
+    expect(cost.reasoning).toBeCloseTo(0.4 * 10);
+    expect(cost.total).toBeCloseTo(1 + 0.025 + 6 + 4);
+  });
+
+  it("should price offline providers at zero whatever model they report", () => {
+    const usage = {
+      promptTokens: 1000,
+      completionTokens: 500,
+      totalTokens: 1500,
+    };
+
+    for (const provider of ["fixture", "mock"] as const) {
+      const cost = PricingCatalog.costOf("gpt-4o-mini", usage, provider);
+      expect(cost).toMatchObject({
+        model: "gpt-4o-mini",
+        priced: true,
+        total: 0,
+      });
+    }
+    expect(
+      PricingCatalog.costOf("gpt-4o-mini", usage, "openai").total
+    ).toBeGreaterThan(0);
+  });
+
+  it("should sum a request's costs and name models it has no price for", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const usage = {
+      promptTokens: 1000,
+      completionTokens: 500,
+      totalTokens: 1500,
+    };
+
+    const summary = PricingCatalog.summarize([
+      PricingCatalog.costOf("gpt-4o-mini", usage),
+      PricingCatalog.costOf("gpt-4o-mini", usage),
+      PricingCatalog.costOf("my-finetune", usage),
+    ]);
+
+    expect(summary).toEqual({
+      currency: "USD",
+      total: expect.closeTo(2 * (0.00015 + 0.0003), 10),
+      input: expect.closeTo(0.0003, 10),
+      cachedInput: 0,
+      output: expect.closeTo(0.0006, 10),
+      reasoning: 0,
+      models: ["gpt-4o-mini", "my-finetune"],
+      unpricedModels: ["my-finetune"],
+    });
+  });
+
+  it("should read the catalog from LLM_PRICING_PATH", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "pricing-"));
+    try {
+      process.env.LLM_PRICING_PATH = join(dir, "models.yaml");
+      await writeFile(
+        process.env.LLM_PRICING_PATH,
+        "currency: USD\nmodels:\n  local-model:\n    input: 1\n    output: 2\n    reasoning: 4\n"
+      );
+
+      expect(
+        PricingCatalog.costOf("local-model", {
+          promptTokens: 1_000_000,
+          completionTokens: 1_000_000,
+          totalTokens: 2_000_000,
+          reasoningTokens: 1_000_000,
+        }).total
+      ).toBeCloseTo(5);
+      expect(PricingCatalog.get("gpt-4o-mini")).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
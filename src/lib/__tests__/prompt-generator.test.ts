@@ -0,0 +1,54 @@
+import { describe, it, expect } from "@jest/globals";
+import PromptGenerator from "../prompt-generator";
+import { getLevelGuide, getRulepack } from "../rulepack-loader";
+
+describe("PromptGenerator", () => {
+  it("should render section hints next to each section", async () => {
+    const rulepack = await getRulepack("sns");
+    const levelGuide = await getLevelGuide("advanced");
+    if (!rulepack || !levelGuide) throw new Error("sns rulepack or advanced level guide missing");
+
+    const prompt = PromptGenerator.generateCompletedPrompt({
+      rulepack,
+      format: "sns",
+      levelGuide,
+      topic: "청년 주거 지원",
+    });
+
+    expect(prompt).toContain(
+      "• 훅 — 핵심: 관심을 끄는 첫 문장 / 형식: 질문, 놀라운 사실, 또는 강력한 메시지 / 1줄 이내"
+    );
+    expect(prompt).toContain("• 해시태그 — 형식: # 형태로 작성 / 5개 이하 / 필수 요건: 관련성, 검색 가능성");
+    // Extra sections of the level are listed with their own label
+    expect(prompt).toContain("• 리스크 검토");
+  });
+
+  it("should render hint notes on their own lines", async () => {
+    const rulepack = await getRulepack("media_scraping");
+    const levelGuide = await getLevelGuide("basic");
+    if (!rulepack || !levelGuide) throw new Error("media_scraping rulepack or basic level guide missing");
+
+    const prompt = PromptGenerator.generateSystemPrompt({
+      rulepack,
+      format: "media_scraping",
+      level: "basic",
+      levelGuide,
+      tone: "neutral_v1",
+      mode: "list_only",
+    });
+
+    expect(prompt).toContain("• 기사 목록 명세 — 기사 원제목을 링크 텍스트로 한 마크다운 링크 목록");
+    expect(prompt).toContain("  - 각 항목 끝에 마침표를 붙이지 않고, 열리지 않는 링크는 제외하거나 대체 링크로 교체");
+  });
+
+  it("should locate meta-instructions in validatePrompt findings", async () => {
+    const prompt = "당신은 보도자료 전문가입니다.\n보도자료를 생성해주세요. 결과만 출력하십시오.";
+
+    const result = await PromptGenerator.validatePrompt(prompt, "press_release", "basic");
+    const meta = result.validation.findings.filter((finding) => finding.ruleId === "no_meta_instructions");
+
+    expect(meta.map((finding) => prompt.slice(finding.start, finding.end))).toEqual(["출력하십시오", "생성해주세요"]);
+    expect(meta.every((finding) => finding.severity === "error" && finding.suggestion)).toBe(true);
+    expect(result.validation.errors).toEqual(["메타 지시문 발견: 출력하십시오", "메타 지시문 발견: 생성해주세요"]);
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LLMClient, resetLLMClient, type LLMResponse } from "../llm-client";
+import {
+  completePromptGeneration,
+  preparePromptGeneration,
+  PromptPipelineError,
+  type PreparedPrompt,
+  type PromptRequestContext,
+} from "../prompt-pipeline";
+import { getLevelGuide, getRulepack, getTonePack } from "../rulepack-loader";
+import { resetTokenGuard } from "../token-guard";
+
+const context: PromptRequestContext = {
+  requestId: "pipeline-test",
+  startTime: Date.now(),
+  timestamp: new Date().toISOString(),
+  ip: "127.0.0.1",
+  userAgent: "jest",
+  sessionId: null,
+};
+
+// Lacks the format name, so the '형식 명시' check fails
+const draft: LLMResponse = {
+  content: "당신은 정책 전문가입니다.\n📌 주제: 청년 주거 지원\n위 내용을 작성해주세요.",
+  usage: { promptTokens: 100, completionTokens: 40, totalTokens: 140 },
+  model: "mock-1",
+  finishReason: "stop",
+  responseTime: 1,
+};
+
+async function prepare(autoRewrite: boolean, judge = false): Promise<PreparedPrompt> {
+  const rulepack = await getRulepack("press_release");
+  const levelGuide = await getLevelGuide("intermediate");
+  const tonePack = await getTonePack("public_official_v1");
+  if (!rulepack || !levelGuide || !tonePack) throw new Error("press_release rulepack, level guide or tone pack missing");
+
+  return {
+    userInput: {
+      topic: "청년 주거 지원",
+      format: "press_release",
+      level: "intermediate",
+      tone: "public_official_v1",
+      options: { includeWarnings: true, strictMode: false, autoRewrite, judge },
+    },
+    rulepack,
+    rulepackVersion: "v1",
+    levelGuide,
+    tonePack,
+    systemPrompt: "• 보도자료 구성 및 작성 지침을 따르세요",
+    userPrompt: "📌 주제: 청년 주거 지원",
+    llmRequest: {
+      systemPrompt: "• 보도자료 구성 및 작성 지침을 따르세요",
+      userPrompt: "📌 주제: 청년 주거 지원",
+      format: "press_release",
+      level: "intermediate",
+      requestId: context.requestId,
+      topic: "청년 주거 지원",
+    },
+  };
+}
+
+describe("completePromptGeneration", () => {
+  const originalEnv = { ...process.env };
+  const ledgerPath = join(tmpdir(), `pipeline-test-ledger-${process.pid}.jsonl`);
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = "mock";
+    process.env.TOKEN_LEDGER_PATH = ledgerPath;
+    resetLLMClient();
+    resetTokenGuard();
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+    resetLLMClient();
+    resetTokenGuard();
+    await rm(ledgerPath, { force: true });
+  });
+
+  it("does not rewrite unless autoRewrite is enabled", async () => {
+    const response = await completePromptGeneration(await prepare(false), draft, context);
+
+    expect(response.data.prompt).toBe(draft.content);
+    expect(response.data.metadata.rewrite).toBeUndefined();
+  });
+
+  it("reports the cost of the draft priced by the model that answered it", async () => {
+    const answered = {
+      ...draft,
+      usage: { ...draft.usage, cachedPromptTokens: 40 },
+      model: "gpt-4o-mini-2024-07-18",
+    };
+    const { metadata } = (await completePromptGeneration(await prepare(false), answered, context)).data;
+
+    expect(metadata.cost).toMatchObject({ currency: "USD", models: ["gpt-4o-mini-2024-07-18"] });
+    expect(metadata.cost?.total).toBeCloseTo((60 * 0.15 + 40 * 0.075 + 40 * 0.6) / 1_000_000, 12);
+  });
+
+  it("reports passed and failed checks by category with suggestions and scoring", async () => {
+    const { validation } = (await completePromptGeneration(await prepare(false), draft, context)).data;
+    const items = validation.checklist.flatMap((group) => group.items.map((item) => ({ ...item, category: group.category })));
+    const formatCheck = items.find((item) => item.description === "형식 명시");
+
+    expect(validation.checklist.map((group) => group.category)).toEqual(["역할", "지시", "내용", "구조"]);
+    expect(items.some((item) => item.passed)).toBe(true);
+    expect(formatCheck).toMatchObject({ category: "구조", passed: false, severity: "warning" });
+    expect(validation.suggestions).toContain(formatCheck?.suggestion);
+    expect(validation.scoring).toMatchObject({
+      score: validation.score,
+      passed: validation.passed,
+      passedChecks: items.filter((item) => item.passed).length,
+      totalChecks: items.length,
+      passScore: 80,
+    });
+    expect(validation.scoring?.categories.map((category) => category.category)).toEqual(["역할", "지시", "내용", "구조"]);
+  });
+
+  it("rewrites once on failed checks and records before/after scores", async () => {
+    const scores: number[] = [];
+    const response = await completePromptGeneration(await prepare(true), draft, context, {
+      onRewrite: (scoreBefore) => scores.push(scoreBefore),
+    });
+    const rewrite = response.data.metadata.rewrite;
+
+    expect(rewrite?.count).toBe(1);
+    expect(scores).toEqual([rewrite?.scoreBefore]);
+    expect(rewrite?.scoreAfter).toBeDefined();
+
+    // The higher-scoring version is kept
+    if (rewrite?.kept === "rewritten") {
+      expect(rewrite.scoreAfter).toBeGreaterThan(rewrite.scoreBefore);
+      expect(response.data.prompt).not.toBe(draft.content);
+    } else {
+      expect(rewrite?.scoreAfter).toBeLessThanOrEqual(rewrite?.scoreBefore ?? 0);
+      expect(response.data.prompt).toBe(draft.content);
+    }
+    expect(response.data.validation.score).toBe(Math.max(rewrite?.scoreBefore ?? 0, rewrite?.scoreAfter ?? 0));
+  });
+
+  it("judges the final prompt and scores the verdict with the rule-based checks", async () => {
+    const judged = { ...draft, content: `${draft.content}\n과장된 표현이나 미사여구를 넣으세요.` };
+    const response = await completePromptGeneration(await prepare(false, true), judged, context);
+    const { validation, metadata } = response.data;
+    const judgeGroup = validation.checklist.find((group) => group.category === "LLM 판정");
+
+    expect(metadata.judge).toMatchObject({ criteria: judgeGroup?.items.length, failed: 1 });
+    expect(judgeGroup?.items.filter((item) => !item.passed).map((item) => item.description)).toEqual(["과장된 표현이나 미사여구"]);
+    expect(validation.findings).toContainEqual(expect.objectContaining({ ruleId: "llm_judge", severity: "warning" }));
+    expect(validation.scoring?.categories.map((category) => category.category)).toContain("LLM 판정");
+  });
+
+  it("skips a rewrite or judge call that would exceed this month's budget", async () => {
+    // The draft's 140 tokens fit; no further call does
+    process.env.TOKEN_BUDGET_MONTHLY = "200";
+    resetTokenGuard();
+    const generate = jest.spyOn(LLMClient.prototype, "generateContent");
+    const prepared = await prepare(true, true);
+
+    const { prompt, metadata } = (await completePromptGeneration(prepared, draft, context)).data;
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(prompt).toBe(draft.content);
+    expect(metadata.rewrite).toMatchObject({ count: 0, kept: "original" });
+    expect(metadata.judge).toBeUndefined();
+  });
+});
+
+describe("preparePromptGeneration", () => {
+  const originalEnv = { ...process.env };
+  const ledgerPath = join(tmpdir(), `pipeline-test-ledger-prepare-${process.pid}.jsonl`);
+  const userInput = {
+    topic: "청년 주거 지원",
+    format: "press_release" as const,
+    level: "intermediate" as const,
+    options: { includeWarnings: true, strictMode: false, autoRewrite: false, judge: false },
+  };
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = "mock";
+    process.env.TOKEN_LEDGER_PATH = ledgerPath;
+    resetLLMClient();
+    resetTokenGuard();
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+    resetLLMClient();
+    resetTokenGuard();
+    await rm(ledgerPath, { force: true });
+  });
+
+  it("normalizes the topic once the request is within its limits", async () => {
+    const prepared = await preparePromptGeneration(userInput, context);
+
+    expect(prepared.normalizedTopic).toBeDefined();
+    expect(prepared.tokenBudget?.user.used).toBeGreaterThan(0);
+  });
+
+  it("rejects a rulepack version the format does not have", async () => {
+    const error = await preparePromptGeneration({ ...userInput, rulepackVersion: "v9" }, context).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({
+      code: "RULEPACK_NOT_FOUND",
+      status: 400,
+      details: { availableVersions: ["v1", "v2"] },
+    });
+  });
+
+  it("rejects an over-budget request before any LLM call", async () => {
+    process.env.TOKEN_BUDGET_USER_MONTHLY = "1";
+    resetTokenGuard();
+    const generate = jest.spyOn(LLMClient.prototype, "generateContent");
+
+    const error = await preparePromptGeneration(userInput, { ...context, sessionId: "session-1" }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PromptPipelineError);
+    expect(error).toMatchObject({ code: "TOKEN_BUDGET_EXCEEDED", status: 429 });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it("rejects an over-limit request before any LLM call", async () => {
+    const generate = jest.spyOn(LLMClient.prototype, "generateContent");
+
+    const error = await preparePromptGeneration({ ...userInput, context: "청년 주거 지원 정책 ".repeat(400) }, context).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toMatchObject({ code: "TOKEN_LIMIT_EXCEEDED", status: 400 });
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
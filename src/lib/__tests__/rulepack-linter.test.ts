@@ -0,0 +1,209 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { appendFile, cp, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RulepackLinter, type LintCode } from "../rulepack-linter";
+import { RulepackLoader } from "../rulepack-loader";
+
+describe("RulepackLinter", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    RulepackLoader.clearCache();
+  });
+
+  it("should find no errors in the shipped rulepacks and checklists", async () => {
+    const report = await RulepackLinter.lint();
+
+    expect(report.issues.filter((issue) => issue.severity === "error")).toEqual(
+      []
+    );
+    expect(report.errorCount).toBe(0);
+    expect(report.filesChecked).toBeGreaterThan(0);
+  });
+
+  describe("with edited packs", () => {
+    let root: string;
+
+    const codes = async (): Promise<LintCode[]> =>
+      (await RulepackLinter.lint()).issues.map((issue) => issue.code);
+
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), "rulepacks-"));
+      await cp(join(process.cwd(), "rulepacks"), join(root, "rulepacks"), {
+        recursive: true,
+      });
+      await cp(join(process.cwd(), "checklists"), join(root, "checklists"), {
+        recursive: true,
+      });
+      jest.spyOn(process, "cwd").mockReturnValue(root);
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true });
+    });
+
+    it("should report required sections without a definition", async () => {
+      await appendFile(
+        join(root, "rulepacks/format/sns_v1.yaml"),
+        "modes:\n  short:\n    description: 짧게\n    requiredSections: [hook, teaser]\n"
+      );
+
+      const report = await RulepackLinter.lint();
+      const teaser = report.issues.filter((issue) =>
+        issue.message.includes("'teaser'")
+      );
+
+      expect(teaser.map((issue) => issue.code)).toEqual(["unknown_section"]);
+      expect(teaser[0]?.file).toBe("rulepacks/format/sns_v1.yaml");
+    });
+
+    it("should report compliance rules missing from the registry", async () => {
+      await appendFile(
+        join(root, "rulepacks/base/public_comm_v1.yaml"),
+        "  - made_up_rule\n"
+      );
+
+      const report = await RulepackLinter.lint();
+      const unknown = report.issues.filter(
+        (issue) => issue.code === "unknown_compliance_rule"
+      );
+
+      // Reported for every format pack that inherits the rule
+      expect(unknown.map((issue) => issue.file).sort()).toEqual([
+        "rulepacks/format/inquiry_v1.yaml",
+        "rulepacks/format/report_v1.yaml",
+      ]);
+    });
+
+    it("should report duplicate, inherited and conflicting dos/donts", async () => {
+      await writeFile(
+        join(root, "rulepacks/format/press_release_v3.yaml"),
+        [
+          "id: press_release_v3",
+          "type: formatPack",
+          "extends: format/press_release_v2",
+          "dos:",
+          '  - "핵심 수치는 목록으로 정리한다."',
+          '  - "보도 시점을 명시한다."',
+          '  - "보도 시점을 명시한다."',
+          "donts:",
+          '  - "보도 시점을 명시한다."',
+        ].join("\n")
+      );
+
+      const found = await codes();
+
+      expect(found).toContain("redundant_inherited_entry");
+      expect(found).toContain("duplicate_entry");
+      expect(found).toContain("conflicting_rule");
+    });
+
+    it("should report missing and misnamed checklists", async () => {
+      await rm(join(root, "checklists/sns_intermediate_v1.md"));
+      await writeFile(
+        join(root, "checklists/sns_expert_v1.md"),
+        "## 항목\n- [ ] 확인\n"
+      );
+
+      const report = await RulepackLinter.lint();
+
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          code: "missing_checklist",
+          file: "checklists/sns_intermediate_v1.md",
+        })
+      );
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          code: "invalid_file_name",
+          file: "checklists/sns_expert_v1.md",
+        })
+      );
+    });
+
+    it("should report checklist checks that fail to parse or name unknown sections", async () => {
+      await appendFile(
+        join(root, "checklists/sns_intermediate_v1.md"),
+        [
+          "",
+          "### 추가 항목",
+          "- [ ] 길이 <!-- check: max-length 많이 -->",
+          "- [ ] 티저 <!-- check: section teaser -->",
+          "",
+        ].join("\n")
+      );
+
+      const report = await RulepackLinter.lint();
+      const checklist = report.issues.filter(
+        (issue) => issue.file === "checklists/sns_intermediate_v1.md"
+      );
+
+      expect(checklist.map((issue) => issue.code)).toEqual([
+        "invalid_annotation",
+        "unknown_section",
+      ]);
+      expect(checklist[1]?.message).toContain("'teaser'");
+    });
+
+    it("should report overlays that target unknown formats", async () => {
+      await writeFile(
+        join(root, "rulepacks/overlay/other_office_v1.yaml"),
+        "id: other_office_v1\ntype: overlayPack\nname: 다른 의원실\nappliesTo: [newsletter]\n"
+      );
+
+      const report = await RulepackLinter.lint();
+
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          severity: "error",
+          code: "unknown_format",
+          file: "rulepacks/overlay/other_office_v1.yaml",
+        })
+      );
+    });
+
+    it("should reject structure hints outside the hint schema", async () => {
+      await appendFile(
+        join(root, "rulepacks/format/sns_v1.yaml"),
+        "modes:\n  short:\n    description: 짧게\n    requiredSections: [hook]\n"
+      );
+      await writeFile(
+        join(root, "rulepacks/format/sns_v2.yaml"),
+        "id: sns_v2\ntype: formatPack\nextends: format/sns_v1\nsections:\n  hook:\n    hints:\n      maxWords: 10\n"
+      );
+
+      const report = await RulepackLinter.lint();
+
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          code: "parse_error",
+          file: "rulepacks/format/sns_v2.yaml",
+        })
+      );
+    });
+
+    it("should report packs that fail to load", async () => {
+      await writeFile(
+        join(root, "rulepacks/format/report_v1.yaml"),
+        "id: report_v1\ntype: formatPack\n"
+      );
+
+      const report = await RulepackLinter.lint();
+
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          code: "parse_error",
+          file: "rulepacks/format/report_v1.yaml",
+        })
+      );
+      expect(report.errorCount).toBeGreaterThan(0);
+    });
+  });
+});
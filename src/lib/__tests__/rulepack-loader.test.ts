@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
-import { RulepackLoader, getRulepack } from "../rulepack-loader";
-import { FormatEnum } from "@/types/rulepack";
+import { RulepackLoader, RulepackVersionError, getLevelGuide, getOverlayPack, getRulepack, getTonePack } from "../rulepack-loader";
+
+// Formats shipped in rulepacks/format, sorted by id
+const SHIPPED_FORMATS = ["inquiry", "media_scraping", "press_release", "report", "sns", "speech"];
 
 describe("RulepackLoader", () => {
   beforeEach(() => {
@@ -45,7 +47,6 @@ describe("RulepackLoader", () => {
 
     it("should throw error for non-existent rulepack", async () => {
       await expect(
-        // @ts-expect-error Testing invalid format
         RulepackLoader.loadFormatPack("nonexistent")
       ).rejects.toThrow();
     });
@@ -55,10 +56,10 @@ describe("RulepackLoader", () => {
     it("should load all format rulepacks", async () => {
       const rulepacks = await RulepackLoader.loadAllFormatPacks();
 
-      expect(rulepacks.size).toBe(FormatEnum.options.length);
+      expect(rulepacks.size).toBe(SHIPPED_FORMATS.length);
 
       // Check that all formats are loaded
-      for (const format of FormatEnum.options) {
+      for (const format of SHIPPED_FORMATS) {
         expect(rulepacks.has(format)).toBe(true);
         const rulepack = rulepacks.get(format);
         expect(rulepack).toBeDefined();
@@ -68,15 +69,15 @@ describe("RulepackLoader", () => {
   });
 
   describe("utility functions", () => {
-    it("should check if format is supported", () => {
-      expect(RulepackLoader.isFormatSupported("press_release")).toBe(true);
-      expect(RulepackLoader.isFormatSupported("speech")).toBe(true);
-      expect(RulepackLoader.isFormatSupported("invalid_format")).toBe(false);
+    it("should check if format is supported", async () => {
+      expect(await RulepackLoader.isFormatSupported("press_release")).toBe(true);
+      expect(await RulepackLoader.isFormatSupported("speech")).toBe(true);
+      expect(await RulepackLoader.isFormatSupported("invalid_format")).toBe(false);
     });
 
-    it("should get available formats", () => {
-      const formats = RulepackLoader.getAvailableFormats();
-      expect(formats).toEqual(FormatEnum.options);
+    it("should discover available formats from rulepack files", async () => {
+      const formats = await RulepackLoader.getAvailableFormats();
+      expect(formats).toEqual(SHIPPED_FORMATS);
     });
   });
 
@@ -88,12 +89,124 @@ describe("RulepackLoader", () => {
     });
 
     it("should return null for invalid format", async () => {
-      // @ts-expect-error Testing invalid format
       const rulepack = await getRulepack("invalid");
       expect(rulepack).toBeNull();
     });
   });
 
+  describe("tone packs", () => {
+    it("should load the default tone pack of every format", async () => {
+      const rulepacks = await RulepackLoader.loadAllFormatPacks();
+
+      for (const rulepack of rulepacks.values()) {
+        const tonePack = await RulepackLoader.loadTonePack(rulepack.toneDefault);
+        expect(tonePack.type).toBe("tonePack");
+        expect(tonePack.id).toBe(rulepack.toneDefault);
+      }
+    });
+
+    it("should list all tone packs sorted by id", async () => {
+      const tonePacks = await RulepackLoader.loadAllTonePacks();
+      const ids = tonePacks.map((tonePack) => tonePack.id);
+
+      expect(ids).toEqual(["friendly_v1", "neutral_v1", "public_official_v1"]);
+      expect(tonePacks.every((tonePack) => tonePack.name.length > 0)).toBe(true);
+    });
+
+    it("should reject unknown or unsafe tone ids", async () => {
+      expect(await getTonePack("casual_v9")).toBeNull();
+      await expect(RulepackLoader.loadTonePack("../format/sns_v1")).rejects.toThrow(/Invalid tone pack id/);
+    });
+  });
+
+  describe("inheritance and overlays", () => {
+    it("should merge base pack lists ahead of the format pack's own", async () => {
+      const inquiry = await RulepackLoader.loadFormatPack("inquiry");
+
+      expect(inquiry.type).toBe("formatPack");
+      expect(inquiry.id).toBe("inquiry_v1");
+      expect(inquiry.complianceRules.slice(0, 3)).toEqual(["facts_required", "source_required", "formal_tone"]);
+      expect(inquiry.donts).toContain("근거 없는 주장");
+      expect(new Set(inquiry.donts).size).toBe(inquiry.donts.length);
+    });
+
+    it("should apply an overlay's donts and contact block", async () => {
+      const base = await RulepackLoader.loadFormatPack("press_release");
+      const resolved = await RulepackLoader.resolveRulepack("press_release", "v1", "sample_office_v1");
+
+      expect(resolved.donts.slice(0, base.donts.length)).toEqual(base.donts);
+      expect(resolved.donts).toContain("타 의원실 비방");
+      expect(resolved.contact?.office).toBeTruthy();
+      expect(base.contact).toBeUndefined();
+    });
+
+    it("should reject unknown overlays", async () => {
+      expect(await getOverlayPack("missing_office_v1")).toBeNull();
+      await expect(RulepackLoader.resolveRulepack("sns", "v1", "../tone/neutral_v1")).rejects.toThrow(/Invalid overlay pack id/);
+    });
+  });
+
+  describe("versions", () => {
+    const originalVersion = process.env.NEXT_PUBLIC_RULEPACK_VERSION;
+
+    afterEach(() => {
+      if (originalVersion === undefined) delete process.env.NEXT_PUBLIC_RULEPACK_VERSION;
+      else process.env.NEXT_PUBLIC_RULEPACK_VERSION = originalVersion;
+    });
+
+    it("should discover versions from rulepack file names", async () => {
+      expect(await RulepackLoader.getAvailableVersions("press_release")).toEqual(["v1", "v2"]);
+      expect(await RulepackLoader.getAvailableVersions("sns")).toEqual(["v1"]);
+      expect(await RulepackLoader.getAvailableVersions()).toEqual(["v1", "v2"]);
+    });
+
+    it("should load v2 side by side with the v1 it extends", async () => {
+      const v1 = await RulepackLoader.loadFormatPack("press_release", "v1");
+      const v2 = await RulepackLoader.loadFormatPack("press_release", "v2");
+
+      expect(v2.id).toBe("press_release_v2");
+      expect(v2.dos.slice(0, v1.dos.length)).toEqual(v1.dos);
+      expect(v2.sections.headline).toMatchObject({
+        label: "제목",
+        aliases: ["헤드라인", "표제"],
+        hints: { maxLines: 1, keyPoints: "핵심 메시지 압축" },
+      });
+      expect(v1.sections.headline?.hints).toMatchObject({ maxLines: 2 });
+    });
+
+    it("should fall back to a format's latest version when the default is missing", async () => {
+      process.env.NEXT_PUBLIC_RULEPACK_VERSION = "v2";
+
+      expect(await RulepackLoader.resolveVersion("press_release")).toBe("v2");
+      expect(await RulepackLoader.resolveVersion("sns")).toBe("v1");
+      expect(await RulepackLoader.resolveVersion("sns", "v1")).toBe("v1");
+    });
+
+    it.each(["v2", "v01x", "../../base/public_comm_v1"])(
+      "should reject a version the format does not have: %s",
+      async (version) => {
+        await expect(RulepackLoader.resolveVersion("sns", version)).rejects.toThrow(RulepackVersionError);
+        await expect(RulepackLoader.loadFormatPack("sns", version)).rejects.toMatchObject({
+          availableVersions: ["v1"],
+        });
+      }
+    );
+  });
+
+  describe("level guides", () => {
+    it("should load a guide for every level with growing output caps", async () => {
+      const levelGuides = await RulepackLoader.loadAllLevelGuides();
+
+      expect(levelGuides.map((guide) => guide.level)).toEqual(["basic", "intermediate", "advanced"]);
+      const outputs = levelGuides.map((guide) => guide.tokenLimits.output);
+      expect([...outputs].sort((a, b) => a - b)).toEqual(outputs);
+    });
+
+    it("should return null for a level without a guide", async () => {
+      expect(await getLevelGuide("expert" as never)).toBeNull();
+    });
+  });
+
   describe("cache management", () => {
     it("should clear cache properly", async () => {
       await RulepackLoader.loadFormatPack("report");
@@ -111,7 +224,7 @@ describe("RulepackLoader", () => {
       await RulepackLoader.preloadAll();
 
       const stats = RulepackLoader.getCacheStats();
-      expect(stats.size).toBe(FormatEnum.options.length);
+      expect(stats.size).toBe(SHIPPED_FORMATS.length);
     });
   });
 });
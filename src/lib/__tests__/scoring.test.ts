@@ -0,0 +1,127 @@
+import { describe, it, expect } from "@jest/globals";
+import { DEFAULT_ERROR_CAP, ScoringModel } from "../scoring";
+import { type ScoredCheck, type ScoringConfig } from "@/types/rulepack";
+
+const check = (
+  id: string,
+  category: string,
+  passed: boolean,
+  severity: ScoredCheck["severity"] = "warning"
+): ScoredCheck => ({ id, category, severity, passed });
+
+const unweighted: ScoringConfig = { ruleWeights: {}, categoryWeights: {} };
+
+describe("ScoringModel", () => {
+  describe("score", () => {
+    it("should average category scores, not checks", () => {
+      const checks = [
+        check("a", "구조", true),
+        check("b", "구조", true),
+        check("c", "구조", true),
+        check("d", "준수", false),
+      ];
+
+      const result = ScoringModel.score(checks, unweighted, 80);
+
+      expect(result.categories).toEqual([
+        {
+          category: "구조",
+          weight: 1,
+          passedChecks: 3,
+          totalChecks: 3,
+          score: 100,
+        },
+        {
+          category: "준수",
+          weight: 1,
+          passedChecks: 0,
+          totalChecks: 1,
+          score: 0,
+        },
+      ]);
+      expect(result).toMatchObject({
+        score: 50,
+        weightedScore: 50,
+        passed: false,
+        passedChecks: 3,
+        totalChecks: 4,
+      });
+    });
+
+    it("should apply rule and category weights", () => {
+      const checks = [
+        check("a", "구조", true),
+        check("b", "구조", false),
+        check("c", "준수", true),
+      ];
+
+      const result = ScoringModel.score(
+        checks,
+        { ruleWeights: { a: 3 }, categoryWeights: { 준수: 0 } },
+        70
+      );
+
+      // 구조: 3 of 4; 준수 weighs nothing
+      expect(result.categories[0]?.score).toBe(75);
+      expect(result.score).toBe(75);
+      expect(result.passed).toBe(true);
+    });
+
+    it("should cap the score and fail when an error check fails", () => {
+      const checks = [
+        ...Array.from({ length: 9 }, (_, index) =>
+          check(`ok${index}`, "구조", true)
+        ),
+        check("required_sections", "구조", false, "error"),
+      ];
+
+      const defaults = ScoringModel.score(checks, unweighted, 80);
+      const capped = ScoringModel.score(
+        checks,
+        { ...unweighted, errorCap: 40 },
+        80
+      );
+
+      expect(defaults).toMatchObject({
+        weightedScore: 90,
+        score: DEFAULT_ERROR_CAP,
+        errorCap: DEFAULT_ERROR_CAP,
+        passed: false,
+      });
+      expect(capped.score).toBe(40);
+    });
+
+    it("should score no checks as full marks", () => {
+      expect(ScoringModel.score([], unweighted, 80)).toMatchObject({
+        score: 100,
+        passed: true,
+        categories: [],
+      });
+    });
+  });
+
+  describe("resolveConfig", () => {
+    it("should let the level guide override the format pack", () => {
+      const config = ScoringModel.resolveConfig(
+        {
+          scoring: {
+            ruleWeights: { a: 2, b: 2 },
+            categoryWeights: { 구조: 2 },
+            errorCap: 50,
+          },
+        },
+        { scoring: { ruleWeights: { b: 3 }, categoryWeights: {} } }
+      );
+
+      expect(config).toEqual({
+        ruleWeights: { a: 2, b: 3 },
+        categoryWeights: { 구조: 2 },
+        errorCap: 50,
+      });
+    });
+
+    it("should resolve to no weights when neither sets any", () => {
+      expect(ScoringModel.resolveConfig({}, {})).toEqual(unweighted);
+    });
+  });
+});
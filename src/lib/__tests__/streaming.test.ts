@@ -0,0 +1,46 @@
+import { describe, it, expect } from "@jest/globals";
+import { LLMClient, LLMAbortedError } from "../llm-client";
+import { MockProvider } from "../llm-providers/mock";
+import { encodeSSE, parseSSE } from "../sse";
+
+const request = {
+  systemPrompt: "• 첫 번째 지침\n• 두 번째 지침",
+  userPrompt: "📌 주제: 청년 주거 지원",
+  format: "press_release" as const,
+  level: "intermediate" as const,
+  requestId: "stream-test",
+};
+
+describe("SSE helpers", () => {
+  it("round-trips encoded events and keeps incomplete frames", () => {
+    const buffer = encodeSSE("delta", { text: "안녕" }) + encodeSSE("done", { ok: true }) + "event: delta\ndata: {";
+    const { events, rest } = parseSSE(buffer);
+
+    expect(events).toEqual([
+      { event: "delta", data: JSON.stringify({ text: "안녕" }) },
+      { event: "done", data: JSON.stringify({ ok: true }) },
+    ]);
+    expect(rest).toBe("event: delta\ndata: {");
+  });
+});
+
+describe("LLMClient.streamContent", () => {
+  it("emits deltas that add up to the final content", async () => {
+    const client = new LLMClient(new MockProvider());
+    const deltas: string[] = [];
+
+    const response = await client.streamContent(request, (delta) => deltas.push(delta));
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe(response.content);
+  });
+
+  it("rejects with LLMAbortedError when the caller cancels", async () => {
+    const client = new LLMClient(new MockProvider());
+    const controller = new AbortController();
+
+    const promise = client.streamContent(request, () => controller.abort(), controller.signal);
+
+    await expect(promise).rejects.toBeInstanceOf(LLMAbortedError);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LLMClient, LLMTokenLimitError, resetLLMClient } from "../llm-client";
+import { getLevelGuide } from "../rulepack-loader";
+import { TokenBudgetPlanner } from "../token-budget";
+import { TokenGuard } from "../token-guard";
+import { TokenLedger } from "../token-ledger";
+import { countTokens } from "../tokenizer";
+
+const SENTENCE = "청년 주거 지원 정책을 확대합니다. ";
+
+// Text of at least the given number of tokens
+const textOf = (tokens: number): string => {
+  let text = SENTENCE.repeat(Math.ceil(tokens / countTokens(SENTENCE)));
+  while (countTokens(text) < tokens) text += SENTENCE;
+  return text;
+};
+
+describe("TokenBudgetPlanner", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetLLMClient();
+  });
+
+  it("should split the level's input between system and user prompts and explain each share", async () => {
+    const plan = await TokenBudgetPlanner.plan({
+      model: "gpt-4o-mini",
+      level: "basic",
+      systemPrompt: "당신은 정책 전문가입니다.",
+      userPrompt: "📌 주제: 청년 주거 지원",
+    });
+    const { tokenLimits } = (await getLevelGuide("basic"))!;
+
+    expect(plan).toMatchObject({
+      model: "gpt-4o-mini",
+      contextWindow: 128_000,
+      system: { tokens: tokenLimits.input - tokenLimits.user },
+      user: { tokens: tokenLimits.user },
+      reasoning: { tokens: 0 },
+      output: { tokens: tokenLimits.output },
+    });
+    expect(plan.exceeded).toBeUndefined();
+    for (const allocation of [
+      plan.system,
+      plan.user,
+      plan.reasoning,
+      plan.output,
+    ]) {
+      expect(allocation.reason).not.toBe("");
+    }
+  });
+
+  it("should set reasoning tokens aside for reasoning models", async () => {
+    const plan = await TokenBudgetPlanner.plan({
+      model: "gpt-5-mini",
+      level: "intermediate",
+      systemPrompt: "",
+      userPrompt: "주제",
+    });
+
+    expect(plan.reasoning.tokens).toBeGreaterThan(0);
+    expect(plan.reasoning.reason).toContain("gpt-5-mini");
+  });
+
+  it("should give a system prompt longer than its share what it needs", async () => {
+    const { tokenLimits } = (await getLevelGuide("basic"))!;
+    const systemPrompt = textOf(tokenLimits.input);
+
+    const plan = await TokenBudgetPlanner.plan({
+      model: "gpt-4o-mini",
+      level: "basic",
+      systemPrompt,
+      userPrompt: "📌 주제: 청년 주거 지원",
+    });
+
+    expect(plan.exceeded).toBeUndefined();
+    expect(plan.system.tokens).toBe(countTokens(systemPrompt));
+    expect(plan.system.tokens).toBeGreaterThan(tokenLimits.input);
+    expect(() => TokenBudgetPlanner.enforce(plan)).not.toThrow();
+  });
+
+  it("should refuse a user prompt over its share, which grows for rewrites", async () => {
+    const { tokenLimits } = (await getLevelGuide("basic"))!;
+    const request = {
+      model: "gpt-4o-mini",
+      level: "basic" as const,
+      systemPrompt: "",
+      userPrompt: textOf(tokenLimits.user + 1),
+    };
+
+    const plan = await TokenBudgetPlanner.plan(request);
+    expect(plan.exceeded).toBe("user");
+    expect(() => TokenBudgetPlanner.enforce(plan)).toThrow(LLMTokenLimitError);
+
+    const rewrite = await TokenBudgetPlanner.plan({
+      ...request,
+      purpose: "rewrite",
+    });
+    expect(rewrite.user.tokens).toBe(tokenLimits.user + tokenLimits.output);
+    expect(rewrite.exceeded).toBeUndefined();
+  });
+
+  it("should refuse a request past the model's context window", async () => {
+    const plan = await TokenBudgetPlanner.plan({
+      model: "local-model",
+      level: "basic",
+      // Past the context window assumed for unknown models
+      systemPrompt: textOf(8192),
+      userPrompt: "주제",
+    });
+
+    expect(plan.exceeded).toBe("context");
+    expect(() => TokenBudgetPlanner.enforce(plan)).toThrow(
+      expect.objectContaining({
+        code: "TOKEN_LIMIT",
+        details: expect.objectContaining({ allocation: "context" }),
+      })
+    );
+  });
+
+  describe("as used by the token guard and the LLM client", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      process.env.LLM_PROVIDER = "mock";
+      dir = await mkdtemp(join(tmpdir(), "token-budget-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should allow and refuse the same requests in both", async () => {
+      const { tokenLimits } = (await getLevelGuide("basic"))!;
+      const guard = new TokenGuard(new TokenLedger(join(dir, "ledger.jsonl")));
+      const client = new LLMClient();
+      const request = (systemPrompt: string, userPrompt: string) => ({
+        systemPrompt,
+        userPrompt,
+        format: "press_release" as const,
+        level: "basic" as const,
+        requestId: "budget-test",
+      });
+      const metadata = {
+        requestId: "budget-test",
+        timestamp: new Date().toISOString(),
+      };
+
+      // A long system prompt is not the user's to shorten
+      const longSystem = textOf(tokenLimits.input);
+      const allowed = await guard.checkTokenLimits(
+        longSystem,
+        "📌 주제: 청년 주거 지원",
+        "press_release",
+        "basic",
+        metadata
+      );
+      expect(allowed.allowed).toBe(true);
+      expect(allowed.plan.system.tokens).toBeGreaterThan(tokenLimits.input);
+      await expect(
+        client.generateContent(request(longSystem, "📌 주제: 청년 주거 지원"))
+      ).resolves.toBeDefined();
+
+      const longUser = textOf(tokenLimits.user + 1);
+      const refused = await guard.checkTokenLimits(
+        "",
+        longUser,
+        "press_release",
+        "basic",
+        metadata
+      );
+      expect(refused).toMatchObject({
+        allowed: false,
+        limit: tokenLimits.user,
+      });
+      expect(refused.suggestions).toContain("중급 레벨로 변경해보세요");
+      await expect(
+        client.generateContent(request("", longUser))
+      ).rejects.toBeInstanceOf(LLMTokenLimitError);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TokenGuard } from "../token-guard";
+import { TokenLedger, monthOf } from "../token-ledger";
+import type { RequestMetadata } from "@/types/rulepack";
+
+const SYSTEM_PROMPT = "당신은 정책 전문가입니다.";
+const PROMPT = "청년 주거 지원 정책에 대한 보도자료를 작성해주세요.";
+
+const metadata = (
+  requestId: string,
+  sessionId = "user-a",
+  office: string | null = "office_a"
+): RequestMetadata => ({
+  requestId,
+  timestamp: new Date().toISOString(),
+  sessionId,
+  ...(office ? { office } : {}),
+});
+
+// A completion of the given size from the configured (mock) model
+const answer = (totalTokens: number) => ({
+  usage: {
+    promptTokens: totalTokens - 100,
+    completionTokens: 100,
+    totalTokens,
+  },
+  model: "mock-1",
+  responseTime: 10,
+});
+
+describe("TokenGuard", () => {
+  const originalEnv = { ...process.env };
+  let dir: string;
+  let ledgerPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "token-ledger-"));
+    ledgerPath = join(dir, "ledger.jsonl");
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should count a request's actual usage in place of its estimate", async () => {
+    const guard = new TokenGuard(new TokenLedger(ledgerPath));
+
+    await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r1")
+    );
+    await guard.logActualUsage("r1", answer(500));
+    await guard.logActualUsage("r1", answer(300));
+    const estimate = await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r2", "user-b")
+    );
+
+    const stats = await guard.getTokenStats({ month: monthOf() });
+    expect(stats).toMatchObject({
+      month: monthOf(),
+      requestCount: 2,
+      totalTokens: 800 + estimate.usage.totalTokens,
+    });
+    expect((await guard.getTokenStats({ userId: "user-a" })).totalTokens).toBe(
+      800
+    );
+    expect(
+      (await guard.getTokenStats({ format: "press_release" })).requestCount
+    ).toBe(0);
+
+    // Persisted, so a new guard reads the same usage
+    const reloaded = new TokenGuard(new TokenLedger(ledgerPath));
+    expect(
+      (await reloaded.getTokenStats({ office: "office_a" })).totalTokens
+    ).toBe(800 + estimate.usage.totalTokens);
+  });
+
+  it("should warn past a budget's soft limit and refuse past its hard limit", async () => {
+    process.env.TOKEN_BUDGET_USER_MONTHLY = "1000";
+    process.env.TOKEN_BUDGET_OFFICE_MONTHLY = "100000";
+    const guard = new TokenGuard(new TokenLedger(ledgerPath));
+
+    await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r1")
+    );
+    await guard.logActualUsage("r1", answer(750));
+
+    const soft = await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      "짧은 주제",
+      "sns",
+      "basic",
+      metadata("r2")
+    );
+    // Over the user's budget only when the estimate is added
+    const estimate = soft.usage.totalTokens;
+    expect(estimate).toBeLessThan(250);
+    expect(soft.allowed).toBe(true);
+    expect(soft.budgets).toEqual([
+      expect.objectContaining({
+        scope: "office",
+        state: "ok",
+      }),
+      expect.objectContaining({
+        scope: "user",
+        usedTokens: 750,
+        limit: 1000,
+        softLimit: 800,
+        state: "soft",
+      }),
+    ]);
+    expect(soft.warnings).toContain(
+      "이번 달 사용자 토큰 예산의 75%를 사용했습니다"
+    );
+
+    await guard.logActualUsage("r2", answer(240));
+    const hard = await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r3")
+    );
+    expect(hard).toMatchObject({ allowed: false, budgetExceeded: true });
+    expect(hard.budgets[1]?.state).toBe("hard");
+
+    // Other users are unaffected, and a refused request is not recorded
+    const other = await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r4", "user-b")
+    );
+    expect(other.allowed).toBe(true);
+    const ledger = await readFile(ledgerPath, "utf-8");
+    expect(ledger).not.toContain('"r3"');
+    expect(ledger).toContain('"r4"');
+  });
+
+  it("should check a request's further calls against what it has used so far", async () => {
+    process.env.TOKEN_BUDGET_USER_MONTHLY = "1000";
+    const guard = new TokenGuard(new TokenLedger(ledgerPath));
+
+    const first = await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r1")
+    );
+    expect(first.allowed).toBe(true);
+    await guard.logActualUsage("r1", answer(990));
+
+    const budgets = await guard.checkCallBudgets(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r1"),
+      "judge"
+    );
+    expect(budgets).toContainEqual(
+      expect.objectContaining({ scope: "user", usedTokens: 990, state: "hard" })
+    );
+    // Nothing is recorded for the call
+    expect((await guard.getTokenStats({ month: monthOf() })).totalTokens).toBe(
+      990
+    );
+  });
+
+  it("should keep user ids out of the ledger and budgets", async () => {
+    process.env.TOKEN_BUDGET_USER_MONTHLY = "1000";
+    const guard = new TokenGuard(new TokenLedger(ledgerPath));
+
+    const result = await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r1", "session-secret")
+    );
+
+    expect(await readFile(ledgerPath, "utf-8")).not.toContain("session-secret");
+    expect(JSON.stringify(result.budgets)).not.toContain("session-secret");
+    expect(
+      (await guard.getTokenStats({ userId: "session-secret" })).requestCount
+    ).toBe(1);
+  });
+
+  it("should count requests without an office overlay against one office budget", async () => {
+    process.env.TOKEN_BUDGET_OFFICE_MONTHLY = "1000";
+    const guard = new TokenGuard(new TokenLedger(ledgerPath));
+
+    await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r1", "user-a", null)
+    );
+    await guard.logActualUsage("r1", answer(990));
+    const result = await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r2", "user-b", null)
+    );
+
+    expect(result).toMatchObject({ allowed: false, budgetExceeded: true });
+    expect(result.budgets).toEqual([
+      expect.objectContaining({ scope: "office", state: "hard" }),
+    ]);
+  });
+
+  it("should warn when this month's average request exceeds the PRD target", async () => {
+    process.env.TOKEN_BUDGET_AVERAGE_PER_REQUEST = "900";
+    const guard = new TokenGuard(new TokenLedger(ledgerPath));
+
+    await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r1")
+    );
+    await guard.logActualUsage("r1", answer(2000));
+    const result = await guard.checkTokenLimits(
+      SYSTEM_PROMPT,
+      PROMPT,
+      "sns",
+      "basic",
+      metadata("r2")
+    );
+
+    expect(result.allowed).toBe(true);
+    expect(result.warnings).toContain(
+      "이번 달 요청당 평균 토큰(2000)이 기준(900)을 넘었습니다"
+    );
+  });
+
+  it("should price fixture replays at zero under the model they recorded", async () => {
+    const guard = new TokenGuard(new TokenLedger(ledgerPath));
+
+    const cost = await guard.logActualUsage("r1", {
+      ...answer(1500),
+      model: "gpt-4o-mini",
+      provider: "fixture",
+    });
+
+    expect(cost.total).toBe(0);
+    expect(await guard.getRequestCost("r1")).toMatchObject({
+      total: 0,
+      models: ["gpt-4o-mini"],
+    });
+  });
+});
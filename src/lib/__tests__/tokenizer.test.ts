@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import {
+  DEFAULT_VOCABULARY,
+  countTokens,
+  getTokenizer,
+  resetTokenizers,
+  resolveVocabulary,
+} from "../tokenizer";
+
+const TEXT =
+  "🎯 청년 주거 지원이 확대됩니다!\n2024년 신청자는 1,200명입니다. (출처: 국토교통부)";
+
+describe("tokenizer", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    resetTokenizers();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetTokenizers();
+  });
+
+  it("should encode any text and decode it back", () => {
+    const tokenizer = getTokenizer("gpt-4o-mini");
+    const tokens = tokenizer.encode(TEXT);
+
+    expect(tokens.length).toBeGreaterThan(0);
+    expect(tokenizer.decode(tokens)).toBe(TEXT);
+    expect(tokenizer.count("")).toBe(0);
+  });
+
+  it("should produce the token ids of the model family's vocabulary", () => {
+    expect(getTokenizer("gpt-4o-mini").encode("hello world")).toEqual([
+      24912, 2375,
+    ]);
+    expect(getTokenizer("gpt-4").encode("hello world")).toEqual([15339, 1917]);
+    expect(
+      countTokens("The quick brown fox jumps over the lazy dog", "gpt-4o")
+    ).toBe(9);
+    expect(
+      countTokens(
+        "청년 주거 지원 정책에 대한 보도자료를 작성해주세요.",
+        "gpt-5"
+      )
+    ).toBe(15);
+    expect(
+      countTokens(
+        "청년 주거 지원 정책에 대한 보도자료를 작성해주세요.",
+        "gpt-4"
+      )
+    ).toBe(25);
+  });
+
+  it("should merge long pieces without rescanning every pair", () => {
+    // Each is a single piece; rescanning every pair after each merge would
+    // take minutes on these, well past the test timeout
+    expect(countTokens("a".repeat(20000), "gpt-4o")).toBe(2500);
+    expect(countTokens("가".repeat(20000), "gpt-4o")).toBe(20000);
+    expect(countTokens("청년주거지원정책".repeat(2500), "gpt-4o")).toBe(17500);
+  });
+
+  it("should pick a vocabulary by model family, with a default for the rest", () => {
+    expect(resolveVocabulary("gpt-4o-mini")).toBe("o200k_base");
+    expect(resolveVocabulary("gpt-3.5-turbo")).toBe("cl100k_base");
+    expect(resolveVocabulary("claude-3-5-haiku-latest")).toBe(
+      DEFAULT_VOCABULARY
+    );
+
+    process.env.LLM_TOKENIZER = "cl100k_base";
+    expect(resolveVocabulary("gpt-4o-mini")).toBe("cl100k_base");
+    process.env.LLM_TOKENIZER = "no_such_vocabulary";
+    expect(resolveVocabulary("gpt-4o-mini")).toBe(DEFAULT_VOCABULARY);
+  });
+
+  it("should count with the configured model when none is given", () => {
+    process.env.LLM_PROVIDER = "mock";
+
+    expect(countTokens(TEXT)).toBe(countTokens(TEXT, "mock-1"));
+    expect(getTokenizer().vocabulary).toBe(DEFAULT_VOCABULARY);
+  });
+});
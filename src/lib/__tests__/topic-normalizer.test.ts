@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { LLMError, resetLLMClient } from "../llm-client";
+import PromptGenerator from "../prompt-generator";
+import { RulepackLoader } from "../rulepack-loader";
+import { TopicNormalizer } from "../topic-normalizer";
+
+describe("TopicNormalizer", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = "mock";
+    resetLLMClient();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetLLMClient();
+  });
+
+  describe("parse", () => {
+    it("accepts JSON wrapped in code fences and fills optional lists", () => {
+      const topic = TopicNormalizer.parse('```json\n{"domain": "주거복지", "keyMessages": ["청년 월세 지원 확대"]}\n```');
+
+      expect(topic).toEqual({
+        domain: "주거복지",
+        keyMessages: ["청년 월세 지원 확대"],
+        stakeholders: [],
+        risks: [],
+      });
+    });
+
+    it("rejects responses without a valid interpretation", () => {
+      expect(() => TopicNormalizer.parse("분석할 수 없습니다.")).toThrow(LLMError);
+      expect(() => TopicNormalizer.parse('{"domain": "주거복지", "keyMessages": []}')).toThrow(/keyMessages/);
+    });
+  });
+
+  it("normalizes a topic through the configured provider", async () => {
+    const { normalizedTopic } = await TopicNormalizer.normalize({
+      format: "press_release",
+      formatName: "보도자료",
+      level: "intermediate",
+      topic: "청년 주거 지원",
+      requestId: "normalize-test",
+    });
+
+    expect(normalizedTopic.keyMessages).toEqual(["청년 주거 지원"]);
+    expect(normalizedTopic.domain).toBeTruthy();
+  });
+
+  it("injects the interpretation into the user prompt", async () => {
+    const rulepack = await RulepackLoader.loadFormatPack("press_release");
+    const levelGuide = await RulepackLoader.loadLevelGuide("intermediate");
+    const userPrompt = PromptGenerator.generateUserPrompt({
+      format: "press_release",
+      level: "intermediate",
+      topic: "청년 주거 지원",
+      normalizedTopic: {
+        domain: "주거복지",
+        keyMessages: ["청년 월세 지원 확대"],
+        stakeholders: ["청년", "국토교통부"],
+        risks: [],
+      },
+    }, rulepack, levelGuide);
+
+    expect(userPrompt).toContain("• 분야: 주거복지");
+    expect(userPrompt).toContain("• 이해관계자: 청년, 국토교통부");
+    expect(userPrompt).not.toContain("유의할 리스크");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { RulepackLoader } from "../rulepack-loader";
+import { ContentValidator } from "../validation";
+
+describe("ContentValidator", () => {
+  beforeEach(() => {
+    RulepackLoader.clearCache();
+  });
+
+  it("should detect sections by label, alias or pattern", async () => {
+    // No section is named outright: 도입부 and 참여 are aliases used as labels,
+    // the hashtags only match the hashtags pattern
+    const content = [
+      "도입부: 청년 월세 지원이 늘어납니다",
+      "메인 콘텐츠: 올해부터 지원 대상이 확대됩니다",
+      "참여 안내: 댓글로 의견을 남겨 주세요",
+      "#청년 #주거",
+    ].join("\n");
+
+    const result = await ContentValidator.validateContent(content, "sns", "basic");
+
+    expect(result.errors.filter((error) => error.startsWith("Missing required sections"))).toEqual([]);
+  });
+
+  it("should report sections that are not found", async () => {
+    const result = await ContentValidator.validateContent("## 메인 콘텐츠\n본문만 있습니다", "sns", "basic");
+
+    expect(result.errors).toContain("Missing required sections: hook, call_to_action, hashtags");
+  });
+
+  it("should score the checks it ran and cap the score on errors", async () => {
+    const result = await ContentValidator.validateContent("## 메인 콘텐츠\n본문만 있습니다", "sns", "basic");
+
+    expect(result.checks).toContainEqual({ id: "required_sections", category: "구조", severity: "error", passed: false });
+    expect(result.scoring).toMatchObject({ passed: false, errorCap: 60, passScore: 70 });
+    expect(result.scoring.score).toBeLessThanOrEqual(60);
+  });
+
+  it("should not count a section that is only mentioned in the body", async () => {
+    const content = ["## 분석", "요약하면 결론은 아직 없습니다"].join("\n");
+
+    const result = await ContentValidator.validateContent(content, "report", "basic");
+
+    expect(result.errors).toContain("Missing required sections: summary, background, conclusion, appendix");
+  });
+
+  it("should check hints using the section's label", async () => {
+    const content = ["메인 콘텐츠", "가".repeat(250), "## 해시태그", "#청년"].join("\n");
+
+    const result = await ContentValidator.validateContent(content, "sns", "basic");
+
+    expect(result.warnings).toContain("메인 콘텐츠 섹션이 권장 글자 수(200)를 초과했습니다");
+  });
+
+  it("should count items by the section's patterns", async () => {
+    const content = ["훅 한 줄", "메인 콘텐츠", "참여 부탁드립니다", "#청년 #주거 #월세 #지원 #정책 #국회"].join("\n");
+
+    const result = await ContentValidator.validateContent(content, "sns", "basic");
+
+    expect(result.warnings).toContain("해시태그 항목 수(6)가 권장 개수(5)를 초과했습니다");
+  });
+
+  it("should check requirements and included items under the section heading", async () => {
+    const content = [
+      "## 요약",
+      "요약입니다",
+      "## 배경 정보",
+      "사실 중심으로 기술합니다",
+      "## 분석",
+      "현황과 쟁점, 대안을 살펴봅니다",
+      "## 결론",
+      "앞으로 지켜봐야 합니다",
+      "## 부록",
+      "참고자료와 통계",
+    ].join("\n");
+
+    const result = await ContentValidator.validateContent(content, "report", "basic");
+
+    expect(result.warnings).toContain(
+      "결론 섹션에 필수 요건이 드러나지 않습니다: 구체적 실행방안, 단계별 추진계획"
+    );
+    expect(result.warnings).toContain("부록 섹션에 포함되어야 할 항목이 없습니다: 법령, 사례");
+    // Each requirement is addressed by one of its words
+    expect(result.warnings.some((warning) => warning.startsWith("분석 섹션"))).toBe(false);
+  });
+
+  it("should locate compliance findings in the content", async () => {
+    const content = ["## 요약", "획기적인 대책입니다", "## 배경 정보", "2024년 통계 자료"].join("\n");
+
+    const result = await ContentValidator.validateContent(content, "report", "basic");
+    const exaggeration = result.findings.find((finding) => finding.ruleId === "no_exaggeration");
+
+    expect(exaggeration).toMatchObject({ severity: "error", suggestion: expect.any(String) });
+    expect(content.slice(exaggeration?.start, exaggeration?.end)).toBe("획기적");
+    expect(result.errors).toContain(exaggeration?.message);
+  });
+});
+
@@ -1,10 +1,110 @@
 import { readFile } from "fs/promises";
 import { join } from "path";
-import { type Format, type ValidationLevel } from "@/types/rulepack";
+import yaml from "js-yaml";
+import {
+  ChecklistFrontmatterSchema,
+  type ChecklistFrontmatter,
+  type Format,
+  type ScoredCheck,
+  type ValidationLevel,
+} from "@/types/rulepack";
+import { type ComplianceJudge } from "./compliance-rules";
+import { findMatches } from "./findings";
+import { MarkdownSectionParser, type SectionSpan } from "./markdown-sections";
+import { RulepackLoader } from "./rulepack-loader";
+
+/**
+ * Machine-checkable form of a checklist item, declared in a trailing comment:
+ *
+ *   - [ ] 해시태그는 5개 이하인가? <!-- check: count /#[^\s#]+/ <= 5 -->
+ *
+ * Kinds:
+ *   regex /pattern/flags       content matches (prefix `!` for must not match)
+ *   section <id>               the rulepack section is present
+ *   max-length [<id>] <n>      at most n characters, in the section if given
+ *   count /pattern/flags <op> <n>   number of matches compared with <=, >= or =
+ *   judge <question>           asked of an LLM judge; skipped without one
+ */
+export type ChecklistAnnotation =
+  | { kind: "regex"; pattern: string; flags: string; negate: boolean }
+  | { kind: "section"; section: string }
+  | { kind: "max-length"; max: number; section?: string }
+  | {
+      kind: "count";
+      pattern: string;
+      flags: string;
+      operator: "<=" | ">=" | "=";
+      value: number;
+    }
+  | { kind: "judge"; question: string };
 
 export interface ChecklistItem {
   category: string;
-  items: string[];
+  items: string[]; // Item text, without annotations
+  // Checks of annotated items, by item text
+  annotations: Record<string, ChecklistAnnotation>;
+}
+
+export class ChecklistAnnotationError extends Error {
+  constructor(
+    message: string,
+    public readonly annotation: string
+  ) {
+    super(message);
+    this.name = "ChecklistAnnotationError";
+  }
+}
+
+export class ChecklistNotFoundError extends Error {
+  constructor(public readonly checklistId: string) {
+    super(`Checklist not found: ${checklistId}`);
+    this.name = "ChecklistNotFoundError";
+  }
+}
+
+// What annotated checks are evaluated against
+interface ChecklistContext {
+  content: string;
+  getSpans: () => Promise<Record<string, SectionSpan>>; // Resolved on first use
+  judge?: ComplianceJudge;
+}
+
+const ANNOTATION_PATTERN = /\s*<!--\s*check:\s*(.*?)\s*-->\s*$/;
+const REGEX_LITERAL = /^(!?)\/(.+)\/([gimsuy]*)$/;
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/**
+ * Merge a checklist over the one it extends: inherited categories come first,
+ * a category with an inherited name adds its items to that category, and
+ * new categories follow
+ */
+function mergeChecklists(
+  parent: ChecklistItem[],
+  child: ChecklistItem[]
+): ChecklistItem[] {
+  const merged = parent.map((category) => ({
+    ...category,
+    items: [...category.items],
+    annotations: { ...category.annotations },
+  }));
+
+  for (const category of child) {
+    const inherited = merged.find(
+      (item) => item.category === category.category
+    );
+    if (!inherited) {
+      merged.push(category);
+      continue;
+    }
+    for (const item of category.items) {
+      if (!inherited.items.includes(item)) {
+        inherited.items.push(item);
+      }
+    }
+    Object.assign(inherited.annotations, category.annotations);
+  }
+
+  return merged;
 }
 
 export interface ChecklistMetadata {
@@ -12,6 +112,7 @@ export interface ChecklistMetadata {
   version: string;
   format: Format;
   level: ValidationLevel;
+  extends?: string; // Checklist the items were inherited from
   categories: string[];
 }
 
@@ -29,7 +130,10 @@ export class ChecklistLoader {
   }
 
   /**
-   * Load checklist for a specific format and level
+   * Load checklist for a specific format and level, with its `extends` chain
+   * resolved
+   *
+   * @throws ChecklistNotFoundError when there is no such checklist file
    */
   static async loadChecklist(
     format: Format,
@@ -43,32 +147,115 @@ export class ChecklistLoader {
       return this.cache.get(cacheKey)!;
     }
 
+    // Guard against build-time execution
+    if (typeof process === "undefined" || !process.cwd) {
+      throw new Error("Checklist loading not available in build environment");
+    }
+
     try {
-      const filename = `${format}_${level}_${version}.md`;
-      const filePath = join(this.getChecklistDir(), filename);
-      
-      // Guard against build-time execution
-      if (typeof process === 'undefined' || !process.cwd) {
-        throw new Error('Checklist loading not available in build environment');
-      }
-      
-      const fileContent = await readFile(filePath, "utf-8");
-      const checklist = this.parseMarkdownChecklist(fileContent);
+      const checklist = await this.resolveChecklist(cacheKey, []);
 
       // Cache the parsed checklist
       this.cache.set(cacheKey, checklist);
 
       return checklist;
     } catch (error) {
-      if (error instanceof Error) {
-        // Return empty checklist for build-time or missing files
-        console.warn(`Checklist not found: ${format}_${level}_${version}`);
-        return [];
+      if (error instanceof Error && !(error instanceof ChecklistNotFoundError)) {
+        throw new Error(
+          `Failed to load checklist ${cacheKey}: ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read a checklist's frontmatter
+   */
+  static async loadFrontmatter(
+    format: Format,
+    level: ValidationLevel,
+    version: string = "v1"
+  ): Promise<ChecklistFrontmatter> {
+    const { frontmatter } = this.splitFrontmatter(
+      await this.readChecklistFile(`${format}_${level}_${version}`)
+    );
+    return frontmatter;
+  }
+
+  /**
+   * Read a checklist file and merge it over the checklist it extends
+   */
+  private static async resolveChecklist(
+    id: string,
+    chain: string[]
+  ): Promise<ChecklistItem[]> {
+    if (chain.includes(id)) {
+      throw new Error(`circular extends: ${[...chain, id].join(" -> ")}`);
+    }
+
+    const { frontmatter, body } = this.splitFrontmatter(
+      await this.readChecklistFile(id)
+    );
+    const { format, level, version } = frontmatter;
+    const declared = `${format}_${level}_${version}`;
+    if (declared !== id) {
+      throw new Error(`frontmatter of ${id}.md describes ${declared}`);
+    }
+
+    const checklist = this.parseMarkdownChecklist(body);
+    if (!frontmatter.extends) {
+      return checklist;
+    }
+    if (!frontmatter.extends.startsWith(`${format}_`)) {
+      throw new Error(
+        `${id} extends '${frontmatter.extends}', a checklist for another format`
+      );
+    }
+
+    let parent: ChecklistItem[];
+    try {
+      parent = await this.resolveChecklist(frontmatter.extends, [...chain, id]);
+    } catch (error) {
+      if (error instanceof ChecklistNotFoundError) {
+        throw new Error(
+          `${id} extends unknown checklist '${error.checklistId}'`
+        );
+      }
+      throw error;
+    }
+    return mergeChecklists(parent, checklist);
+  }
+
+  private static async readChecklistFile(id: string): Promise<string> {
+    try {
+      return await readFile(join(this.getChecklistDir(), `${id}.md`), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new ChecklistNotFoundError(id);
       }
       throw error;
     }
   }
 
+  /**
+   * Split a checklist file into its frontmatter and markdown body
+   */
+  private static splitFrontmatter(content: string): {
+    frontmatter: ChecklistFrontmatter;
+    body: string;
+  } {
+    const match = content.match(FRONTMATTER_PATTERN);
+    if (!match) {
+      throw new Error("missing frontmatter (format, level, version)");
+    }
+
+    return {
+      frontmatter: ChecklistFrontmatterSchema.parse(yaml.load(match[1] ?? "")),
+      body: content.slice(match[0].length),
+    };
+  }
+
   /**
    * Parse markdown checklist into structured format
    */
@@ -77,6 +264,7 @@ export class ChecklistLoader {
     const checklist: ChecklistItem[] = [];
     let currentCategory = "";
     let currentItems: string[] = [];
+    let currentAnnotations: Record<string, ChecklistAnnotation> = {};
 
     for (const line of lines) {
       const trimmedLine = line.trim();
@@ -93,19 +281,33 @@ export class ChecklistLoader {
           checklist.push({
             category: currentCategory,
             items: [...currentItems],
+            annotations: currentAnnotations,
           });
         }
 
         // Start new category
         currentCategory = trimmedLine.replace(/^#+\s+/, "");
         currentItems = [];
+        currentAnnotations = {};
         continue;
       }
 
-      // Checklist items (- [ ] format)
+      // Checklist items (- [ ] format), optionally annotated
       if (trimmedLine.startsWith("- [ ]")) {
-        const item = trimmedLine.replace(/^-\s+\[\s+\]\s+/, "");
+        const text = trimmedLine.replace(/^-\s+\[\s+\]\s+/, "");
+        const annotation = text.match(ANNOTATION_PATTERN);
+        const item = annotation ? text.slice(0, annotation.index).trim() : text;
         currentItems.push(item);
+
+        if (annotation?.[1] !== undefined) {
+          try {
+            currentAnnotations[item] = this.parseAnnotation(annotation[1]);
+          } catch (error) {
+            // Unannotated items fall back to the heuristic; the rulepack
+            // linter reports the error
+            console.warn(`Ignoring checklist annotation on '${item}':`, error);
+          }
+        }
         continue;
       }
     }
@@ -115,12 +317,115 @@ export class ChecklistLoader {
       checklist.push({
         category: currentCategory,
         items: currentItems,
+        annotations: currentAnnotations,
       });
     }
 
     return checklist;
   }
 
+  /**
+   * Parse the text of a `<!-- check: ... -->` annotation
+   */
+  static parseAnnotation(text: string): ChecklistAnnotation {
+    const [, kind = "", rest = ""] = text.trim().match(/^(\S+)\s*(.*)$/) ?? [];
+    const fail = (reason: string): never => {
+      throw new ChecklistAnnotationError(
+        `Invalid '${kind}' check: ${reason}`,
+        text
+      );
+    };
+    const parseRegex = (literal: string) => {
+      const match = literal.match(REGEX_LITERAL);
+      if (!match?.[2]) {
+        return fail(`expected /pattern/flags, got '${literal}'`);
+      }
+      try {
+        new RegExp(match[2], match[3]);
+      } catch (error) {
+        return fail(error instanceof Error ? error.message : "invalid pattern");
+      }
+      return {
+        negate: match[1] === "!",
+        pattern: match[2],
+        flags: match[3] ?? "",
+      };
+    };
+
+    switch (kind) {
+      case "regex":
+        return { kind, ...parseRegex(rest) };
+
+      case "section":
+        return /^\w+$/.test(rest)
+          ? { kind, section: rest }
+          : fail("expected a section id");
+
+      case "max-length": {
+        const match = rest.match(/^(?:(\w+)\s+)?(\d+)$/);
+        if (!match?.[2]) {
+          return fail("expected [section] <number>");
+        }
+        return {
+          kind,
+          max: Number(match[2]),
+          ...(match[1] ? { section: match[1] } : {}),
+        };
+      }
+
+      case "count": {
+        const match = rest.match(/^(.+)\s+(<=|>=|=)\s*(\d+)$/);
+        if (!match?.[1] || !match[2] || !match[3]) {
+          return fail("expected /pattern/flags <op> <number>");
+        }
+        const { negate, pattern, flags } = parseRegex(match[1]);
+        if (negate) {
+          return fail("count patterns cannot be negated");
+        }
+        return {
+          kind,
+          pattern,
+          flags,
+          operator: match[2] as "<=" | ">=" | "=",
+          value: Number(match[3]),
+        };
+      }
+
+      case "judge":
+        return rest ? { kind, question: rest } : fail("expected a question");
+
+      default:
+        throw new ChecklistAnnotationError(`Unknown check kind '${kind}'`, text);
+    }
+  }
+
+  /**
+   * Annotations in raw checklist markdown that fail to parse
+   */
+  static findAnnotationErrors(content: string): ChecklistAnnotationError[] {
+    const errors: ChecklistAnnotationError[] = [];
+
+    for (const line of content.split("\n")) {
+      const annotation = line.trim().startsWith("- [ ]")
+        ? line.match(ANNOTATION_PATTERN)
+        : null;
+      if (annotation?.[1] === undefined) {
+        continue;
+      }
+      try {
+        this.parseAnnotation(annotation[1]);
+      } catch (error) {
+        if (error instanceof ChecklistAnnotationError) {
+          errors.push(error);
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * Get checklist metadata
    */
@@ -130,12 +435,14 @@ export class ChecklistLoader {
     version: string = "v1"
   ): Promise<ChecklistMetadata> {
     const checklist = await this.loadChecklist(format, level, version);
+    const frontmatter = await this.loadFrontmatter(format, level, version);
 
     return {
       title: `${format} ${level} 검증 체크리스트 ${version}`,
       version,
       format,
       level,
+      ...(frontmatter.extends ? { extends: frontmatter.extends } : {}),
       categories: checklist.map((item) => item.category),
     };
   }
@@ -174,42 +481,136 @@ export class ChecklistLoader {
   }
 
   /**
-   * Validate content against checklist items
+   * Validate content against checklist items. Annotated items run their
+   * check; the rest fall back to a keyword heuristic. Items that need an LLM
+   * judge are skipped when none is given and do not count towards the score.
+   * `checks` has the evaluated items for ScoringModel, by category.
    */
   static async validateAgainstChecklist(
     content: string,
     format: Format,
     level: ValidationLevel,
-    version: string = "v1"
+    version: string = "v1",
+    judge?: ComplianceJudge
   ): Promise<{
     passed: string[];
     failed: string[];
+    skipped: string[];
+    checks: ScoredCheck[];
     total: number;
     score: number;
   }> {
-    const checklist = await this.getFlatChecklist(format, level, version);
+    const checklist = await this.loadChecklist(format, level, version);
     const passed: string[] = [];
     const failed: string[] = [];
+    const skipped: string[] = [];
+    const checks: ScoredCheck[] = [];
+
+    let spans: Promise<Record<string, SectionSpan>> | undefined;
+    const context: ChecklistContext = {
+      content,
+      getSpans: () =>
+        (spans ??= this.locateSections(content, format, level, version)),
+      ...(judge ? { judge } : {}),
+    };
 
-    // Simple heuristic validation
-    // In production, this would use more sophisticated NLP techniques
-    for (const item of checklist) {
-      const isPassed = this.evaluateChecklistItem(content, item);
-      if (isPassed) {
-        passed.push(item);
-      } else {
-        failed.push(item);
+    for (const { category, items, annotations } of checklist) {
+      for (const item of items) {
+        const annotation = annotations[item];
+        const result = annotation
+          ? await this.evaluateAnnotation(annotation, context)
+          : this.evaluateChecklistItem(content, item);
+
+        if (result === null) {
+          skipped.push(item);
+          continue;
+        }
+        (result ? passed : failed).push(item);
+        checks.push({ id: item, category, severity: "warning", passed: result });
       }
     }
 
+    const evaluated = passed.length + failed.length;
     return {
       passed,
       failed,
-      total: checklist.length,
-      score: Math.round((passed.length / checklist.length) * 100),
+      skipped,
+      checks,
+      total: evaluated + skipped.length,
+      score: evaluated > 0 ? Math.round((passed.length / evaluated) * 100) : 0,
     };
   }
 
+  /**
+   * Run an annotated check; null when it cannot run (a judge check without a
+   * judge)
+   */
+  private static async evaluateAnnotation(
+    annotation: ChecklistAnnotation,
+    context: ChecklistContext
+  ): Promise<boolean | null> {
+    const { content } = context;
+
+    switch (annotation.kind) {
+      case "regex":
+        return (
+          new RegExp(annotation.pattern, annotation.flags).test(content) !==
+          annotation.negate
+        );
+
+      case "section":
+        return annotation.section in (await context.getSpans());
+
+      case "max-length": {
+        const text = annotation.section
+          ? (await context.getSpans())[annotation.section]?.text
+          : content;
+        // A missing section is reported by its own check
+        return (text ?? "").length <= annotation.max;
+      }
+
+      case "count": {
+        const count = findMatches(
+          content,
+          new RegExp(annotation.pattern, annotation.flags)
+        ).length;
+        return annotation.operator === "<="
+          ? count <= annotation.value
+          : annotation.operator === ">="
+            ? count >= annotation.value
+            : count === annotation.value;
+      }
+
+      case "judge":
+        return context.judge
+          ? context.judge(annotation.question, content)
+          : null;
+    }
+  }
+
+  /**
+   * Locate the sections of the format's rulepack version and of the level in
+   * the content
+   */
+  private static async locateSections(
+    content: string,
+    format: Format,
+    level: ValidationLevel,
+    version: string
+  ): Promise<Record<string, SectionSpan>> {
+    const rulepack = await RulepackLoader.loadFormatPack(format, version);
+    const levelGuide = await RulepackLoader.loadLevelGuide(level);
+    const sections = { ...rulepack.sections, ...levelGuide.sections };
+
+    return MarkdownSectionParser.locate(
+      MarkdownSectionParser.parse(content, {
+        labels: MarkdownSectionParser.sectionLabels(sections),
+      }),
+      Object.keys(sections),
+      sections
+    );
+  }
+
   /**
    * Simple heuristic evaluation of checklist item
    */
@@ -0,0 +1,480 @@
+import { type ValidationFinding } from "@/types/rulepack";
+import { findMatches } from "./findings";
+import { type SectionSpan } from "./markdown-sections";
+
+export type ComplianceSeverity = "error" | "warning";
+
+// How a rule is checked: a pattern over the text, the document's structure,
+// or a question put to an LLM judge
+export type ComplianceCheckKind = "regex" | "structural" | "llm";
+
+/**
+ * What a checker sees: the text being validated plus helpers to locate the
+ * rulepack's sections in it
+ */
+export interface ComplianceContext {
+  content: string;
+  requiredSections: string[]; // Section ids, in the order the rulepack lists them
+  findSection: (section: string) => SectionSpan | null; // Where the section is, if present
+  judge?: ComplianceJudge; // Required by "llm" rules, which are skipped without one
+}
+
+/**
+ * Ask an LLM whether the content satisfies a criterion; resolves to true when
+ * it does
+ */
+export type ComplianceJudge = (
+  criterion: string,
+  content: string
+) => Promise<boolean>;
+
+// An issue a checker found. Offsets locate it in the content; issues about
+// the content as a whole have none.
+export interface ComplianceIssue {
+  message: string;
+  start?: number;
+  end?: number;
+  suggestion?: string; // Defaults to the rule's suggestion
+}
+
+// The issues found (a bare message for a single issue about the whole
+// content), or null when the rule is satisfied
+export type ComplianceChecker = (
+  context: ComplianceContext
+) => ComplianceOutcome | Promise<ComplianceOutcome>;
+
+export type ComplianceOutcome = string | ComplianceIssue[] | null;
+
+export interface ComplianceRule {
+  id: string;
+  description: string; // Rendered into generated prompts
+  severity: ComplianceSeverity;
+  kind: ComplianceCheckKind;
+  suggestion: string; // How to fix a violation
+  check: ComplianceChecker;
+}
+
+export interface ComplianceResult {
+  findings: ValidationFinding[];
+  skipped: string[]; // "llm" rules that were not checked for lack of a judge
+}
+
+const PHONE_PATTERN = /\d{2,4}-\d{3,4}-\d{4}/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+// Headings, bullets, numbered items and "label:" lines
+const STRUCTURE_LINE_PATTERN = /^\s*(#{1,6}\s|[-*•]\s|\d+[.)]\s|\S{1,12}:\s)/;
+
+/**
+ * Rule satisfied when the content matches `pattern`
+ */
+function requires(pattern: RegExp, issue: string): ComplianceChecker {
+  return ({ content }) => (pattern.test(content) ? null : issue);
+}
+
+/**
+ * Rule satisfied when the content does not match `pattern`; every match is
+ * reported
+ */
+function forbids(pattern: RegExp, issue: string): ComplianceChecker {
+  return ({ content }) => {
+    const matches = findMatches(content, pattern);
+    return matches.length > 0
+      ? matches.map((match) => ({
+          message: `${issue} ('${match.text.trim()}')`,
+          start: match.start,
+          end: match.end,
+        }))
+      : null;
+  };
+}
+
+const BUILTIN_RULES: ComplianceRule[] = [
+  {
+    id: "facts_required",
+    description: "객관적 사실 기반 작성 필수",
+    severity: "error",
+    kind: "regex",
+    suggestion: "날짜·수치·통계 등 확인 가능한 사실을 넣으세요",
+    check: requires(
+      /\d{4}년|\d+%|\d+명|\d+건|통계|자료|조사|연구/,
+      "객관적 사실 기반 내용이 부족합니다"
+    ),
+  },
+  {
+    id: "source_required",
+    description: "출처 및 근거 명시 필수",
+    severity: "error",
+    kind: "regex",
+    suggestion: "자료의 출처나 근거(기관, 법령 등)를 밝히세요",
+    check: requires(
+      /출처|자료|참고|근거|기준|법령|조례|규정/,
+      "출처나 근거가 명시되지 않았습니다"
+    ),
+  },
+  {
+    id: "objective_tone",
+    description: "객관적 어조 유지",
+    severity: "error",
+    kind: "regex",
+    suggestion: "추측이나 개인 의견 대신 사실로 서술하세요",
+    check: forbids(
+      /아마도|추측|생각|느낌|개인적|주관적/,
+      "객관적 어조가 유지되지 않았습니다"
+    ),
+  },
+  {
+    id: "no_exaggeration",
+    description: "과장된 표현 금지",
+    severity: "error",
+    kind: "regex",
+    suggestion: "과장 표현을 빼고 구체적인 수치나 사실로 바꿔 쓰세요",
+    check: forbids(
+      /매우|극도로|엄청|대단히|놀랍게|획기적|혁신적|최고|최대|최소/,
+      "과장된 표현이 포함되어 있습니다"
+    ),
+  },
+  {
+    id: "evidence_based",
+    description: "증거 기반 내용 작성",
+    severity: "error",
+    kind: "regex",
+    suggestion: "주장을 뒷받침하는 사례나 데이터를 제시하세요",
+    check: requires(
+      /증명|입증|확인|검증|사례|예시|데이터|결과|분석/,
+      "충분한 근거나 증거가 제시되지 않았습니다"
+    ),
+  },
+  {
+    id: "accuracy_required",
+    description: "정확성 검증 필수",
+    severity: "error",
+    kind: "llm",
+    suggestion: "사실관계와 수치를 원자료와 대조해 확인하세요",
+    check: async ({ content, judge }) =>
+      (await judge?.(
+        "사실관계·수치·고유명사에 명백한 오류나 검증할 수 없는 단정이 없는가",
+        content
+      )) === false
+        ? "사실관계나 수치에 정확성을 확인할 수 없는 내용이 있습니다"
+        : null,
+  },
+  {
+    id: "official_tone",
+    description: "공식적 어조 유지",
+    severity: "error",
+    kind: "regex",
+    suggestion: "구어체·비격식 표현을 공식적인 표현으로 바꾸세요",
+    check: forbids(
+      /ㅋ|ㅎ|~|!!|요즘|막|진짜|완전/,
+      "공식적인 어조가 유지되지 않았습니다"
+    ),
+  },
+  {
+    id: "character_limit",
+    description: "글자 수 제한 준수",
+    severity: "warning",
+    kind: "structural",
+    suggestion: "분량 제한(예: 200자 이내)을 명시하세요",
+    check: ({ content }) =>
+      /\d+\s*(자|글자|줄)\s*(이내|이하|내외|미만)/.test(content)
+        ? null
+        : "글자 수 제한이 명시되지 않았습니다",
+  },
+  {
+    id: "platform_optimized",
+    description: "플랫폼 최적화",
+    severity: "warning",
+    kind: "regex",
+    suggestion: "게시할 플랫폼과 그 특성을 반영하세요",
+    check: requires(
+      /플랫폼|모바일|SNS|인스타그램|페이스북|트위터|스레드|카카오|블로그|유튜브|이모지/i,
+      "게시 플랫폼의 특성이 반영되지 않았습니다"
+    ),
+  },
+  {
+    id: "engaging_content",
+    description: "흥미로운 내용 구성",
+    severity: "warning",
+    kind: "regex",
+    suggestion: "질문이나 참여 요청으로 관심을 끌어내세요",
+    check: requires(
+      /\?|참여|공유|댓글|함께|관심|공감/,
+      "관심이나 참여를 끌어내는 요소가 없습니다"
+    ),
+  },
+  {
+    id: "accurate_information",
+    description: "정확한 정보 제공",
+    severity: "error",
+    kind: "regex",
+    suggestion: "확인된 사실만 출처와 함께 쓰세요",
+    check: forbids(
+      /소문|루머|카더라|라고 한다|것 같다/,
+      "확인되지 않은 정보로 보이는 표현이 있습니다"
+    ),
+  },
+  {
+    id: "appropriate_hashtags",
+    description: "적절한 해시태그 사용",
+    severity: "warning",
+    kind: "structural",
+    suggestion: "주제와 관련된 해시태그를 중복 없이 넣으세요",
+    check: ({ content }) => {
+      // The hashtags section's maxCount hint limits how many there are
+      const hashtags = content.match(/#[^\s#]+/g) ?? [];
+      if (hashtags.length === 0 && !content.includes("해시태그")) {
+        return "해시태그가 없습니다";
+      }
+      if (new Set(hashtags).size < hashtags.length) {
+        return "중복된 해시태그가 있습니다";
+      }
+      return null;
+    },
+  },
+  {
+    id: "audience_appropriate",
+    description: "청중에 적합한 내용",
+    severity: "warning",
+    kind: "regex",
+    suggestion: "청중이 누구인지 드러나게 표현하세요",
+    check: requires(
+      /여러분|청중|참석|국민|시민|주민|청년|어르신|학생/,
+      "청중을 고려한 표현이 없습니다"
+    ),
+  },
+  {
+    id: "clear_message",
+    description: "명확한 메시지 전달",
+    severity: "warning",
+    kind: "regex",
+    suggestion: "전달하려는 핵심 메시지를 한 문장으로 밝히세요",
+    check: requires(
+      /핵심|메시지|요지|강조|결론/,
+      "핵심 메시지가 드러나지 않습니다"
+    ),
+  },
+  {
+    id: "logical_flow",
+    description: "논리적 구성",
+    severity: "warning",
+    kind: "structural",
+    suggestion: "섹션을 구성 순서대로 배치하세요",
+    check: ({ requiredSections, findSection }) => {
+      const found = requiredSections
+        .map((section) => findSection(section))
+        .filter((span): span is SectionSpan => span !== null);
+      const outOfOrder = found.filter(
+        (span, index) => index > 0 && span.line < (found[index - 1]?.line ?? 0)
+      );
+      return outOfOrder.length > 0
+        ? outOfOrder.map((span) => ({
+            message: `섹션 순서가 구성과 다릅니다: ${span.id}`,
+            start: span.start,
+            end: span.end,
+          }))
+        : null;
+    },
+  },
+  {
+    id: "respectful_tone",
+    description: "존중하는 어조",
+    severity: "error",
+    kind: "regex",
+    suggestion: "비하 표현을 삭제하고 중립적으로 쓰세요",
+    check: forbids(
+      /바보|멍청|한심|뻔뻔|무능|쓰레기|꼴통/,
+      "상대를 비하하는 표현이 있습니다"
+    ),
+  },
+  {
+    id: "complete_information",
+    description: "완전한 정보 제공",
+    severity: "warning",
+    kind: "regex",
+    suggestion: "일시와 주체(기관·담당자)를 밝히세요",
+    check: ({ content }) => {
+      const hasWhen = /\d{4}년|\d{1,2}월|\d{1,2}일|일시|기간|시점/.test(
+        content
+      );
+      const hasWho =
+        /기관|부처|부서|의원|위원회|담당|주최|정부|시청|구청|[가-힣](부|처|청)(가|는|이|와|에서|장)/.test(
+          content
+        );
+      return hasWhen && hasWho
+        ? null
+        : "일시나 주체 등 기본 정보가 빠져 있습니다";
+    },
+  },
+  {
+    id: "clear_structure",
+    description: "명확한 구조",
+    severity: "warning",
+    kind: "structural",
+    suggestion: "제목과 목록으로 내용을 나누세요",
+    check: ({ content }) =>
+      content.split("\n").filter((line) => STRUCTURE_LINE_PATTERN.test(line))
+        .length >= 3
+        ? null
+        : "제목·목록 등 구조가 드러나지 않습니다",
+  },
+  {
+    id: "contact_included",
+    description: "연락처 정보 포함",
+    severity: "error",
+    kind: "structural",
+    suggestion: "담당 부서와 연락처를 넣으세요",
+    check: ({ content, findSection }) =>
+      findSection("contact") ||
+      PHONE_PATTERN.test(content) ||
+      EMAIL_PATTERN.test(content)
+        ? null
+        : "연락처 정보가 없습니다",
+  },
+  {
+    id: "formal_tone",
+    description: "격식 있는 공문 어조 유지",
+    severity: "error",
+    kind: "regex",
+    suggestion: "'~합니다' 체의 공문 어조로 바꾸세요",
+    check: forbids(
+      /해요|했어요|거든요|ㅋㅋ|ㅎㅎ/,
+      "공문에 맞지 않는 비격식 표현이 있습니다"
+    ),
+  },
+  {
+    id: "legal_basis_required",
+    description: "요청의 법적 근거 명시 필수",
+    severity: "error",
+    kind: "regex",
+    suggestion: "요청 근거가 되는 법령과 조항을 밝히세요",
+    check: requires(
+      /법률|법령|시행령|조례|규정|제\s*\d+\s*조|국정감사|국회법/,
+      "요청의 법적 근거가 명시되지 않았습니다"
+    ),
+  },
+  {
+    id: "data_specification_required",
+    description: "요청 자료의 범위·형식 구체화 필수",
+    severity: "error",
+    kind: "structural",
+    suggestion: "요청 자료의 기간·범위·형식을 구체적으로 적으세요",
+    check: ({ content }) => {
+      const specified = ["형식", "양식", "기간", "범위", "단위", "파일"].filter(
+        (term) => content.includes(term)
+      );
+      return specified.length >= 2
+        ? null
+        : "요청 자료의 범위나 형식이 구체적이지 않습니다";
+    },
+  },
+  {
+    id: "systematic_approach",
+    description: "체계적인 수집·분석 절차 준수",
+    severity: "warning",
+    kind: "regex",
+    suggestion: "수집 기준과 절차를 단계별로 밝히세요",
+    check: requires(
+      /기준|절차|단계|방법|순서/,
+      "수집·분석 절차나 기준이 드러나지 않습니다"
+    ),
+  },
+  {
+    id: "no_bias",
+    description: "편향 없는 키워드·매체 선정",
+    severity: "error",
+    kind: "regex",
+    suggestion: "편향된 표현을 빼고 중립적인 용어로 바꾸세요",
+    check: forbids(/무조건|편파|좌파|우파|종북|적폐/, "편향된 표현이 있습니다"),
+  },
+  {
+    id: "text_output_only",
+    description: "텍스트(마크다운)로만 출력, JSON 금지",
+    severity: "error",
+    kind: "regex",
+    suggestion: "JSON 대신 마크다운 텍스트로 출력하도록 하세요",
+    check: forbids(
+      /```json|^\s*[{[]\s*"/im,
+      "JSON 형식의 출력이 포함되어 있습니다"
+    ),
+  },
+];
+
+/**
+ * Compliance rules by id. Rulepacks reference rules by id in
+ * `complianceRules`; each rule carries its prompt description, the severity
+ * of a violation and the checker that detects one.
+ */
+export class ComplianceRuleRegistry {
+  private static rules = new Map<string, ComplianceRule>(
+    BUILTIN_RULES.map((rule) => [rule.id, rule])
+  );
+
+  /**
+   * Add or replace a rule
+   */
+  static register(rule: ComplianceRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  static get(id: string): ComplianceRule | null {
+    return this.rules.get(id) ?? null;
+  }
+
+  static has(id: string): boolean {
+    return this.rules.has(id);
+  }
+
+  static ids(): string[] {
+    return Array.from(this.rules.keys());
+  }
+
+  /**
+   * Prompt description of a rule, falling back to the id for unknown rules
+   */
+  static describe(id: string): string {
+    return this.rules.get(id)?.description ?? id;
+  }
+
+  /**
+   * Run the given rules. Unknown rule ids are reported as errors; "llm" rules
+   * are skipped when the context has no judge.
+   */
+  static async check(
+    ruleIds: string[],
+    context: ComplianceContext
+  ): Promise<ComplianceResult> {
+    const result: ComplianceResult = { findings: [], skipped: [] };
+
+    for (const id of ruleIds) {
+      const rule = this.rules.get(id);
+      if (!rule) {
+        result.findings.push({
+          ruleId: id,
+          severity: "error",
+          message: `알 수 없는 준수 규칙입니다: ${id}`,
+        });
+        continue;
+      }
+      if (rule.kind === "llm" && !context.judge) {
+        result.skipped.push(id);
+        continue;
+      }
+
+      const outcome = await rule.check(context);
+      const issues =
+        typeof outcome === "string" ? [{ message: outcome }] : (outcome ?? []);
+      result.findings.push(
+        ...issues.map((issue) => ({
+          ruleId: id,
+          severity: rule.severity,
+          suggestion: rule.suggestion,
+          ...issue,
+        }))
+      );
+    }
+
+    return result;
+  }
+}
+
+export default ComplianceRuleRegistry;
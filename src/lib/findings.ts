@@ -0,0 +1,47 @@
+import { type ValidationFinding } from "@/types/rulepack";
+
+export interface TextMatch {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Every match of `pattern` in `text`, with offsets
+ */
+export function findMatches(text: string, pattern: RegExp): TextMatch[] {
+  const flags = pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`;
+  return Array.from(text.matchAll(new RegExp(pattern.source, flags)))
+    .filter((match) => match[0].length > 0)
+    .map((match) => ({
+      text: match[0],
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }));
+}
+
+/**
+ * Every occurrence of a literal term in `text`, ignoring case
+ */
+export function findTerm(text: string, term: string): TextMatch[] {
+  return findMatches(text, new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i"));
+}
+
+/**
+ * Flat error and warning messages for findings, without repeats
+ */
+export function splitFindings(findings: ValidationFinding[]): {
+  errors: string[];
+  warnings: string[];
+} {
+  const messages = (severity: ValidationFinding["severity"]) =>
+    Array.from(
+      new Set(
+        findings
+          .filter((finding) => finding.severity === severity)
+          .map((finding) => finding.message)
+      )
+    );
+
+  return { errors: messages("error"), warnings: messages("warning") };
+}
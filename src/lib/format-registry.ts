@@ -0,0 +1,94 @@
+import {
+  type Format,
+  type FormatDisplay,
+  type ValidationLevel,
+} from "@/types/rulepack";
+import { RulepackLoader } from "./rulepack-loader";
+
+export interface FormatDefinition extends FormatDisplay {
+  id: Format;
+  versions: string[]; // Oldest first
+  defaultVersion: string;
+}
+
+/**
+ * Formats discovered from rulepacks/format. Display name, icon, order and
+ * completion estimates come from each format's default-version rulepack, so
+ * adding a format only takes a new rulepack file. Section labels are not
+ * kept here; they live in each rulepack's sections[].label.
+ */
+export class FormatRegistry {
+  private static formats: Promise<FormatDefinition[]> | null = null;
+
+  /**
+   * All formats, in display order
+   */
+  static async list(): Promise<FormatDefinition[]> {
+    if (!this.formats) {
+      this.formats = this.discover().catch((error) => {
+        this.formats = null;
+        throw error;
+      });
+    }
+    return this.formats;
+  }
+
+  /**
+   * Format ids, in display order
+   */
+  static async ids(): Promise<Format[]> {
+    return (await this.list()).map((format) => format.id);
+  }
+
+  static async get(format: string): Promise<FormatDefinition | null> {
+    return (await this.list()).find((definition) => definition.id === format) ?? null;
+  }
+
+  static async has(format: string): Promise<boolean> {
+    return (await this.get(format)) !== null;
+  }
+
+  /**
+   * Display name of a format, falling back to the id for unknown formats
+   */
+  static async getDisplayName(format: string): Promise<string> {
+    return (await this.get(format))?.name ?? format;
+  }
+
+  /**
+   * Expected completion tokens for a format at a level
+   */
+  static async getCompletionEstimate(
+    format: string,
+    level: ValidationLevel
+  ): Promise<number | null> {
+    return (await this.get(format))?.completionEstimate[level] ?? null;
+  }
+
+  /**
+   * Forget discovered formats (after rulepack files change)
+   */
+  static clear(): void {
+    this.formats = null;
+  }
+
+  private static async discover(): Promise<FormatDefinition[]> {
+    const formats = await RulepackLoader.getAvailableFormats();
+    const definitions = await Promise.all(
+      formats.map(async (id) => {
+        const defaultVersion = await RulepackLoader.resolveVersion(id);
+        const { display } = await RulepackLoader.loadFormatPack(id, defaultVersion);
+        return {
+          id,
+          ...display,
+          versions: await RulepackLoader.getAvailableVersions(id),
+          defaultVersion,
+        };
+      })
+    );
+
+    return definitions.sort((a, b) => a.order - b.order || a.id.localeCompare(b.id));
+  }
+}
+
+export default FormatRegistry;
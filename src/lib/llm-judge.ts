@@ -0,0 +1,286 @@
+import { createHash } from 'crypto';
+import { ZodError } from 'zod';
+
+import {
+  JudgeVerdictSchema,
+  type AnyRulepack,
+  type Format,
+  type Judgment,
+  type RequestMetadata,
+  type ValidationFinding,
+  type ValidationLevel
+} from '@/types/rulepack';
+
+import { ChecklistLoader, ChecklistNotFoundError, type ChecklistItem } from './checklist-loader';
+import { type ComplianceJudge } from './compliance-rules';
+import { findTerm } from './findings';
+import { type LLMRequest, type LLMResponse, LLMError, getLLMClient } from './llm-client';
+import PromptGenerator, {
+  type JudgeCriterion,
+  type JudgePromptConfig,
+  type PromptCheckResult
+} from './prompt-generator';
+import { RulepackLoader } from './rulepack-loader';
+
+export interface JudgeRequest extends JudgePromptConfig {
+  format: Format;
+  level: ValidationLevel;
+  requestId: string;
+  metadata?: RequestMetadata;
+}
+
+export interface JudgeResult {
+  judgments: Judgment[]; // One per criterion, in criteria order
+  cached: boolean; // Every verdict was reused, so no call was made
+}
+
+// Sees the response of every judge call made
+export type JudgeUsageHandler = (response: LLMResponse) => void | Promise<void>;
+
+// Around every judge call: `beforeCall` may refuse the call by throwing
+// (e.g. past a token budget), `onUsage` sees its response
+export interface JudgeHooks {
+  beforeCall?: (request: LLMRequest) => void | Promise<void>;
+  onUsage?: JudgeUsageHandler;
+}
+
+// Verdicts kept in memory; the oldest is dropped beyond this
+const MAX_CACHED_VERDICTS = 500;
+
+// Completion tokens one judgment may take, with its reason and quote; a call
+// grades as many criteria as the level's output limit holds judgments for
+const TOKENS_PER_JUDGMENT = 50;
+
+/**
+ * LLM-as-judge: asks the configured provider to grade a prompt or content
+ * against criteria with a strict JSON rubric. Verdicts are cached by a hash
+ * of the model, criteria and text.
+ */
+export class LLMJudge {
+  private static cache = new Map<string, Judgment[]>();
+
+  /**
+   * The rulepack's dos and donts as criteria, followed by the items of the
+   * format and level's checklist that have no check of their own (see
+   * ChecklistLoader); annotated items are checked by the checklist itself
+   */
+  static async criteriaFor(
+    rulepack: Pick<AnyRulepack, 'dos' | 'donts'>,
+    format: Format,
+    level: ValidationLevel
+  ): Promise<JudgeCriterion[]> {
+    let checklist: ChecklistItem[] = [];
+    try {
+      checklist = await ChecklistLoader.loadChecklist(format, level);
+    } catch (error) {
+      if (!(error instanceof ChecklistNotFoundError)) {
+        throw error;
+      }
+    }
+    const items = checklist.flatMap(({ items, annotations }) => items.filter(item => !annotations[item]));
+
+    return [
+      ...rulepack.dos.map((text, i) => ({ id: `do_${i + 1}`, kind: 'do' as const, text })),
+      ...rulepack.donts.map((text, i) => ({ id: `dont_${i + 1}`, kind: 'dont' as const, text })),
+      ...items.map((text, i) => ({ id: `check_${i + 1}`, kind: 'check' as const, text })),
+    ];
+  }
+
+  /**
+   * Grade a text against every criterion, a batch of criteria per call so
+   * each verdict fits the level's output limit. Verdicts are reused for the
+   * same model, criteria and text, and reused ones make no call.
+   *
+   * @throws LLMError with code INVALID_JUDGMENT when the verdict does not
+   * follow the rubric
+   */
+  static async grade(
+    request: JudgeRequest,
+    signal?: AbortSignal,
+    hooks: JudgeHooks = {}
+  ): Promise<JudgeResult> {
+    if (request.criteria.length === 0) {
+      return { judgments: [], cached: false };
+    }
+
+    const { tokenLimits } = await RulepackLoader.loadLevelGuide(request.level);
+    const batchSize = Math.max(1, Math.floor(tokenLimits.output / TOKENS_PER_JUDGMENT));
+
+    const judgments: Judgment[] = [];
+    let cached = true;
+    for (let i = 0; i < request.criteria.length; i += batchSize) {
+      const batch = await this.gradeBatch(
+        { ...request, criteria: request.criteria.slice(i, i + batchSize) },
+        signal,
+        hooks
+      );
+      judgments.push(...batch.judgments);
+      if (batch.response) {
+        cached = false;
+        await hooks.onUsage?.(batch.response);
+      }
+    }
+
+    return { judgments, cached };
+  }
+
+  /**
+   * Grade a text against criteria in one call, or from the cache
+   */
+  private static async gradeBatch(
+    request: JudgeRequest,
+    signal: AbortSignal | undefined,
+    hooks: JudgeHooks
+  ): Promise<{ judgments: Judgment[]; response?: LLMResponse }> {
+    const client = getLLMClient();
+    const key = createHash('sha256')
+      .update(JSON.stringify([client.getConfig().model, request.subject, request.criteria, request.text]))
+      .digest('hex');
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      return { judgments: cached };
+    }
+
+    const { systemPrompt, userPrompt } = PromptGenerator.generateJudgePrompts(request);
+    const llmRequest: LLMRequest = {
+      systemPrompt,
+      userPrompt,
+      format: request.format,
+      level: request.level,
+      requestId: request.requestId,
+      purpose: 'judge',
+      responseFormat: 'json',
+      ...(request.metadata ? { metadata: request.metadata } : {}),
+    };
+    await hooks.beforeCall?.(llmRequest);
+    const response = await client.generateContent(llmRequest, signal);
+
+    const judgments = this.parse(response.content, request.criteria);
+    this.cache.set(key, judgments);
+    if (this.cache.size > MAX_CACHED_VERDICTS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    return { judgments, response };
+  }
+
+  /**
+   * Parse a model response into one judgment per criterion. Tolerates code
+   * fences and text around the JSON object, but not missing, unknown or
+   * repeated criterion ids.
+   */
+  static parse(content: string, criteria: JudgeCriterion[]): Judgment[] {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+
+    if (start === -1 || end <= start) {
+      throw new LLMError('Judge response does not contain a JSON object', 'INVALID_JUDGMENT');
+    }
+
+    let judgments: Judgment[];
+    try {
+      judgments = JudgeVerdictSchema.parse(JSON.parse(content.slice(start, end + 1))).judgments;
+    } catch (error) {
+      throw new LLMError(
+        `Invalid judge response: ${error instanceof ZodError
+          ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+          : error instanceof Error ? error.message : 'Unknown error'}`,
+        'INVALID_JUDGMENT'
+      );
+    }
+
+    const ids = judgments.map(judgment => judgment.id);
+    const missing = criteria.filter(criterion => !ids.includes(criterion.id)).map(criterion => criterion.id);
+    const unexpected = ids.filter((id, i) =>
+      ids.indexOf(id) !== i || !criteria.some(criterion => criterion.id === id)
+    );
+
+    if (missing.length > 0 || unexpected.length > 0) {
+      throw new LLMError(
+        `Invalid judge response: ${[
+          ...(missing.length > 0 ? [`missing ${missing.join(', ')}`] : []),
+          ...(unexpected.length > 0 ? [`unexpected ${unexpected.join(', ')}`] : []),
+        ].join('; ')}`,
+        'INVALID_JUDGMENT'
+      );
+    }
+
+    return criteria.map(criterion => judgments.find(judgment => judgment.id === criterion.id)!);
+  }
+
+  /**
+   * A judge for compliance rules and checklist questions, grading one
+   * criterion at a time. `hooks` see every judge call that is made.
+   */
+  static complianceJudge(
+    request: Omit<JudgeRequest, 'text' | 'criteria'>,
+    hooks: JudgeHooks = {},
+    signal?: AbortSignal
+  ): ComplianceJudge {
+    return async (criterion, content) => {
+      const result = await this.grade({
+        ...request,
+        text: content,
+        criteria: [{ id: 'check', kind: 'check', text: criterion }],
+      }, signal, hooks);
+
+      return result.judgments[0]!.passed;
+    };
+  }
+
+  /**
+   * Warnings for the failed judgments, located at the quoted passage when
+   * the text contains it
+   */
+  static toFindings(judgments: Judgment[], criteria: JudgeCriterion[], text: string): ValidationFinding[] {
+    return judgments.flatMap(judgment => {
+      const criterion = criteria.find(c => c.id === judgment.id);
+      if (judgment.passed || !criterion) {
+        return [];
+      }
+
+      const location = judgment.quote ? findTerm(text, judgment.quote)[0] : undefined;
+      return [{
+        ruleId: 'llm_judge',
+        severity: 'warning' as const,
+        message: `LLM 판정 미충족 - ${criterion.text}: ${judgment.reason}`,
+        suggestion: suggestionFor(criterion),
+        ...(location ? { start: location.start, end: location.end } : {}),
+      }];
+    });
+  }
+
+  /**
+   * One check per judgment, named after its criterion; scoring weights may
+   * target criterion ids
+   */
+  static toChecks(judgments: Judgment[], criteria: JudgeCriterion[]): PromptCheckResult[] {
+    return judgments.flatMap(judgment => {
+      const criterion = criteria.find(c => c.id === judgment.id);
+      return criterion ? [{
+        id: judgment.id,
+        name: criterion.text,
+        category: 'LLM 판정',
+        severity: 'warning' as const,
+        passed: judgment.passed,
+        ...(judgment.passed ? {} : { suggestion: suggestionFor(criterion) }),
+      }] : [];
+    });
+  }
+
+  /**
+   * Forget cached verdicts
+   */
+  static clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+function suggestionFor(criterion: JudgeCriterion): string {
+  return criterion.kind === 'dont'
+    ? `다음에 해당하는 내용을 빼세요: ${criterion.text}`
+    : `다음을 반영하세요: ${criterion.text}`;
+}
+
+export default LLMJudge;
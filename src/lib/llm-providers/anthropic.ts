@@ -0,0 +1,239 @@
+import { readSSE } from '../sse';
+import {
+  type DeltaHandler,
+  type LLMConfig,
+  type LLMProvider,
+  type ProviderCompletion,
+  type ProviderRequest
+} from './types';
+import {
+  LLMConfigError,
+  LLMError,
+  LLMRateLimitError,
+  LLMTokenLimitError
+} from './errors';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Subset of the Messages API response we rely on
+interface MessagesResponse {
+  model: string;
+  content: { type: string; text?: string }[];
+  stop_reason: string | null;
+  usage: MessagesUsage & {
+    output_tokens: number;
+  };
+}
+
+// Input usage; input_tokens excludes tokens read from the prompt cache
+interface MessagesUsage {
+  input_tokens: number;
+  cache_read_input_tokens?: number | null;
+}
+
+// Stream events we consume (message_start, content_block_delta, message_delta, error)
+interface MessagesStreamEvent {
+  type: string;
+  message?: { model: string; usage: MessagesUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: { output_tokens: number };
+  error?: { type?: string; message?: string };
+}
+
+interface MessagesErrorBody {
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Provider for the Anthropic Messages API (or any gateway exposing it)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor() {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new LLMConfigError('ANTHROPIC_API_KEY environment variable is required');
+    }
+
+    this.apiKey = process.env.ANTHROPIC_API_KEY;
+    this.baseUrl = (process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/$/, '');
+  }
+
+  async complete(request: ProviderRequest, config: LLMConfig): Promise<ProviderCompletion> {
+    const response = await this.request('/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify(this.buildBody(request, config)),
+      signal: request.signal,
+    }, config, request.requestId);
+
+    const message = (await response.json()) as MessagesResponse;
+    const content = message.content
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('');
+
+    if (!content) {
+      throw new LLMError(`No content in completion response. Finish reason: ${message.stop_reason}`, 'NO_CONTENT');
+    }
+
+    const cachedPromptTokens = message.usage.cache_read_input_tokens || 0;
+    const promptTokens = message.usage.input_tokens + cachedPromptTokens;
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens: message.usage.output_tokens,
+        totalTokens: promptTokens + message.usage.output_tokens,
+        cachedPromptTokens,
+      },
+      model: message.model,
+      finishReason: message.stop_reason || 'unknown',
+    };
+  }
+
+  async stream(request: ProviderRequest, config: LLMConfig, onDelta: DeltaHandler): Promise<ProviderCompletion> {
+    const response = await this.request('/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({ ...this.buildBody(request, config), stream: true }),
+      signal: request.signal,
+    }, config, request.requestId);
+
+    if (!response.body) {
+      throw new LLMError('Streaming response has no body', 'NO_CONTENT');
+    }
+
+    let content = '';
+    let model = config.model;
+    let finishReason = 'unknown';
+    let promptTokens = 0;
+    let cachedPromptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const { data } of readSSE(response.body)) {
+      const event = JSON.parse(data) as MessagesStreamEvent;
+
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          cachedPromptTokens = event.message?.usage.cache_read_input_tokens || 0;
+          promptTokens = (event.message?.usage.input_tokens || 0) + cachedPromptTokens;
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text;
+            onDelta(event.delta.text);
+          }
+          break;
+        case 'message_delta':
+          finishReason = event.delta?.stop_reason || finishReason;
+          completionTokens = event.usage?.output_tokens || completionTokens;
+          break;
+        case 'error':
+          throw new LLMError(
+            `Anthropic API error: ${event.error?.message || 'stream error'}`,
+            'ANTHROPIC_STREAM',
+            { type: event.error?.type }
+          );
+      }
+    }
+
+    if (!content) {
+      throw new LLMError(`No content in completion response. Finish reason: ${finishReason}`, 'NO_CONTENT');
+    }
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        cachedPromptTokens,
+      },
+      model,
+      finishReason,
+    };
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await this.request('/v1/models', { method: 'GET' });
+    const body = (await response.json()) as { data: { id: string }[] };
+    return body.data.map(model => model.id).sort();
+  }
+
+  /**
+   * Map LLMConfig onto Messages API parameters. The system prompt is sent
+   * separately and there are no penalty parameters.
+   */
+  private buildBody(request: ProviderRequest, config: LLMConfig): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: config.model,
+      system: request.systemPrompt,
+      messages: [{ role: 'user', content: request.userPrompt }],
+      max_tokens: request.maxOutputTokens,
+      temperature: config.temperature,
+    };
+
+    // Newer models reject temperature and top_p together; only send a non-default top_p
+    if (config.topP !== 1) {
+      delete body.temperature;
+      body.top_p = config.topP;
+    }
+
+    return body;
+  }
+
+  private async request(
+    path: string,
+    init: RequestInit,
+    config?: LLMConfig,
+    requestId?: string
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+    });
+
+    if (response.ok) {
+      return response;
+    }
+
+    const errorBody = (await response.json().catch(() => ({}))) as MessagesErrorBody;
+    const message = errorBody.error?.message || response.statusText;
+
+    console.error(`[${requestId ?? 'anthropic'}] Anthropic API Error:`, {
+      status: response.status,
+      message,
+      type: errorBody.error?.type,
+    });
+
+    if (response.status === 429) {
+      const retryAfterHeader = response.headers.get('retry-after');
+      throw new LLMRateLimitError(retryAfterHeader ? parseInt(retryAfterHeader) : undefined);
+    }
+
+    if (response.status === 400 && message.includes('tokens')) {
+      throw new LLMTokenLimitError(0, config?.maxTokens ?? 0);
+    }
+
+    if (response.status === 404 && config) {
+      throw new LLMError(
+        `Anthropic API error: ${message} - Model '${config.model}' may not be available`,
+        'INVALID_MODEL',
+        { status: response.status, model: config.model }
+      );
+    }
+
+    throw new LLMError(
+      `Anthropic API error: ${message}`,
+      `ANTHROPIC_${response.status}`,
+      { status: response.status, type: errorBody.error?.type }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+// Error types
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+export class LLMTimeoutError extends LLMError {
+  constructor(timeout: number) {
+    super(`LLM request timed out after ${timeout}ms`, 'TIMEOUT');
+  }
+}
+
+export class LLMAbortedError extends LLMError {
+  constructor() {
+    super('LLM request was cancelled', 'ABORTED');
+  }
+}
+
+export class LLMRateLimitError extends LLMError {
+  constructor(retryAfter?: number) {
+    super('LLM rate limit exceeded', 'RATE_LIMIT', { retryAfter });
+  }
+}
+
+export class LLMTokenLimitError extends LLMError {
+  // allocation: what did not fit, e.g. 'user' for the user prompt's share
+  constructor(requested: number, limit: number, allocation?: string) {
+    super(`Token limit exceeded${allocation ? ` (${allocation})` : ''}: ${requested} > ${limit}`, 'TOKEN_LIMIT', {
+      requested,
+      limit,
+      ...(allocation ? { allocation } : {}),
+    });
+  }
+}
+
+export class LLMConfigError extends LLMError {
+  constructor(message: string) {
+    super(message, 'CONFIG');
+  }
+}
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  type DeltaHandler,
+  type LLMConfig,
+  type LLMProvider,
+  type ProviderCompletion,
+  type ProviderRequest
+} from './types';
+import { LLMConfigError, LLMError } from './errors';
+import { emitInChunks } from './mock';
+
+export type FixtureMode = 'replay' | 'record';
+
+// Recorded completion stored as fixtures/llm/<key>.json
+export interface LLMFixture {
+  key: string;
+  format: string;
+  level: string;
+  topic?: string;
+  recordedAt: string;
+  completion: ProviderCompletion;
+}
+
+/**
+ * Replays recorded completions keyed by format/level/topic hash, so the full
+ * pipeline runs without network access. In record mode every request is
+ * forwarded to an upstream provider and the completion is written to disk.
+ *
+ * Lookup order on replay: `<format>_<level>_<hash>`, `<format>_<level>_default`,
+ * `<format>_default`. Non-generation requests (e.g. rewrites) are looked up
+ * under `<format>_<purpose>` instead of `<format>`.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  private mode: FixtureMode;
+  private fixtureDir: string;
+
+  constructor(private upstream?: LLMProvider) {
+    this.mode = resolveFixtureMode();
+    this.fixtureDir = process.env.LLM_FIXTURE_DIR || join(process.cwd(), 'fixtures/llm');
+
+    if (this.mode === 'record' && !upstream) {
+      throw new LLMConfigError('Fixture record mode requires an upstream provider (LLM_FIXTURE_UPSTREAM)');
+    }
+  }
+
+  async complete(request: ProviderRequest, config: LLMConfig): Promise<ProviderCompletion> {
+    const key = FixtureProvider.getFixtureKey(request);
+
+    if (this.mode === 'record') {
+      const completion = await this.upstream!.complete(request, config);
+      await this.writeFixture(this.toFixture(request, completion));
+      return completion;
+    }
+
+    const scope = FixtureProvider.getFixtureScope(request);
+    const candidates = [key, `${scope}_${request.level}_default`, `${scope}_default`];
+    for (const candidate of candidates) {
+      const fixture = await this.readFixture(candidate);
+      if (fixture) {
+        console.log(`[${request.requestId}] Replaying LLM fixture ${candidate}`);
+        return fixture.completion;
+      }
+    }
+
+    throw new LLMError(
+      `No LLM fixture found for ${key}. Record one with LLM_FIXTURE_MODE=record`,
+      'FIXTURE_NOT_FOUND',
+      { key, candidates, fixtureDir: this.fixtureDir }
+    );
+  }
+
+  async stream(request: ProviderRequest, config: LLMConfig, onDelta: DeltaHandler): Promise<ProviderCompletion> {
+    if (this.mode === 'record') {
+      const completion = await this.upstream!.stream(request, config, onDelta);
+      await this.writeFixture(this.toFixture(request, completion));
+      return completion;
+    }
+
+    const completion = await this.complete(request, config);
+    await emitInChunks(completion.content, onDelta, request.signal);
+    return completion;
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.upstream ? this.upstream.listModels() : ['fixture'];
+  }
+
+  /**
+   * Fixture key for a request: format (plus purpose for anything other than
+   * generation), level and a hash of the topic (or of the prompts when no
+   * topic is given)
+   */
+  static getFixtureKey(
+    request: Pick<ProviderRequest, 'format' | 'level' | 'topic' | 'purpose' | 'systemPrompt' | 'userPrompt'>
+  ): string {
+    const source = request.topic
+      ? request.topic.trim().replace(/\s+/g, ' ')
+      : `${request.systemPrompt}\n${request.userPrompt}`;
+    const hash = createHash('sha256').update(source).digest('hex').slice(0, 12);
+    return `${FixtureProvider.getFixtureScope(request)}_${request.level}_${hash}`;
+  }
+
+  private static getFixtureScope(request: Pick<ProviderRequest, 'format' | 'purpose'>): string {
+    return request.purpose && request.purpose !== 'generate'
+      ? `${request.format}_${request.purpose}`
+      : request.format;
+  }
+
+  private toFixture(request: ProviderRequest, completion: ProviderCompletion): LLMFixture {
+    return {
+      key: FixtureProvider.getFixtureKey(request),
+      format: request.format,
+      level: request.level,
+      ...(request.topic ? { topic: request.topic } : {}),
+      recordedAt: new Date().toISOString(),
+      completion,
+    };
+  }
+
+  private async readFixture(key: string): Promise<LLMFixture | null> {
+    try {
+      const content = await readFile(join(this.fixtureDir, `${key}.json`), 'utf-8');
+      return JSON.parse(content) as LLMFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new LLMError(
+        `Failed to read LLM fixture ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'FIXTURE_INVALID',
+        { key }
+      );
+    }
+  }
+
+  private async writeFixture(fixture: LLMFixture): Promise<void> {
+    await mkdir(this.fixtureDir, { recursive: true });
+    await writeFile(
+      join(this.fixtureDir, `${fixture.key}.json`),
+      JSON.stringify(fixture, null, 2) + '\n',
+      'utf-8'
+    );
+  }
+}
+
+function resolveFixtureMode(value: string | undefined = process.env.LLM_FIXTURE_MODE): FixtureMode {
+  const mode = value || 'replay';
+  if (mode !== 'replay' && mode !== 'record') {
+    throw new LLMConfigError(`Unsupported LLM_FIXTURE_MODE '${value}'. Expected replay or record`);
+  }
+  return mode;
+}
@@ -0,0 +1,96 @@
+import { type LLMProvider, type LLMProviderName } from './types';
+import { LLMConfigError } from './errors';
+import { OpenAIProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { MockProvider } from './mock';
+import { FixtureProvider } from './fixture';
+
+export * from './types';
+export * from './errors';
+export { FixtureProvider } from './fixture';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'openai_compatible', 'mock', 'fixture'];
+
+/**
+ * Resolve the provider name from LLM_PROVIDER (defaults to openai)
+ */
+export function resolveProviderName(value: string | undefined = process.env.LLM_PROVIDER): LLMProviderName {
+  const name = (value || 'openai') as LLMProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new LLMConfigError(
+      `Unsupported LLM_PROVIDER '${value}'. Expected one of: ${PROVIDER_NAMES.join(', ')}`
+    );
+  }
+  return name;
+}
+
+/**
+ * Default model for a provider. LLM_MODEL overrides every provider.
+ */
+export function resolveModel(provider: LLMProviderName): string {
+  if (process.env.LLM_MODEL) {
+    return process.env.LLM_MODEL;
+  }
+
+  switch (provider) {
+    case 'openai':
+      return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    case 'anthropic':
+      return process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest';
+    case 'openai_compatible':
+      return 'local-model';
+    case 'mock':
+      return 'mock-1';
+    case 'fixture':
+      // Recording keeps the upstream model; replay reports the recorded one
+      return process.env.LLM_FIXTURE_MODE === 'record'
+        ? resolveModel(resolveFixtureUpstream())
+        : 'fixture';
+  }
+}
+
+/**
+ * Model of the configured provider; empty when the provider configuration
+ * is invalid
+ */
+export function configuredModel(): string {
+  try {
+    return resolveModel(resolveProviderName());
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Create the provider for the given name
+ */
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'openai_compatible':
+      return new OpenAICompatibleProvider();
+    case 'mock':
+      return new MockProvider();
+    case 'fixture':
+      return new FixtureProvider(
+        process.env.LLM_FIXTURE_MODE === 'record'
+          ? createLLMProvider(resolveFixtureUpstream())
+          : undefined
+      );
+  }
+}
+
+/**
+ * Provider that fixture record mode forwards to (LLM_FIXTURE_UPSTREAM, defaults to openai)
+ */
+function resolveFixtureUpstream(): LLMProviderName {
+  const upstream = resolveProviderName(process.env.LLM_FIXTURE_UPSTREAM);
+  if (upstream === 'fixture') {
+    throw new LLMConfigError('LLM_FIXTURE_UPSTREAM cannot be fixture');
+  }
+  return upstream;
+}
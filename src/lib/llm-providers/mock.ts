@@ -0,0 +1,167 @@
+import { createHash } from 'crypto';
+import {
+  type DeltaHandler,
+  type LLMConfig,
+  type LLMProvider,
+  type ProviderCompletion,
+  type ProviderRequest
+} from './types';
+import { LLMAbortedError } from './errors';
+import { countTokens } from '../tokenizer';
+
+/**
+ * Deterministic offline provider. The same request always yields the same
+ * completion, assembled from the topic lines of the user prompt and the
+ * guideline bullets of the system prompt. Normalization requests get a JSON
+ * topic interpretation and judge requests a JSON verdict instead.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  async complete(request: ProviderRequest, config: LLMConfig): Promise<ProviderCompletion> {
+    if (request.purpose === 'normalize') {
+      return this.completeNormalization(request, config);
+    }
+    if (request.purpose === 'judge') {
+      return this.completeJudgment(request, config);
+    }
+
+    const digest = createHash('sha256')
+      .update(request.systemPrompt)
+      .update('\n')
+      .update(request.userPrompt)
+      .digest('hex')
+      .slice(0, 8);
+
+    const topicLines = request.userPrompt
+      .split('\n')
+      .filter(line => /^(📌|📄|📊)/.test(line));
+    const guidelineLines = request.systemPrompt
+      .split('\n')
+      .filter(line => line.startsWith('•'))
+      .slice(0, 12);
+
+    const content = [
+      `당신은 ${request.format} 작성 전문가입니다.`,
+      `다음 주제와 조건에 맞춰 높은 품질의 결과물을 작성해주세요.`,
+      '',
+      ...topicLines,
+      '',
+      `📋 구성 및 작성 지침:`,
+      ...guidelineLines,
+      '',
+      `[mock:${digest}]`,
+    ].join('\n');
+
+    const promptTokens = countTokens(request.systemPrompt + request.userPrompt, config.model);
+    const completionTokens = Math.min(countTokens(content, config.model), request.maxOutputTokens);
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      model: config.model,
+      finishReason: 'stop',
+    };
+  }
+
+  /**
+   * Topic interpretation as JSON, derived from the raw topic only
+   */
+  private completeNormalization(request: ProviderRequest, config: LLMConfig): ProviderCompletion {
+    const topic = (request.topic || '').trim();
+    const content = JSON.stringify({
+      domain: `${topic.split(/\s+/)[0] || '일반'} 분야`,
+      keyMessages: [topic],
+      stakeholders: ['국민', '소관 부처'],
+      risks: ['사실관계 및 수치 출처 확인 필요'],
+    });
+
+    const promptTokens = countTokens(request.systemPrompt + request.userPrompt, config.model);
+    const completionTokens = countTokens(content, config.model);
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      model: config.model,
+      finishReason: 'stop',
+    };
+  }
+
+  /**
+   * Verdict for every `[id] label: text` criterion of the system prompt. A
+   * criterion to avoid fails when the text between the <<< >>> markers
+   * contains it verbatim; every other criterion passes.
+   */
+  private completeJudgment(request: ProviderRequest, config: LLMConfig): ProviderCompletion {
+    const lines = request.userPrompt.split('\n');
+    const start = lines.indexOf('<<<');
+    const end = lines.lastIndexOf('>>>');
+    const text = start !== -1 && end > start ? lines.slice(start + 1, end).join('\n') : '';
+
+    const judgments = request.systemPrompt.split('\n').flatMap(line => {
+      const match = /^\[(\w+)\] ([^:]+): (.+)$/.exec(line);
+      if (!match) {
+        return [];
+      }
+      const [, id, label, criterion] = match;
+      const found = label === '피해야 할 것' && text.includes(criterion!);
+      return [found
+        ? { id, passed: false, reason: `'${criterion}'에 해당하는 내용이 있습니다.`, quote: criterion }
+        : { id, passed: true, reason: '기준을 충족합니다.' }];
+    });
+    const content = JSON.stringify({ judgments });
+
+    const promptTokens = countTokens(request.systemPrompt + request.userPrompt, config.model);
+    const completionTokens = countTokens(content, config.model);
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      model: config.model,
+      finishReason: 'stop',
+    };
+  }
+
+  async stream(request: ProviderRequest, config: LLMConfig, onDelta: DeltaHandler): Promise<ProviderCompletion> {
+    const completion = await this.complete(request, config);
+    await emitInChunks(completion.content, onDelta, request.signal);
+    return completion;
+  }
+
+  async listModels(): Promise<string[]> {
+    return ['mock-1'];
+  }
+}
+
+/**
+ * Replay a finished completion as a stream of small deltas, yielding to the
+ * event loop between chunks so cancellation can take effect
+ */
+export async function emitInChunks(
+  content: string,
+  onDelta: DeltaHandler,
+  signal: AbortSignal,
+  chunkSize: number = 12
+): Promise<void> {
+  const delayMs = parseInt(process.env.LLM_MOCK_STREAM_DELAY_MS || '0');
+
+  for (let i = 0; i < content.length; i += chunkSize) {
+    if (signal.aborted) {
+      throw new LLMAbortedError();
+    }
+    onDelta(content.slice(i, i + chunkSize));
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+}
@@ -0,0 +1,87 @@
+import OpenAI from 'openai';
+import {
+  type DeltaHandler,
+  type LLMConfig,
+  type LLMProvider,
+  type ProviderCompletion,
+  type ProviderRequest
+} from './types';
+import { LLMConfigError } from './errors';
+import { collectOpenAIStream, mapOpenAIError, toProviderCompletion } from './openai';
+
+/**
+ * Any endpoint that speaks the OpenAI chat completions protocol
+ * (vLLM, Ollama, LM Studio, an internal gateway, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai_compatible' as const;
+  private client: OpenAI;
+
+  constructor() {
+    if (!process.env.LLM_BASE_URL) {
+      throw new LLMConfigError('LLM_BASE_URL environment variable is required for openai_compatible provider');
+    }
+
+    this.client = new OpenAI({
+      baseURL: process.env.LLM_BASE_URL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+    });
+  }
+
+  async complete(request: ProviderRequest, config: LLMConfig): Promise<ProviderCompletion> {
+    try {
+      const completion = await this.client.chat.completions.create(this.buildParams(request, config), {
+        signal: request.signal,
+      });
+      return toProviderCompletion(completion, request.requestId);
+    } catch (error) {
+      throw mapOpenAIError(error, config, request.requestId);
+    }
+  }
+
+  async stream(request: ProviderRequest, config: LLMConfig, onDelta: DeltaHandler): Promise<ProviderCompletion> {
+    try {
+      // Not every compatible server reports usage on streams; missing usage is reported as 0
+      const stream = await this.client.chat.completions.create(
+        {
+          ...this.buildParams(request, config),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal }
+      );
+      return await collectOpenAIStream(stream, config, onDelta);
+    } catch (error) {
+      throw mapOpenAIError(error, config, request.requestId);
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await this.client.models.list();
+    return response.data.map(model => model.id).sort();
+  }
+
+  /**
+   * Compatible servers implement the classic parameter set only
+   */
+  private buildParams(
+    request: ProviderRequest,
+    config: LLMConfig
+  ): OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: config.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      stream: false,
+      temperature: config.temperature,
+      top_p: config.topP,
+      frequency_penalty: config.frequencyPenalty,
+      presence_penalty: config.presencePenalty,
+      max_tokens: request.maxOutputTokens,
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+  }
+}
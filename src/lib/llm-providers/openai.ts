@@ -0,0 +1,258 @@
+import OpenAI from 'openai';
+import {
+  type DeltaHandler,
+  type LLMConfig,
+  type LLMProvider,
+  type ProviderCompletion,
+  type ProviderRequest
+} from './types';
+import {
+  LLMConfigError,
+  LLMError,
+  LLMRateLimitError,
+  LLMTokenLimitError
+} from './errors';
+
+/**
+ * Translate OpenAI SDK errors into LLMError. Shared by every provider that
+ * talks to an OpenAI-style endpoint through the SDK.
+ */
+export function mapOpenAIError(
+  error: unknown,
+  config: LLMConfig,
+  requestId: string
+): unknown {
+  if (!(error instanceof OpenAI.APIError)) {
+    return error;
+  }
+
+  // Log detailed error information for debugging
+  console.error(`[${requestId}] ${config.provider} API Error:`, {
+    status: error.status,
+    message: error.message,
+    type: error.type,
+    code: error.code
+  });
+
+  if (error.status === 429) {
+    const retryAfterHeader = error.headers?.get('retry-after');
+    const retryAfter = retryAfterHeader ? parseInt(retryAfterHeader) : undefined;
+    return new LLMRateLimitError(retryAfter);
+  }
+
+  if (error.status === 400 && error.message.includes('tokens')) {
+    return new LLMTokenLimitError(0, config.maxTokens);
+  }
+
+  // Handle invalid model error more specifically
+  if (error.status === 400 && (error.message.includes('model') || error.message.includes('invalid'))) {
+    return new LLMError(
+      `${config.provider} API error: ${error.message} - Model '${config.model}' may not be available`,
+      'INVALID_MODEL',
+      {
+        status: error.status,
+        type: error.type,
+        model: config.model,
+      }
+    );
+  }
+
+  return new LLMError(
+    `${config.provider} API error: ${error.message}`,
+    `${config.provider.toUpperCase()}_${error.status || 'UNKNOWN'}`,
+    {
+      status: error.status,
+      type: error.type,
+    }
+  );
+}
+
+/**
+ * Extract a completion from an OpenAI-style chat completion response
+ */
+export function toProviderCompletion(
+  completion: OpenAI.Chat.Completions.ChatCompletion,
+  requestId: string
+): ProviderCompletion {
+  const choice = completion.choices[0];
+  if (!choice) {
+    throw new LLMError('No completion choices returned', 'NO_CHOICES');
+  }
+
+  const content = choice.message?.content;
+  console.log(`[${requestId}] Choice Finish Reason:`, choice.finish_reason);
+
+  if (!content) {
+    throw new LLMError(`No content in completion response. Finish reason: ${choice.finish_reason}`, 'NO_CONTENT');
+  }
+
+  return {
+    content,
+    usage: {
+      promptTokens: completion.usage?.prompt_tokens || 0,
+      completionTokens: completion.usage?.completion_tokens || 0,
+      totalTokens: completion.usage?.total_tokens || 0,
+      cachedPromptTokens: completion.usage?.prompt_tokens_details?.cached_tokens || 0,
+      reasoningTokens: completion.usage?.completion_tokens_details?.reasoning_tokens || 0,
+    },
+    model: completion.model,
+    finishReason: choice.finish_reason || 'unknown',
+  };
+}
+
+/**
+ * Consume an OpenAI-style chunk stream, forwarding text deltas and
+ * assembling the final completion (usage arrives on the last chunk)
+ */
+export async function collectOpenAIStream(
+  stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+  config: LLMConfig,
+  onDelta: DeltaHandler
+): Promise<ProviderCompletion> {
+  let content = '';
+  let model = config.model;
+  let finishReason = 'unknown';
+  let usage: OpenAI.Completions.CompletionUsage | undefined;
+
+  for await (const chunk of stream) {
+    model = chunk.model || model;
+    usage = chunk.usage ?? usage;
+
+    const choice = chunk.choices[0];
+    const delta = choice?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+    if (choice?.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+  }
+
+  if (!content) {
+    throw new LLMError(`No content in completion response. Finish reason: ${finishReason}`, 'NO_CONTENT');
+  }
+
+  return {
+    content,
+    usage: {
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: usage?.completion_tokens || 0,
+      totalTokens: usage?.total_tokens || 0,
+      cachedPromptTokens: usage?.prompt_tokens_details?.cached_tokens || 0,
+      reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens || 0,
+    },
+    model,
+    finishReason,
+  };
+}
+
+/**
+ * OpenAI provider (api.openai.com)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor() {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new LLMConfigError('OPENAI_API_KEY environment variable is required');
+    }
+
+    this.client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+
+  async complete(request: ProviderRequest, config: LLMConfig): Promise<ProviderCompletion> {
+    const requestParams = this.buildParams(request, config);
+
+    // Log the actual request parameters for debugging
+    console.log(
+      `[${request.requestId}] OpenAI Request Params:`,
+      JSON.stringify(
+        {
+          model: requestParams.model,
+          reasoning_effort: requestParams.reasoning_effort ?? undefined,
+          max_tokens: requestParams.max_tokens ?? undefined,
+          max_completion_tokens: requestParams.max_completion_tokens ?? undefined,
+          temperature: requestParams.temperature ?? undefined,
+        },
+        null,
+        2
+      )
+    );
+
+    try {
+      const completion = await this.client.chat.completions.create(requestParams, {
+        signal: request.signal,
+      });
+      return toProviderCompletion(completion, request.requestId);
+    } catch (error) {
+      throw mapOpenAIError(error, config, request.requestId);
+    }
+  }
+
+  async stream(request: ProviderRequest, config: LLMConfig, onDelta: DeltaHandler): Promise<ProviderCompletion> {
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          ...this.buildParams(request, config),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal }
+      );
+      return await collectOpenAIStream(stream, config, onDelta);
+    } catch (error) {
+      throw mapOpenAIError(error, config, request.requestId);
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await this.client.models.list();
+    return response.data
+      .filter(model => model.id.includes('gpt'))
+      .map(model => model.id)
+      .sort();
+  }
+
+  /**
+   * Map LLMConfig onto OpenAI chat completion parameters
+   */
+  private buildParams(
+    request: ProviderRequest,
+    config: LLMConfig
+  ): OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming {
+    const requestParams: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
+      model: config.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      stream: false,
+    };
+
+    if (config.model.includes('gpt-5')) {
+      // GPT-5 only supports temperature: 1 (default), other parameters not supported
+      requestParams.temperature = 1;
+      // GPT-5 uses max_completion_tokens instead of max_tokens, which also
+      // caps its reasoning tokens (see TokenBudgetPlanner)
+      requestParams.max_completion_tokens = request.maxOutputTokens + request.reasoningTokens;
+      requestParams.reasoning_effort = 'minimal'; // Minimal reasoning to maximize actual content
+    } else {
+      // GPT-4 and earlier support all sampling parameters
+      requestParams.temperature = config.temperature;
+      requestParams.top_p = config.topP;
+      requestParams.frequency_penalty = config.frequencyPenalty;
+      requestParams.presence_penalty = config.presencePenalty;
+      requestParams.max_tokens = request.maxOutputTokens;
+    }
+
+    if (request.responseFormat === 'json') {
+      requestParams.response_format = { type: 'json_object' };
+    }
+
+    return requestParams;
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  type Format,
+  type ValidationLevel,
+  type RequestMetadata
+} from '@/types/rulepack';
+
+// Supported provider backends (selected with LLM_PROVIDER)
+export type LLMProviderName = 'openai' | 'anthropic' | 'openai_compatible' | 'mock' | 'fixture';
+
+// LLM Configuration
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  frequencyPenalty: number;
+  presencePenalty: number;
+  timeout: number; // milliseconds
+}
+
+// What a completion is used for; 'normalize' interprets the topic before
+// generation, 'rewrite' revises an earlier draft and 'judge' grades a text
+// against criteria
+export type LLMPurpose = 'generate' | 'normalize' | 'rewrite' | 'judge';
+
+// LLM Request
+export interface LLMRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  format: Format;
+  level: ValidationLevel;
+  requestId: string;
+  topic?: string; // Raw user topic, used to key recorded fixtures
+  purpose?: LLMPurpose; // Defaults to 'generate'
+  responseFormat?: 'text' | 'json'; // 'json' asks providers with a JSON mode to use it
+  metadata?: RequestMetadata;
+}
+
+// LLM Response
+export interface LLMResponse {
+  content: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cachedPromptTokens?: number; // Prompt tokens served from the provider's prompt cache
+    reasoningTokens?: number; // Reasoning tokens reported by reasoning models, part of completionTokens
+  };
+  model: string;
+  finishReason: string;
+  responseTime: number; // milliseconds
+  provider?: LLMProviderName; // Provider that answered, set by LLMClient
+}
+
+// Request handed to a provider once the client has planned its tokens and
+// applied the timeout
+export interface ProviderRequest extends LLMRequest {
+  maxOutputTokens: number;
+  reasoningTokens: number; // Allowed on top of maxOutputTokens; 0 for models that do not reason
+  signal: AbortSignal;
+}
+
+// Completion returned by a provider (the client measures response time)
+export type ProviderCompletion = Omit<LLMResponse, 'responseTime'>;
+
+// Receives incremental text while a completion is streamed
+export type DeltaHandler = (delta: string) => void;
+
+/**
+ * A chat-completion backend. Each provider owns the mapping from LLMConfig
+ * to its own request parameters and translates its errors into LLMError.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: ProviderRequest, config: LLMConfig): Promise<ProviderCompletion>;
+  // Streams token deltas through onDelta and resolves with the full completion
+  stream(request: ProviderRequest, config: LLMConfig, onDelta: DeltaHandler): Promise<ProviderCompletion>;
+  listModels(): Promise<string[]>;
+}
@@ -0,0 +1,280 @@
+import { type Section } from "@/types/rulepack";
+
+// How a heading was written
+export type HeadingKind = "markdown" | "emoji" | "numbered" | "bold" | "label";
+
+export interface Heading {
+  title: string; // Heading text without its marker (#, emoji, numbering, colon)
+  kind: HeadingKind;
+  depth: number; // Lower is outer; markdown headings (1-6) outrank every other kind
+  line: number; // Zero-based line of the heading
+  start: number; // Offset of the heading line
+  bodyStart: number; // Offset where the text under the heading starts
+  end: number; // Offset where the next heading of the same or a higher level starts
+  children: Heading[];
+}
+
+export interface MarkdownDocument {
+  content: string;
+  headings: Heading[]; // Every heading, in document order
+  tree: Heading[]; // Top-level headings, with nested headings as children
+}
+
+export interface SectionSpan {
+  id: string;
+  heading: Heading | null; // Null when the section was located by a pattern
+  line: number;
+  start: number; // Offsets of the whole section, heading included
+  end: number;
+  text: string; // Text under the heading (or the matching line), trimmed
+}
+
+export interface ParseOptions {
+  // Lines consisting of one of these words alone (e.g. a bare "요약") are
+  // headings too
+  labels?: string[];
+}
+
+// Other kinds nest under markdown headings; label lines ("label: text") are
+// always leaves
+const EMOJI_DEPTH = 8;
+const BOLD_DEPTH = 9;
+const LEAF_DEPTH = 10;
+
+// Headings longer than this are treated as sentences, not headings
+const MAX_HEADING_LENGTH = 40;
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// Symbols (U+2600-27BF, U+2B00-2BFF) and emoji outside the BMP, optionally
+// followed by a variation selector
+const EMOJI_HEADING =
+  /^(?:[\u2600-\u27BF\u2B00-\u2BFF]|[\uD83C-\uD83E][\uDC00-\uDFFF])\uFE0F?\s*(.+)$/;
+const BOLD_HEADING = /^\*\*([^*]+)\*\*\s*[:：]?\s*$/;
+const LABEL_LINE = /^([^\s:：#*\-•][^:：]{0,19})[:：](?!\/\/)/;
+// Numbered Korean headings, outermost first: 제1장, 제1절, I., 1., 1.1, 가.
+const NUMBERED_HEADINGS: Array<{ pattern: RegExp; depth: number }> = [
+  { pattern: /^제\s*\d+\s*장\.?\s*(.*)$/, depth: 7 },
+  { pattern: /^제\s*\d+\s*절\.?\s*(.*)$/, depth: 8 },
+  { pattern: /^[IVX]+\.\s+(.+)$/, depth: 7 },
+  { pattern: /^\d+\.\d+\.?\s+(.+)$/, depth: 9 },
+  { pattern: /^\d+[.)]\s+(.+)$/, depth: 8 },
+  { pattern: /^[가-하][.)]\s+(.+)$/, depth: 9 },
+];
+
+/**
+ * Whether a line reads like a heading rather than a sentence or list item:
+ * short, and not ending like a sentence
+ */
+function isHeadingLike(title: string): boolean {
+  return (
+    title.length <= MAX_HEADING_LENGTH && !/[.!?。]$|[다요죠음]\.?$/.test(title)
+  );
+}
+
+/**
+ * Splits markdown (or markdown-ish) text into a heading tree and locates
+ * rulepack sections in it. Recognizes markdown headings, emoji-prefixed
+ * headers (📋 요약), numbered Korean headings (1. 배경, 가. 현황), bold lines
+ * and "label: text" lines.
+ */
+export class MarkdownSectionParser {
+  /**
+   * Parse content into its headings
+   */
+  static parse(content: string, options: ParseOptions = {}): MarkdownDocument {
+    const labels = new Set(
+      (options.labels ?? []).map((label) => label.toLowerCase())
+    );
+    const headings: Heading[] = [];
+    const lines = content.split("\n");
+    let offset = 0;
+    let inFence = false;
+
+    lines.forEach((line, index) => {
+      const start = offset;
+      offset += line.length + 1;
+
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        return;
+      }
+      if (inFence) {
+        return;
+      }
+
+      const heading = this.parseHeading(line.trim(), labels);
+      if (heading) {
+        headings.push({
+          ...heading,
+          line: index,
+          start,
+          // A label line's body starts right after its colon
+          bodyStart:
+            heading.kind === "label" && /[:：]/.test(line)
+              ? start + line.search(/[:：]/) + 1
+              : offset,
+          end: content.length,
+          children: [],
+        });
+      }
+    });
+
+    // Each heading runs until the next heading at its level or above
+    const tree: Heading[] = [];
+    const stack: Heading[] = [];
+    for (const heading of headings) {
+      while (
+        stack.length > 0 &&
+        (stack[stack.length - 1]?.depth ?? 0) >= heading.depth
+      ) {
+        const closed = stack.pop();
+        if (closed) {
+          closed.end = heading.start;
+        }
+      }
+      (stack[stack.length - 1]?.children ?? tree).push(heading);
+      stack.push(heading);
+    }
+
+    return { content, headings, tree };
+  }
+
+  /**
+   * Locate sections in a parsed document. A section is found under the first
+   * heading naming its label or an alias (or, for sections without a
+   * definition, the raw id), else at the first line matching one of its
+   * patterns. Sections that are not found are left out.
+   */
+  static locate(
+    document: MarkdownDocument,
+    ids: string[],
+    sections: Record<string, Section>
+  ): Record<string, SectionSpan> {
+    const spans: Record<string, SectionSpan> = {};
+
+    for (const id of ids) {
+      const span = this.locateSection(document, id, sections[id]);
+      if (span) {
+        spans[id] = span;
+      }
+    }
+
+    return spans;
+  }
+
+  /**
+   * Words that mark the given sections, for `ParseOptions.labels`
+   */
+  static sectionLabels(sections: Record<string, Section>): string[] {
+    return Object.values(sections).flatMap((section) => [
+      section.label,
+      ...section.aliases,
+    ]);
+  }
+
+  private static locateSection(
+    document: MarkdownDocument,
+    id: string,
+    section: Section | undefined
+  ): SectionSpan | null {
+    const { content } = document;
+    const terms = (section ? [section.label, ...section.aliases] : [id]).map(
+      (term) => term.toLowerCase()
+    );
+
+    const heading = document.headings.find((candidate) => {
+      const title = candidate.title.toLowerCase();
+      return terms.some((term) => title.includes(term));
+    });
+    if (heading) {
+      return {
+        id,
+        heading,
+        line: heading.line,
+        start: heading.start,
+        end: heading.end,
+        text: content.slice(heading.bodyStart, heading.end).trim(),
+      };
+    }
+
+    const patterns = (section?.patterns ?? []).map(
+      (pattern) => new RegExp(pattern, "i")
+    );
+    let offset = 0;
+    const lines = content.split("\n");
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index] ?? "";
+      if (patterns.some((pattern) => pattern.test(line))) {
+        return {
+          id,
+          heading: null,
+          line: index,
+          start: offset,
+          end: offset + line.length,
+          text: line.trim(),
+        };
+      }
+      offset += line.length + 1;
+    }
+
+    return null;
+  }
+
+  /**
+   * Recognize a heading line
+   */
+  private static parseHeading(
+    line: string,
+    labels: Set<string>
+  ): Pick<Heading, "title" | "kind" | "depth"> | null {
+    const markdown = line.match(MARKDOWN_HEADING);
+    if (markdown?.[1] && markdown[2]) {
+      return {
+        title: markdown[2],
+        kind: "markdown",
+        depth: markdown[1].length,
+      };
+    }
+
+    const emoji = line.match(EMOJI_HEADING);
+    if (emoji?.[1] && isHeadingLike(emoji[1])) {
+      return {
+        title: emoji[1].replace(/[:：]$/, ""),
+        kind: "emoji",
+        depth: EMOJI_DEPTH,
+      };
+    }
+
+    for (const { pattern, depth } of NUMBERED_HEADINGS) {
+      const numbered = line.match(pattern);
+      if (numbered) {
+        const title = numbered[1] ?? "";
+        return isHeadingLike(title)
+          ? { title: title.replace(/[:：]$/, ""), kind: "numbered", depth }
+          : null;
+      }
+    }
+
+    const bold = line.match(BOLD_HEADING);
+    if (bold?.[1]) {
+      return { title: bold[1], kind: "bold", depth: BOLD_DEPTH };
+    }
+
+    const label = line.match(LABEL_LINE);
+    if (label?.[1] && /[가-힣A-Za-z]/.test(label[1])) {
+      return { title: label[1].trim(), kind: "label", depth: LEAF_DEPTH };
+    }
+
+    if (labels.has(line.replace(/[:：]$/, "").toLowerCase())) {
+      return {
+        title: line.replace(/[:：]$/, ""),
+        kind: "label",
+        depth: LEAF_DEPTH,
+      };
+    }
+
+    return null;
+  }
+}
+
+export default MarkdownSectionParser;
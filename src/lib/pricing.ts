@@ -0,0 +1,139 @@
+import { readFileSync } from 'fs';
+import yaml from 'js-yaml';
+import { join } from 'path';
+
+import {
+  PricingCatalogSchema,
+  type CostMetadata,
+  type ModelPricing
+} from '@/types/rulepack';
+import { type LLMProviderName, type LLMResponse } from './llm-providers';
+
+// Token usage as a provider reports it for one completion
+export type CompletionUsage = LLMResponse['usage'];
+
+// Cost of one completion in USD, split by how its tokens are priced
+export interface CompletionCost {
+  model: string;
+  priced: boolean; // False when the model is not in the catalog and counted as free
+  input: number;
+  cachedInput: number;
+  output: number;
+  reasoning: number;
+  total: number;
+}
+
+// Providers that answer without calling a paid API, priced under their own
+// catalog entry whatever model they report (fixture replays report the
+// recorded model)
+const OFFLINE_PROVIDERS: LLMProviderName[] = ['mock', 'fixture'];
+
+/**
+ * Model prices from pricing/models.yaml (LLM_PRICING_PATH overrides). A
+ * model id matches a catalog key exactly or, failing that, the longest key
+ * it starts with, so dated snapshots use their family's price.
+ */
+export class PricingCatalog {
+  private static models: Map<string, ModelPricing> | null = null;
+  private static warned = new Set<string>();
+
+  /**
+   * Prices for a model, or null when the catalog has none
+   */
+  static get(model: string): ModelPricing | null {
+    const models = this.load();
+    const exact = models.get(model);
+    if (exact) {
+      return exact;
+    }
+
+    let match: string | undefined;
+    for (const id of models.keys()) {
+      if (model.startsWith(id) && (!match || id.length > match.length)) {
+        match = id;
+      }
+    }
+    return match ? models.get(match) ?? null : null;
+  }
+
+  /**
+   * Cost of a completion. Cached prompt tokens are part of promptTokens and
+   * reasoning tokens part of completionTokens, as providers report them.
+   * Completions from offline providers use the provider's price.
+   */
+  static costOf(model: string, usage: CompletionUsage, provider?: LLMProviderName): CompletionCost {
+    const pricedAs = provider && OFFLINE_PROVIDERS.includes(provider) ? provider : model;
+    const pricing = this.get(pricedAs);
+    if (!pricing && !this.warned.has(pricedAs)) {
+      this.warned.add(pricedAs);
+      console.warn(`[PricingCatalog] No price for model '${pricedAs}', counting it as free`);
+    }
+
+    const cached = Math.min(usage.cachedPromptTokens ?? 0, usage.promptTokens);
+    const reasoning = Math.min(usage.reasoningTokens ?? 0, usage.completionTokens);
+    const price = (tokens: number, perMillion: number | undefined) =>
+      pricing ? (tokens / 1_000_000) * (perMillion ?? 0) : 0;
+
+    const input = price(usage.promptTokens - cached, pricing?.input);
+    const cachedInput = price(cached, pricing?.cachedInput ?? pricing?.input);
+    const output = price(usage.completionTokens - reasoning, pricing?.output);
+    const reasoningCost = price(reasoning, pricing?.reasoning ?? pricing?.output);
+
+    return {
+      model,
+      priced: pricing !== null,
+      input,
+      cachedInput,
+      output,
+      reasoning: reasoningCost,
+      total: input + cachedInput + output + reasoningCost,
+    };
+  }
+
+  /**
+   * Add up the costs of a request's completions
+   */
+  static summarize(costs: CompletionCost[]): CostMetadata {
+    const sum = (field: 'input' | 'cachedInput' | 'output' | 'reasoning' | 'total') =>
+      costs.reduce((total, cost) => total + cost[field], 0);
+    const unpricedModels = unique(costs.filter(cost => !cost.priced).map(cost => cost.model));
+
+    return {
+      currency: 'USD',
+      total: sum('total'),
+      input: sum('input'),
+      cachedInput: sum('cachedInput'),
+      output: sum('output'),
+      reasoning: sum('reasoning'),
+      models: unique(costs.map(cost => cost.model)),
+      ...(unpricedModels.length > 0 ? { unpricedModels } : {}),
+    };
+  }
+
+  /**
+   * Forget loaded prices (after the catalog file changes)
+   */
+  static clear(): void {
+    this.models = null;
+    this.warned.clear();
+  }
+
+  private static load(): Map<string, ModelPricing> {
+    if (!this.models) {
+      const path = process.env.LLM_PRICING_PATH || join(process.cwd(), 'pricing', 'models.yaml');
+      try {
+        const catalog = PricingCatalogSchema.parse(yaml.load(readFileSync(path, 'utf-8')));
+        this.models = new Map(Object.entries(catalog.models));
+      } catch (error) {
+        throw new Error(
+          `Failed to load pricing catalog ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+    return this.models;
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
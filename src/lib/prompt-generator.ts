@@ -1,20 +1,71 @@
 import { ChecklistLoader } from './checklist-loader';
+import { ComplianceRuleRegistry } from './compliance-rules';
+import { findTerm, splitFindings } from './findings';
+import { FormatRegistry } from './format-registry';
+import { RulepackLoader } from './rulepack-loader';
+import { ScoringModel } from './scoring';
 import { ContentValidator } from './validation';
 import { 
   type Format, 
   type ValidationLevel, 
   type PromptRequest,
-  type AnyRulepack 
+  type AnyRulepack,
+  type ContactBlock,
+  type LevelGuide,
+  type NormalizedTopic,
+  type ScoreBreakdown,
+  type ScoredCheck,
+  type Section,
+  type TonePack,
+  type ValidationFinding
 } from '@/types/rulepack';
 
 export interface SystemPromptConfig {
   rulepack: AnyRulepack;
   format: Format;
   level: ValidationLevel;
+  levelGuide: LevelGuide; // Resolved guide for `level`
   tone: string;
+  tonePack?: TonePack; // Resolved pack for `tone`
   mode?: string; // Optional mode for rulepack modes
   additionalRequirements?: string[];
   strictMode?: boolean;
+  normalizedTopic?: NormalizedTopic; // Output of the normalization stage
+}
+
+export interface RewritePromptConfig {
+  rulepack: AnyRulepack;
+  levelGuide: LevelGuide;
+  topic: string;
+  draft: string;
+  failedChecks: string[];
+  errors?: string[];
+  warnings?: string[];
+}
+
+// One thing the LLM judge grades a text against. `do` criteria must be met,
+// `dont` criteria must be avoided, and `check` criteria are yes/no questions.
+export interface JudgeCriterion {
+  id: string;
+  kind: 'do' | 'dont' | 'check';
+  text: string;
+}
+
+export interface JudgePromptConfig {
+  subject: 'prompt' | 'content'; // A generated prompt or a finished text
+  formatName: string;
+  text: string;
+  criteria: JudgeCriterion[];
+}
+
+// Outcome of one validatePrompt check
+export interface PromptCheckResult extends ScoredCheck {
+  id: string; // ruleId of the check's findings
+  name: string;
+  category: string;
+  severity: ValidationFinding['severity']; // How much a failure of the check matters
+  passed: boolean;
+  suggestion?: string; // How to fix a failed check
 }
 
 export class PromptGenerator {
@@ -22,41 +73,73 @@ export class PromptGenerator {
    * Generate system prompt that instructs LLM to create topic-customized prompts
    */
   static generateSystemPrompt(config: SystemPromptConfig): string {
-    const { rulepack, format, level, mode, additionalRequirements = [], strictMode = false } = config;
+    const { rulepack, levelGuide, mode, tonePack, additionalRequirements = [], strictMode = false, normalizedTopic } = config;
 
-    const tokenLimit = this.getTokenLimitForLevel(level);
-    const formatName = this.getFormatDisplayName(format);
-    const levelName = this.getLevelDisplayName(level);
+    const tokenLimit = levelGuide.tokenLimits.output;
+    const formatName = rulepack.display.name;
+    const levelName = levelGuide.name;
     
-    // Get required sections based on mode (if available) or fallback to default
-    const requiredSections = this.getRequiredSectionsForMode(rulepack, mode);
+    // Get required sections based on mode (if available) or fallback to default,
+    // plus the sections the level adds
+    const requiredSections = [
+      ...this.getRequiredSectionsForMode(rulepack, mode),
+      ...levelGuide.extraSections,
+    ];
     
     const sections = [
       `당신은 한국 국회 보좌진용 프롬프트 생성 전문가입니다.`,
       `사용자가 제시한 주제와 조건을 분석하여, 해당 주제에 특화된 ${formatName} 작성용 프롬프트를 생성하세요.`,
       '',
       `📋 ${formatName} 기본 구조:`,
-      `${requiredSections.map(s => `• ${this.getSectionDisplayName(s)}`).join('\n')}`,
+      ...requiredSections.flatMap(s => this.formatSection(s, rulepack, levelGuide)),
       '',
       `✅ 작성 원칙:`,
       `${rulepack.dos.map((d: string) => `• ${d}`).join('\n')}`,
       '',
       `❌ 금지사항:`,
       `${rulepack.donts.map((d: string) => `• ${d}`).join('\n')}`,
-      '',
-      `🎯 프롬프트 생성 지침:`,
-      `1. 주제를 분석하여 해당 분야의 특성을 파악하세요`,
-      `2. 주제에 맞는 전문적 역할을 정의하세요 (예: "디지털정책 전문가", "환경정책 분석가")`,
-      `3. 해당 분야에서 중요한 구체적 질문들을 포함하세요`,
-      `4. 주제 관련 전문 용어나 고려사항을 명시하세요`,
-      `5. ${levelName} 수준에 맞는 작성 가이드를 제시하세요`,
-      `6. ${tokenLimit}토큰 이내 작성 지침을 포함하세요`,
     ];
 
+    if (tonePack) {
+      sections.push('', ...this.formatTonePack(tonePack));
+    }
+
+    if (rulepack.contact) {
+      sections.push('', ...this.formatContactBlock(rulepack.contact));
+    }
+
+    const guidelines = [
+      `주제를 분석하여 해당 분야의 특성을 파악하세요`,
+      `주제에 맞는 전문적 역할을 정의하세요 (예: "디지털정책 전문가", "환경정책 분석가")`,
+      `해당 분야에서 중요한 구체적 질문들을 포함하세요`,
+      `주제 관련 전문 용어나 고려사항을 명시하세요`,
+      `${levelName} 수준에 맞는 작성 가이드를 제시하세요`,
+      `구체적인 작성 지시를 최소 ${levelGuide.mandatoryInstructions}개 항목으로 나열하세요`,
+      `${tokenLimit}토큰 이내 작성 지침을 포함하세요`,
+    ];
+
+    if (levelGuide.requiredDirectives.length > 0) {
+      guidelines.push(`다음 ${levelName} 수준 필수 지시를 포함하세요: ${levelGuide.requiredDirectives.join(' / ')}`);
+    }
+
+    if (tonePack) {
+      guidelines.push(`위 어조·문체 지침을 생성할 프롬프트의 작성 지침에 포함하세요`);
+    }
+
+    if (rulepack.contact) {
+      guidelines.push(`연락처가 필요한 경우 위 연락처 정보를 그대로 사용하도록 지시하세요`);
+    }
+
+    if (normalizedTopic) {
+      guidelines.push(`사용자 요청의 주제 해석(분야·핵심 메시지·이해관계자·리스크)을 역할 정의와 세부 지침에 반영하세요`);
+    }
+
+    sections.push('', `🎯 프롬프트 생성 지침:`, ...guidelines.map((g, i) => `${i + 1}. ${g}`));
+
     if (rulepack.complianceRules && rulepack.complianceRules.length > 0) {
       sections.push(``, `🔒 준수사항:`);
       rulepack.complianceRules.forEach((rule: string) => {
-        sections.push(`• ${this.getComplianceRuleDescription(rule)}`);
+        sections.push(`• ${ComplianceRuleRegistry.describe(rule)}`);
       });
     }
 
@@ -84,17 +167,18 @@ export class PromptGenerator {
   static generateCompletedPrompt(config: {
     rulepack: AnyRulepack;
     format: Format;
-    level: ValidationLevel;
+    levelGuide: LevelGuide;
     topic: string;
     context?: string;
-    // tone parameter omitted (unused)
+    tonePack?: TonePack;
     additionalRequirements?: string[];
     strictMode?: boolean;
   }): string {
-    const { rulepack, format, topic, context, additionalRequirements = [], strictMode = false } = config;
+    const { rulepack, levelGuide, topic, context, tonePack, additionalRequirements = [], strictMode = false } = config;
     
-    const tokenLimit = this.getTokenLimitForLevel(config.level);
-    const formatName = this.getFormatDisplayName(format);
+    const tokenLimit = levelGuide.tokenLimits.output;
+    const formatName = rulepack.display.name;
+    const requiredSections = [...rulepack.requiredSections, ...levelGuide.extraSections];
     
     // 완성된 프롬프트 생성
     const sections = [
@@ -102,7 +186,7 @@ export class PromptGenerator {
       `다음 주제와 조건에 맞춰 높은 품질의 ${formatName}을(를) 작성해주세요.`,
       '',
       `📋 필수 구성 요소:`,
-      `${rulepack.requiredSections.map((s: string) => `• ${this.getSectionDisplayName(s)}`).join('\n')}`,
+      ...requiredSections.flatMap((s: string) => this.formatSection(s, rulepack, levelGuide)),
       '',
       `✅ 작성 원칙:`,
       `${rulepack.dos.map((d: string) => `• ${d}`).join('\n')}`,
@@ -111,17 +195,26 @@ export class PromptGenerator {
       `${rulepack.donts.map((d: string) => `• ${d}`).join('\n')}`,
       '',
       `📝 작성 가이드:`,
-      `• 전문적이고 공식적인 어조 유지`,
+      ...(tonePack ? [] : [`• 전문적이고 공식적인 어조 유지`]),
       `• ${tokenLimit}토큰 이내 분량으로 작성`,
       `• 한국어로 작성`,
       `• 한국 공공 커뮤니케이션 표준 준수`,
-      `• 구체적이고 실무적인 내용 포함`
+      `• 구체적이고 실무적인 내용 포함`,
+      ...levelGuide.requiredDirectives.map(d => `• ${d}`),
     ];
 
+    if (tonePack) {
+      sections.push('', ...this.formatTonePack(tonePack));
+    }
+
+    if (rulepack.contact) {
+      sections.push('', ...this.formatContactBlock(rulepack.contact));
+    }
+
     if (rulepack.complianceRules && rulepack.complianceRules.length > 0) {
       sections.push(``, `🔒 준수사항:`);
       rulepack.complianceRules.forEach((rule: string) => {
-        sections.push(`• ${this.getComplianceRuleDescription(rule)}`);
+        sections.push(`• ${ComplianceRuleRegistry.describe(rule)}`);
       });
     }
 
@@ -152,21 +245,24 @@ export class PromptGenerator {
   /**
    * Generate user prompt that provides topic and context for analysis
    */
-  static generateUserPrompt(request: PromptRequest): string {
-    const formatName = this.getFormatDisplayName(request.format);
-    const levelName = this.getLevelDisplayName(request.level);
+  static generateUserPrompt(request: PromptRequest, rulepack: AnyRulepack, levelGuide: LevelGuide): string {
+    const formatName = rulepack.display.name;
     
     const sections = [
       `다음 조건으로 ${formatName} 작성용 맞춤형 프롬프트를 생성해주세요:`,
       '',
       `📌 주제: ${request.topic}`,
-      `📊 수준: ${levelName}`,
+      `📊 수준: ${levelGuide.name}`,
     ];
 
     if (request.context) {
       sections.push(`📄 배경상황: ${request.context}`);
     }
 
+    if (request.normalizedTopic) {
+      sections.push(...this.formatNormalizedTopic(request.normalizedTopic));
+    }
+
     if (request.additionalRequirements && request.additionalRequirements.length > 0) {
       sections.push(``, `🎯 추가 요구사항:`);
       request.additionalRequirements.forEach(req => {
@@ -177,47 +273,172 @@ export class PromptGenerator {
     sections.push('');
     sections.push('위 주제를 분석하여 해당 분야에 특화된 구체적이고 실용적인 프롬프트를 생성하세요.');
     sections.push('주제의 특성, 관련 전문 용어, 해당 분야에서 중요한 고려사항들을 반영해주세요.');
-    
+
     return sections.join('\n');
   }
 
   /**
-   * Validate topic-customized prompt quality - ensures it's specialized and ready-to-use
+   * Generate system/user prompts for the topic normalization call, which
+   * returns a NormalizedTopic as JSON
+   */
+  static generateNormalizationPrompts(request: Pick<PromptRequest, 'topic' | 'context'> & { formatName: string }): {
+    systemPrompt: string;
+    userPrompt: string;
+  } {
+    const { formatName } = request;
+
+    const systemPrompt = [
+      `당신은 한국 국회 보좌진의 요청을 분석하는 정책 분석가입니다.`,
+      `주어진 주제를 해석하여 다음 키를 가진 JSON 객체만 출력하세요:`,
+      `• domain: 정책 분야 (문자열, 예: "주거복지", "디지털정책")`,
+      `• keyMessages: 핵심 메시지 1~5개 (문자열 배열)`,
+      `• stakeholders: 주요 이해관계자 (문자열 배열)`,
+      `• risks: 작성 시 유의할 리스크·민감 요소 (문자열 배열, 최대 5개)`,
+      '',
+      `주제에 없는 사실이나 수치를 만들어내지 마세요. JSON 외의 텍스트는 출력하지 마세요.`,
+    ].join('\n');
+
+    const userPrompt = [
+      `📌 주제: ${request.topic}`,
+      `📝 작성 형식: ${formatName}`,
+      ...(request.context ? [`📄 배경상황: ${request.context}`] : []),
+    ].join('\n');
+
+    return { systemPrompt, userPrompt };
+  }
+
+  /**
+   * Generate system/user prompts for the LLM judge: a strict JSON rubric with
+   * one judgment per criterion, and the text to grade between markers. The
+   * criteria come from rulepacks and checklists, so they belong to the system
+   * prompt; the user prompt carries only the text.
+   */
+  static generateJudgePrompts(config: JudgePromptConfig): {
+    systemPrompt: string;
+    userPrompt: string;
+  } {
+    const { subject, formatName, text, criteria } = config;
+    const subjectName = subject === 'prompt' ? `${formatName} 작성용 프롬프트` : formatName;
+    const labels: Record<JudgeCriterion['kind'], string> = {
+      do: '지켜야 할 것',
+      dont: '피해야 할 것',
+      check: '확인할 것',
+    };
+
+    const systemPrompt = [
+      `당신은 한국 국회 보좌진이 작성한 ${subjectName}를 심사하는 엄격한 검수자입니다.`,
+      `주어진 기준마다 텍스트가 기준을 충족하는지 판정하고, 다음 형식의 JSON 객체만 출력하세요:`,
+      `{"judgments": [{"id": "기준 id", "passed": true 또는 false, "reason": "판정 근거 한 문장", "quote": "문제가 된 구절 (선택)"}]}`,
+      '',
+      `• 모든 기준 id를 정확히 한 번씩 판정하고, 주어지지 않은 id는 만들지 마세요.`,
+      `• '피해야 할 것'은 텍스트에 해당 내용이 없을 때 passed가 true입니다.`,
+      `• 판단이 확실하지 않으면 passed를 false로 하고 이유를 적으세요.`,
+      `• quote는 미충족 기준에만, 텍스트의 구절을 그대로 옮겨 적으세요.`,
+      `JSON 외의 텍스트는 출력하지 마세요.`,
+      '',
+      `📋 판정 기준:`,
+      ...criteria.map(criterion => `[${criterion.id}] ${labels[criterion.kind]}: ${criterion.text}`),
+    ].join('\n');
+
+    const userPrompt = [
+      `📄 심사할 텍스트:`,
+      '<<<',
+      text,
+      '>>>',
+    ].join('\n');
+
+    return { systemPrompt, userPrompt };
+  }
+
+  /**
+   * Generate user prompt for the automatic rewrite pass: the previous draft
+   * plus the checklist items and errors it failed
+   */
+  static generateRewritePrompt(config: RewritePromptConfig): string {
+    const { rulepack, levelGuide, topic, draft, failedChecks, errors = [], warnings = [] } = config;
+    const formatName = rulepack.display.name;
+    const levelName = levelGuide.name;
+
+    const sections = [
+      `아래는 ${formatName} 작성용으로 생성된 프롬프트 초안입니다.`,
+      `검증에서 미준수로 판정된 항목을 보완하여 프롬프트 전체를 다시 작성하세요.`,
+      '',
+      `📌 주제: ${topic}`,
+      `📊 수준: ${levelName}`,
+      '',
+      `❗ 미준수 체크리스트 항목:`,
+      ...failedChecks.map(item => `• ${item}`),
+    ];
+
+    if (errors.length > 0 || warnings.length > 0) {
+      sections.push(``, `⚠️ 검증 오류 및 경고:`);
+      [...errors, ...warnings].forEach(message => {
+        sections.push(`• ${message}`);
+      });
+    }
+
+    sections.push('', '--- 초안 시작 ---', draft, '--- 초안 끝 ---', '');
+    sections.push('초안의 주제 특화 내용은 유지하고, 위 항목만 보완한 완성된 프롬프트 텍스트만 출력하세요.');
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Validate topic-customized prompt quality - ensures it's specialized and ready-to-use.
+   * Checks are scored with the rulepack version and office overlay the prompt was
+   * generated with.
    */
   static async validatePrompt(
     promptText: string,
     format: Format,
     level: ValidationLevel,
-    // version parameter omitted (unused)
+    version?: string,
+    overlayId?: string
   ): Promise<{
     validation: {
       isValid: boolean;
       warnings: string[];
       errors: string[];
+      findings: ValidationFinding[];
     };
     checklist: {
       format: Format;
       level: ValidationLevel;
       passed: string[];
       failed: string[];
-      score: number;
-      totalChecks: number;
-      passedChecks: number;
+      items: PromptCheckResult[];
+      scoring: ScoreBreakdown;
     };
     overallScore: number;
   }> {
-    const warnings: string[] = [];
-    const errors: string[] = [];
-    const passed: string[] = [];
-    const failed: string[] = [];
+    const findings: ValidationFinding[] = [];
+    const items: PromptCheckResult[] = [];
+
+    // Record a check's outcome; a failed check adds its findings and takes
+    // their first suggestion
+    const check = (
+      { id, name, category, severity }: Pick<PromptCheckResult, 'id' | 'name' | 'category' | 'severity'>,
+      ok: boolean,
+      ...issues: ValidationFinding[]
+    ) => {
+      const suggestion = ok ? undefined : issues.find(issue => issue.suggestion)?.suggestion;
+      items.push({ id, name, category, severity, passed: ok, ...(suggestion ? { suggestion } : {}) });
+      if (!ok) {
+        findings.push(...issues);
+      }
+    };
 
     // 1. Check for topic-specific role definition
-    if (promptText.includes('당신은') && (promptText.includes('전문가') || promptText.includes('작성자'))) {
-      passed.push('역할 정의 포함');
-    } else {
-      errors.push('프롬프트에 명확한 역할 정의가 없습니다.');
-      failed.push('역할 정의 포함');
-    }
+    check(
+      { id: 'role_definition', name: '역할 정의 포함', category: '역할', severity: 'error' },
+      promptText.includes('당신은') && (promptText.includes('전문가') || promptText.includes('작성자')),
+      {
+        ruleId: 'role_definition',
+        severity: 'error',
+        message: '프롬프트에 명확한 역할 정의가 없습니다.',
+        suggestion: "'당신은 ○○ 전문가입니다'처럼 역할을 첫머리에 정의하세요.",
+      }
+    );
 
     // 2. Check for meta-instructions (should NOT be present)
     const metaInstructions = [
@@ -235,85 +456,140 @@ export class PromptGenerator {
       promptText.toLowerCase().includes(meta.toLowerCase())
     );
     
-    if (foundMetaInstructions.length === 0) {
-      passed.push('메타 지시문 없음');
-    } else {
-      errors.push(`메타 지시문 발견: ${foundMetaInstructions.join(', ')}`);
-      failed.push('메타 지시문 없음');
-    }
+    check(
+      { id: 'no_meta_instructions', name: '메타 지시문 없음', category: '지시', severity: 'error' },
+      foundMetaInstructions.length === 0,
+      // Each occurrence, located for highlighting
+      ...foundMetaInstructions.flatMap(meta =>
+        findTerm(promptText, meta).map(match => ({
+          ruleId: 'no_meta_instructions',
+          severity: 'error' as const,
+          message: `메타 지시문 발견: ${meta}`,
+          start: match.start,
+          end: match.end,
+          suggestion: '프롬프트 자체에 대한 지시를 삭제하고 작성할 글에 대한 지시만 남기세요.',
+        }))
+      )
+    );
 
     // 3. Check for topic customization (not generic)
     const genericPhrases = ['일반적인', '보편적인', '표준적인', '평범한'];
     const hasGenericPhrase = genericPhrases.some(phrase => promptText.includes(phrase));
     const hasSpecificTerms = promptText.length > 500; // More detailed prompts tend to be customized
     
-    if (!hasGenericPhrase && hasSpecificTerms) {
-      passed.push('주제 특화 맞춤형');
-    } else {
-      warnings.push('주제에 특화된 맞춤형 내용이 부족해 보입니다.');
-      failed.push('주제 특화 맞춤형');
-    }
+    check(
+      { id: 'topic_specific', name: '주제 특화 맞춤형', category: '내용', severity: 'warning' },
+      !hasGenericPhrase && hasSpecificTerms,
+      {
+        ruleId: 'topic_specific',
+        severity: 'warning',
+        message: '주제에 특화된 맞춤형 내용이 부족해 보입니다.',
+        suggestion: '주제의 배경, 대상, 핵심 수치 등 구체적인 내용을 더하세요.',
+      },
+      ...genericPhrases.flatMap(phrase =>
+        findTerm(promptText, phrase).map(match => ({
+          ruleId: 'topic_specific',
+          severity: 'warning' as const,
+          message: `일반적인 표현: ${phrase}`,
+          start: match.start,
+          end: match.end,
+          suggestion: '주제에 맞는 구체적인 표현으로 바꾸세요.',
+        }))
+      )
+    );
 
     // 4. Check format specification
-    const formatName = this.getFormatDisplayName(format);
-    if (promptText.includes(formatName)) {
-      passed.push('형식 명시');
-    } else {
-      warnings.push(`${formatName} 형식이 명시되지 않았습니다.`);
-      failed.push('형식 명시');
-    }
+    const formatName = await FormatRegistry.getDisplayName(format);
+    check({ id: 'format_named', name: '형식 명시', category: '구조', severity: 'warning' }, promptText.includes(formatName), {
+      ruleId: 'format_named',
+      severity: 'warning',
+      message: `${formatName} 형식이 명시되지 않았습니다.`,
+      suggestion: `작성할 글이 ${formatName}임을 밝히세요.`,
+    });
 
     // 5. Check for structure guidelines
-    if (promptText.includes('구조') || promptText.includes('구성') || promptText.includes('섹션') || promptText.includes('형식')) {
-      passed.push('구조 가이드라인');
-    } else {
-      warnings.push('구조나 구성에 대한 가이드라인이 부족합니다.');
-      failed.push('구조 가이드라인');
-    }
+    check(
+      { id: 'structure_guidelines', name: '구조 가이드라인', category: '구조', severity: 'warning' },
+      promptText.includes('구조') || promptText.includes('구성') || promptText.includes('섹션') || promptText.includes('형식'),
+      {
+        ruleId: 'structure_guidelines',
+        severity: 'warning',
+        message: '구조나 구성에 대한 가이드라인이 부족합니다.',
+        suggestion: '글의 구성(섹션과 순서)을 명시하세요.',
+      }
+    );
 
     // 6. Check for specific instructions or constraints
-    if (promptText.includes('작성 원칙') || promptText.includes('지침') || promptText.includes('요구사항') || promptText.includes('주의사항')) {
-      passed.push('작성 지침 포함');
-    } else {
-      warnings.push('구체적인 작성 지침이나 요구사항이 부족합니다.');
-      failed.push('작성 지침 포함');
-    }
+    check(
+      { id: 'writing_guidelines', name: '작성 지침 포함', category: '지시', severity: 'warning' },
+      promptText.includes('작성 원칙') || promptText.includes('지침') || promptText.includes('요구사항') || promptText.includes('주의사항'),
+      {
+        ruleId: 'writing_guidelines',
+        severity: 'warning',
+        message: '구체적인 작성 지침이나 요구사항이 부족합니다.',
+        suggestion: '작성 원칙이나 주의사항을 목록으로 추가하세요.',
+      }
+    );
 
     // 7. Check for actionable final instruction
-    if (promptText.includes('작성해') || promptText.includes('만들어') || promptText.includes('생성해')) {
-      passed.push('실행 가능한 지시');
-    } else {
-      warnings.push('명확한 실행 지시가 없습니다.');
-      failed.push('실행 가능한 지시');
-    }
+    check(
+      { id: 'actionable_instruction', name: '실행 가능한 지시', category: '지시', severity: 'warning' },
+      promptText.includes('작성해') || promptText.includes('만들어') || promptText.includes('생성해'),
+      {
+        ruleId: 'actionable_instruction',
+        severity: 'warning',
+        message: '명확한 실행 지시가 없습니다.',
+        suggestion: "마지막에 '위 내용으로 ○○를 작성해 주세요'와 같은 지시를 넣으세요.",
+      }
+    );
 
-    const totalChecks = 7;
-    const passedChecks = passed.length;
-    const score = Math.round((passedChecks / totalChecks) * 100);
-    const isValid = errors.length === 0;
-    const overallScore = isValid ? score : Math.min(score, 60);
+    // 8. Check the level's minimum number of concrete instructions
+    const levelGuide = await RulepackLoader.loadLevelGuide(level);
+    const { mandatoryInstructions } = levelGuide;
+    const instructionCount = promptText
+      .split('\n')
+      .filter(line => /^\s*(?:[•\-*]|\d+[.)])\s+\S/.test(line))
+      .length;
+
+    check({ id: 'mandatory_instructions', name: '필수 지시 개수', category: '지시', severity: 'warning' }, instructionCount >= mandatoryInstructions, {
+      ruleId: 'mandatory_instructions',
+      severity: 'warning',
+      message: `구체적인 작성 지시가 부족합니다 (${instructionCount}/${mandatoryInstructions}개).`,
+      suggestion: `구체적인 작성 지시를 ${mandatoryInstructions - instructionCount}개 이상 더하세요.`,
+    });
+
+    const { errors, warnings } = splitFindings(findings);
+    const passed = items.filter(item => item.passed).map(item => item.name);
+    const failed = items.filter(item => !item.passed).map(item => item.name);
+    const scoring = ScoringModel.score(
+      items,
+      ScoringModel.resolveConfig(await RulepackLoader.resolveRulepack(format, version, overlayId), levelGuide),
+      levelGuide.strictness.passScore
+    );
 
     return {
       validation: {
-        isValid,
+        isValid: errors.length === 0,
         warnings,
         errors,
+        findings,
       },
       checklist: {
         format,
         level,
         passed,
         failed,
-        score,
-        totalChecks,
-        passedChecks,
+        items,
+        scoring,
       },
-      overallScore,
+      overallScore: scoring.score,
     };
   }
 
   /**
    * Validate generated content against rulepack and checklist (legacy method)
+   *
+   * @throws ChecklistNotFoundError when the format has no checklist for the level
    */
   static async validateContent(
     content: string,
@@ -323,115 +599,134 @@ export class PromptGenerator {
   ): Promise<{
     validation: Awaited<ReturnType<typeof ContentValidator.validateContent>>;
     checklist: Awaited<ReturnType<typeof ChecklistLoader.validateAgainstChecklist>>;
+    scoring: ScoreBreakdown;
     overallScore: number;
   }> {
     // Run validation (always available)
     const validation = await ContentValidator.validateContent(content, format, level, version);
 
-    // Try checklist validation (may not be available for all levels)
-    let checklist;
-    try {
-      checklist = await ChecklistLoader.validateAgainstChecklist(content, format, level, version);
-    } catch {
-      // Create fallback checklist result if file doesn't exist
-      checklist = {
-        passed: [],
-        failed: [],
-        total: 0,
-        score: 80, // Default neutral score
-      };
-    }
-
-    // Calculate overall score
-    const validationScore = validation.isValid ? 100 : 50;
-    const checklistScore = checklist.score;
-    const overallScore = Math.round((validationScore + checklistScore) / 2);
+    const checklist = await ChecklistLoader.validateAgainstChecklist(content, format, level, version);
+
+    // Score the rulepack checks and the checklist items together
+    const levelGuide = await RulepackLoader.loadLevelGuide(level);
+    const scoring = ScoringModel.score(
+      [...validation.checks, ...checklist.checks],
+      ScoringModel.resolveConfig(
+        await RulepackLoader.loadFormatPack(format, validation.metadata.rulepackVersion),
+        levelGuide
+      ),
+      levelGuide.strictness.passScore
+    );
 
     return {
       validation,
       checklist,
-      overallScore,
+      scoring,
+      overallScore: scoring.score,
     };
   }
 
-  // Helper methods for display names
-  private static getFormatDisplayName(format: Format): string {
-    const displayNames = {
-      press_release: '보도자료',
-      speech: '연설문',
-      sns: 'SNS 게시글',
-      inquiry: '자료제출',
-      report: '보고서',
-      media_scraping: '이슈 분석',
-    };
-    return displayNames[format] || format;
+  /**
+   * Render a tone pack as prompt lines (register, honorifics, endings, lexicon)
+   */
+  private static formatTonePack(tonePack: TonePack): string[] {
+    const lines = [
+      `🗣️ 어조 및 문체 (${tonePack.name}):`,
+      `• 문체: ${tonePack.register.style} (${tonePack.register.persona})`,
+      `• 경어법: ${tonePack.honorifics.level}${tonePack.honorifics.guidance ? ` - ${tonePack.honorifics.guidance}` : ''}`,
+      `• 문장 종결: ${tonePack.sentenceEndings.style}${
+        tonePack.sentenceEndings.examples.length > 0
+          ? ` (예: ${tonePack.sentenceEndings.examples.map(e => `"${e}"`).join(', ')})`
+          : ''
+      }`,
+    ];
+
+    if (tonePack.lexiconHints.prefer.length > 0) {
+      lines.push(`• 권장 표현: ${tonePack.lexiconHints.prefer.join(', ')}`);
+    }
+
+    const avoid = [
+      ...tonePack.lexiconHints.avoid,
+      ...tonePack.register.forbidden,
+      ...tonePack.sentenceEndings.avoid,
+    ];
+    if (avoid.length > 0) {
+      lines.push(`• 피할 표현: ${avoid.join(', ')}`);
+    }
+
+    return lines;
   }
 
-  private static getLevelDisplayName(level: ValidationLevel): string {
-    const displayNames = {
-      basic: '기본',
-      intermediate: '중급',
-      advanced: '고급',
-    };
-    return displayNames[level] || level;
+  /**
+   * Render an overlay's contact block as prompt lines
+   */
+  private static formatContactBlock(contact: ContactBlock): string[] {
+    return [
+      `📇 연락처 정보:`,
+      `• 기관: ${contact.office}${contact.department ? ` ${contact.department}` : ''}`,
+      ...(contact.phone ? [`• 전화: ${contact.phone}`] : []),
+      ...(contact.email ? [`• 이메일: ${contact.email}`] : []),
+    ];
   }
 
-  private static getSectionDisplayName(section: string): string {
-    const displayNames: Record<string, string> = {
-      headline: '제목',
-      lead: '리드 문단',
-      body: '본문',
-      quote: '인용문',
-      background: '배경 정보',
-      contact: '연락처',
-      opening: '오프닝',
-      introduction: '도입부',
-      main_points: '주요 포인트',
-      conclusion: '결론',
-      closing: '마무리',
-      hook: '훅',
-      main_content: '메인 콘텐츠',
-      call_to_action: '행동 유도',
-      hashtags: '해시태그',
-      summary: '요약',
-      analysis: '분석',
-      appendix: '부록',
-    };
-    return displayNames[section] || section;
+  /**
+   * Render a normalized topic as user prompt lines
+   */
+  private static formatNormalizedTopic(normalizedTopic: NormalizedTopic): string[] {
+    const lines = [
+      ``,
+      `🧭 주제 해석:`,
+      `• 분야: ${normalizedTopic.domain}`,
+      `• 핵심 메시지: ${normalizedTopic.keyMessages.join(' / ')}`,
+    ];
+
+    if (normalizedTopic.stakeholders.length > 0) {
+      lines.push(`• 이해관계자: ${normalizedTopic.stakeholders.join(', ')}`);
+    }
+    if (normalizedTopic.risks.length > 0) {
+      lines.push(`• 유의할 리스크: ${normalizedTopic.risks.join(' / ')}`);
+    }
+
+    return lines;
   }
 
-  private static getComplianceRuleDescription(rule: string): string {
-    const descriptions: Record<string, string> = {
-      facts_required: '객관적 사실 기반 작성 필수',
-      source_required: '출처 및 근거 명시 필수',
-      objective_tone: '객관적 어조 유지',
-      no_exaggeration: '과장된 표현 금지',
-      evidence_based: '증거 기반 내용 작성',
-      accuracy_required: '정확성 검증 필수',
-      official_tone: '공식적 어조 유지',
-      character_limit: '글자 수 제한 준수',
-      platform_optimized: '플랫폼 최적화',
-      engaging_content: '흥미로운 내용 구성',
-      accurate_information: '정확한 정보 제공',
-      appropriate_hashtags: '적절한 해시태그 사용',
-      audience_appropriate: '청중에 적합한 내용',
-      clear_message: '명확한 메시지 전달',
-      logical_flow: '논리적 구성',
-      respectful_tone: '존중하는 어조',
-      complete_information: '완전한 정보 제공',
-      clear_structure: '명확한 구조',
-      contact_included: '연락처 정보 포함',
-    };
-    return descriptions[rule] || rule;
+  /**
+   * Render a section and its structure hints as prompt lines, e.g.
+   * "• 제목 — 2줄 이내 / 핵심: 핵심 메시지 압축", with notes on their own lines
+   */
+  private static formatSection(section: string, rulepack: AnyRulepack, levelGuide: LevelGuide): string[] {
+    const definition = this.getSection(section, rulepack, levelGuide);
+    if (!definition) {
+      return [`• ${section}`];
+    }
+
+    const { label, hints } = definition;
+    const parts = [
+      ...(hints.description ? [hints.description] : []),
+      ...(hints.purpose ? [`목적: ${hints.purpose}`] : []),
+      ...(hints.keyPoints ? [`핵심: ${hints.keyPoints}`] : []),
+      ...(hints.structure ? [`구성: ${hints.structure}`] : []),
+      ...(hints.format ? [`형식: ${hints.format}`] : []),
+      ...(hints.maxLines ? [`${hints.maxLines}줄 이내`] : []),
+      ...(hints.maxCharacters ? [`${hints.maxCharacters}자 이내`] : []),
+      ...(hints.maxCount ? [`${hints.maxCount}개 이하`] : []),
+      ...(hints.requirements?.length ? [`필수 요건: ${hints.requirements.join(', ')}`] : []),
+      ...(hints.includes?.length ? [`반드시 포함: ${hints.includes.join(', ')}`] : []),
+      ...(hints.examples?.length ? [`예: ${hints.examples.join(', ')}`] : []),
+    ];
+
+    return [
+      parts.length > 0 ? `• ${label} — ${parts.join(' / ')}` : `• ${label}`,
+      ...(hints.notes ?? []).map(note => `  - ${note}`),
+    ];
   }
 
-  private static getTokenLimitForLevel(level: ValidationLevel): number {
-    const limits = {
-      basic: parseInt(process.env.NEXT_PUBLIC_TOKEN_LIMIT_BASIC || '300'),
-      intermediate: parseInt(process.env.NEXT_PUBLIC_TOKEN_LIMIT_INTERMEDIATE || '600'),
-      advanced: parseInt(process.env.NEXT_PUBLIC_TOKEN_LIMIT_ADVANCED || '900'),
-    };
-    return limits[level];
+  /**
+   * Definition of a section id: level guide sections (extra sections) first,
+   * then the format's own sections
+   */
+  private static getSection(section: string, rulepack: AnyRulepack, levelGuide: LevelGuide): Section | undefined {
+    return levelGuide.sections[section] ?? rulepack.sections[section];
   }
 
   private static getRequiredSectionsForMode(rulepack: AnyRulepack, mode?: string): string[] {
@@ -0,0 +1,849 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ZodError } from 'zod';
+
+import {
+  UserInputSchema,
+  type UserInput,
+  type PromptResponse,
+  type ErrorResponse,
+  type AnyRulepack,
+  type LevelGuide,
+  type RequestMetadata,
+  type RewriteMetadata,
+  type JudgeMetadata,
+  type BudgetStatus,
+  type TokenBudgetPlan,
+  type NormalizedTopic,
+  type TonePack,
+  ErrorResponseSchema
+} from '@/types/rulepack';
+
+import {
+  RulepackLoader,
+  RulepackVersionError,
+  getLevelGuide,
+  getOverlayPack,
+  getRulepack,
+  getTonePack
+} from './rulepack-loader';
+import { type LLMRequest, type LLMResponse, LLMAbortedError, getLLMClient } from './llm-client';
+import { splitFindings } from './findings';
+import LLMJudge, { type JudgeResult } from './llm-judge';
+import { BUDGET_EXCEEDED_SUGGESTION, type TokenGuardResult, getTokenGuard } from './token-guard';
+import { getRateLimiter, RequestIdentifier, createRateLimitHeaders } from './rate-limiter';
+import PromptGenerator from './prompt-generator';
+import { ScoringModel } from './scoring';
+import { TokenBudgetPlanner } from './token-budget';
+import TopicNormalizer, { type NormalizationRequest } from './topic-normalizer';
+
+// Per-request values shared by every pipeline step
+export interface PromptRequestContext {
+  requestId: string;
+  startTime: number;
+  timestamp: string;
+  ip: string;
+  userAgent: string;
+  sessionId: string | null;
+}
+
+// Everything needed to call the LLM and build the final response
+export interface PreparedPrompt {
+  userInput: UserInput;
+  rulepack: AnyRulepack;
+  rulepackVersion: string; // Version actually loaded
+  levelGuide: LevelGuide;
+  tonePack: TonePack;
+  systemPrompt: string;
+  userPrompt: string;
+  llmRequest: LLMRequest;
+  normalizedTopic?: NormalizedTopic;
+  budgets?: BudgetStatus[]; // Budgets the request took past their soft limit
+  tokenBudget?: TokenBudgetPlan; // How the generation call's tokens are allocated
+}
+
+// Hooks for the completion step
+export interface CompletionOptions {
+  signal?: AbortSignal;
+  // Called before the automatic rewrite pass starts
+  onRewrite?: (scoreBefore: number) => void;
+}
+
+type PromptValidation = Awaited<ReturnType<typeof PromptGenerator.validatePrompt>>;
+type ResponseValidation = PromptResponse['data']['validation'];
+
+/**
+ * Error raised by a pipeline step, carrying the API error code and HTTP status
+ */
+export class PromptPipelineError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status: number,
+    public details?: Record<string, unknown>,
+    public headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'PromptPipelineError';
+  }
+}
+
+/**
+ * Extract request id, client identity and timing for a new request
+ */
+export function createRequestContext(request: Request): PromptRequestContext {
+  const context: PromptRequestContext = {
+    requestId: uuidv4(),
+    startTime: Date.now(),
+    timestamp: new Date().toISOString(),
+    ip: RequestIdentifier.getIP(request.headers),
+    userAgent: request.headers.get('user-agent') || 'unknown',
+    sessionId: RequestIdentifier.getUserId(request.headers),
+  };
+
+  console.log(`[${context.requestId}] API request started`, {
+    ip: context.ip.slice(0, -2) + 'XX', // Mask last 2 digits for privacy
+    userAgent: context.userAgent.slice(0, 50),
+    timestamp: context.timestamp,
+  });
+
+  return context;
+}
+
+export function getRequestMetadata(context: PromptRequestContext): RequestMetadata {
+  return {
+    requestId: context.requestId,
+    timestamp: context.timestamp,
+    ip: context.ip,
+    userAgent: context.userAgent,
+    sessionId: context.sessionId || undefined,
+  };
+}
+
+/**
+ * Check per-IP and per-session rate limits. Returns the headers to attach to
+ * the response.
+ */
+export async function enforceRateLimit(context: PromptRequestContext): Promise<Record<string, string>> {
+  const rateLimitChecks = [
+    { identifier: context.ip, configName: 'default' },
+    { identifier: context.ip, configName: 'burst' },
+  ];
+
+  if (context.sessionId) {
+    rateLimitChecks.push({ identifier: context.sessionId, configName: 'default' });
+  }
+
+  const rateLimitResult = await getRateLimiter().checkMultipleLimits(rateLimitChecks);
+  const headers = createRateLimitHeaders(rateLimitResult.mostRestrictive);
+
+  if (!rateLimitResult.allowed) {
+    console.log(`[${context.requestId}] Rate limit exceeded`, {
+      ip: context.ip.slice(0, -2) + 'XX',
+      limit: rateLimitResult.mostRestrictive.limit,
+      remaining: rateLimitResult.mostRestrictive.remaining,
+      retryAfter: rateLimitResult.mostRestrictive.retryAfter,
+    });
+
+    throw new PromptPipelineError(
+      'RATE_LIMIT_EXCEEDED',
+      '요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.',
+      429,
+      undefined,
+      headers
+    );
+  }
+
+  return headers;
+}
+
+/**
+ * Check a call's token limits and this month's budgets, recording its
+ * estimate when it is allowed. Budgets are checked first, so an over-budget
+ * request is refused as such whatever its size.
+ */
+export async function enforceTokenLimits(
+  request: Pick<LLMRequest, 'systemPrompt' | 'userPrompt' | 'format' | 'level' | 'purpose'>,
+  metadata: RequestMetadata,
+  context: PromptRequestContext
+): Promise<TokenGuardResult> {
+  const tokenResult = await getTokenGuard().checkTokenLimits(
+    request.systemPrompt,
+    request.userPrompt,
+    request.format,
+    request.level,
+    metadata,
+    request.purpose
+  );
+
+  if (tokenResult.budgetExceeded) {
+    throw budgetExceededError(tokenResult.budgets, tokenResult.suggestions, context);
+  }
+
+  if (!tokenResult.allowed) {
+    console.log(`[${context.requestId}] Token limit exceeded`, {
+      exceeded: tokenResult.plan.exceeded,
+      usage: tokenResult.plan.user.used,
+      limit: tokenResult.limit,
+    });
+
+    throw new PromptPipelineError(
+      'TOKEN_LIMIT_EXCEEDED',
+      `토큰 한도를 초과했습니다. ${tokenResult.suggestions.join(' ')}`,
+      400,
+      {
+        tokenCount: tokenResult.plan.user.used,
+        limit: tokenResult.limit,
+        suggestions: tokenResult.suggestions,
+        tokenBudget: tokenResult.plan,
+      }
+    );
+  }
+
+  return tokenResult;
+}
+
+/**
+ * Check this month's budgets before a further LLM call of a request that
+ * enforceTokenLimits admitted (topic normalization, rewrites and judge
+ * calls), so those calls cannot take usage past a budget either
+ */
+export async function enforceCallBudgets(
+  request: Pick<LLMRequest, 'systemPrompt' | 'userPrompt' | 'format' | 'level' | 'purpose'>,
+  metadata: RequestMetadata,
+  context: PromptRequestContext
+): Promise<void> {
+  const budgets = await getTokenGuard().checkCallBudgets(
+    request.systemPrompt,
+    request.userPrompt,
+    request.format,
+    request.level,
+    metadata,
+    request.purpose
+  );
+
+  if (budgets.some(budget => budget.state === 'hard')) {
+    throw budgetExceededError(budgets, [BUDGET_EXCEEDED_SUGGESTION], context);
+  }
+}
+
+function budgetExceededError(
+  budgets: BudgetStatus[],
+  suggestions: string[],
+  context: PromptRequestContext
+): PromptPipelineError {
+  const exceeded = budgets.filter(budget => budget.state === 'hard');
+  console.log(`[${context.requestId}] Token budget exceeded`, {
+    budgets: exceeded.map(budget => `${budget.scope}:${budget.usedTokens}/${budget.limit}`),
+  });
+
+  return new PromptPipelineError(
+    'TOKEN_BUDGET_EXCEEDED',
+    ['이번 달 토큰 예산을 초과했습니다.', ...suggestions].join(' '),
+    429,
+    { budgets: exceeded }
+  );
+}
+
+/**
+ * Parse and validate the request body
+ */
+export async function parseUserInput(request: Request, context: PromptRequestContext): Promise<UserInput> {
+  try {
+    const body = await request.json();
+    return UserInputSchema.parse(body);
+  } catch (error) {
+    console.log(`[${context.requestId}] Input validation failed`, { error });
+
+    throw new PromptPipelineError(
+      'INVALID_INPUT',
+      error instanceof ZodError
+        ? `입력 검증 실패: ${error.issues.map((e) => e.message).join(', ')}`
+        : '잘못된 요청 형식입니다.',
+      400,
+      error instanceof ZodError ? { errors: error.issues } : undefined
+    );
+  }
+}
+
+/**
+ * Load the rulepack (and overlay), build system/user prompts, check token limits
+ * and budgets, then normalize the topic (unless the request carries an edited
+ * interpretation) and rebuild the prompts with it
+ */
+export async function preparePromptGeneration(
+  userInput: UserInput,
+  context: PromptRequestContext,
+  signal?: AbortSignal
+): Promise<PreparedPrompt> {
+  let rulepackVersion: string;
+  try {
+    rulepackVersion = await RulepackLoader.resolveVersion(userInput.format, userInput.rulepackVersion);
+  } catch (error) {
+    if (error instanceof RulepackVersionError) {
+      throw new PromptPipelineError(
+        'RULEPACK_NOT_FOUND',
+        `지원하지 않는 규칙 버전입니다: ${userInput.format} ${error.version}`,
+        400,
+        { availableVersions: error.availableVersions }
+      );
+    }
+    throw error;
+  }
+
+  const formatPack = await getRulepack(userInput.format, rulepackVersion);
+  if (!formatPack) {
+    console.log(`[${context.requestId}] Rulepack not found`, { format: userInput.format, rulepackVersion });
+    throw new PromptPipelineError(
+      'RULEPACK_NOT_FOUND',
+      `지원하지 않는 형식 또는 규칙 버전입니다: ${userInput.format} ${rulepackVersion}`,
+      400
+    );
+  }
+
+  // Office overlay, if requested, is merged over the format pack
+  let rulepack = formatPack;
+  if (userInput.overlay) {
+    const overlay = await getOverlayPack(userInput.overlay);
+    if (!overlay || !RulepackLoader.isOverlayApplicable(overlay, userInput.format)) {
+      console.log(`[${context.requestId}] Overlay pack not applicable`, { overlay: userInput.overlay });
+      throw new PromptPipelineError(
+        'OVERLAY_NOT_FOUND',
+        `적용할 수 없는 오버레이입니다: ${userInput.overlay}`,
+        400
+      );
+    }
+    rulepack = RulepackLoader.applyOverlay(formatPack, overlay);
+  }
+
+  const levelGuide = await getLevelGuide(userInput.level);
+  if (!levelGuide) {
+    throw new PromptPipelineError(
+      'LEVEL_GUIDE_NOT_FOUND',
+      `수준 가이드를 불러올 수 없습니다: ${userInput.level}`,
+      500
+    );
+  }
+
+  // Explicit tone wins; otherwise the format's default tone pack
+  const toneId = userInput.tone || rulepack.toneDefault;
+  const tonePack = await getTonePack(toneId);
+  if (!tonePack) {
+    console.log(`[${context.requestId}] Tone pack not found`, { tone: toneId });
+    throw new PromptPipelineError(
+      'TONE_NOT_FOUND',
+      `지원하지 않는 어조입니다: ${toneId}`,
+      400
+    );
+  }
+
+  const buildPrompts = (normalizedTopic: NormalizedTopic | undefined) => ({
+    systemPrompt: PromptGenerator.generateSystemPrompt({
+      rulepack,
+      format: userInput.format,
+      level: userInput.level,
+      levelGuide,
+      tone: tonePack.id,
+      tonePack,
+      ...(userInput.mode ? { mode: userInput.mode } : {}),
+      additionalRequirements: userInput.additionalRequirements || [],
+      strictMode: userInput.options?.strictMode || false,
+      ...(normalizedTopic ? { normalizedTopic } : {}),
+    }),
+    userPrompt: PromptGenerator.generateUserPrompt({
+      format: userInput.format,
+      level: userInput.level,
+      topic: userInput.topic,
+      ...(userInput.context ? { context: userInput.context } : {}),
+      tone: tonePack.id,
+      ...(userInput.mode ? { mode: userInput.mode } : {}),
+      ...(userInput.additionalRequirements && userInput.additionalRequirements.length
+        ? { additionalRequirements: userInput.additionalRequirements }
+        : {}),
+      ...(normalizedTopic ? { normalizedTopic } : {}),
+      options: userInput.options,
+    }, rulepack, levelGuide),
+  });
+
+  // Limits and budgets are checked on the request as written, before the
+  // paid topic normalization call
+  let normalizedTopic = userInput.normalizedTopic;
+  let { systemPrompt, userPrompt } = buildPrompts(normalizedTopic);
+
+  const metadata: RequestMetadata = {
+    ...getRequestMetadata(context),
+    ...(userInput.overlay ? { office: userInput.overlay } : {}),
+  };
+  const tokenResult = await enforceTokenLimits(
+    { systemPrompt, userPrompt, format: userInput.format, level: userInput.level },
+    metadata,
+    context
+  );
+
+  let tokenBudget = tokenResult.plan;
+  if (!normalizedTopic) {
+    const interpreted = await normalizeTopic(userInput, rulepack, metadata, context, signal);
+    if (interpreted) {
+      const prompts = buildPrompts(interpreted);
+      const plan = TokenBudgetPlanner.planFor(
+        { model: tokenBudget.model, level: userInput.level, ...prompts },
+        levelGuide
+      );
+
+      // An interpretation that takes the request past its plan is dropped
+      // rather than failing a request already admitted
+      if (plan.exceeded) {
+        console.warn(`[${context.requestId}] Normalized topic exceeds the token plan, continuing with raw topic`, {
+          exceeded: plan.exceeded,
+        });
+      } else {
+        normalizedTopic = interpreted;
+        ({ systemPrompt, userPrompt } = prompts);
+        tokenBudget = plan;
+      }
+    }
+  }
+
+  console.log(`[${context.requestId}] Generating topic-customized prompt via LLM:`, {
+    topic: userInput.topic,
+    format: userInput.format,
+    level: userInput.level,
+  });
+
+  const budgets = tokenResult.budgets.filter(budget => budget.state === 'soft');
+  return {
+    userInput,
+    rulepack,
+    rulepackVersion,
+    levelGuide,
+    tonePack,
+    systemPrompt,
+    userPrompt,
+    ...(normalizedTopic ? { normalizedTopic } : {}),
+    ...(budgets.length > 0 ? { budgets } : {}),
+    tokenBudget,
+    llmRequest: {
+      systemPrompt,
+      userPrompt,
+      format: userInput.format,
+      level: userInput.level,
+      requestId: context.requestId,
+      topic: userInput.topic,
+      metadata,
+    },
+  };
+}
+
+/**
+ * Interpret the topic via the normalization call. Generation proceeds without
+ * an interpretation if the call fails or would exceed a budget; cancellation
+ * is propagated.
+ */
+async function normalizeTopic(
+  userInput: UserInput,
+  rulepack: AnyRulepack,
+  metadata: RequestMetadata,
+  context: PromptRequestContext,
+  signal?: AbortSignal
+): Promise<NormalizedTopic | undefined> {
+  const request: NormalizationRequest = {
+    format: userInput.format,
+    formatName: rulepack.display.name,
+    level: userInput.level,
+    topic: userInput.topic,
+    ...(userInput.context ? { context: userInput.context } : {}),
+    requestId: context.requestId,
+    metadata,
+  };
+
+  try {
+    await enforceCallBudgets(
+      {
+        ...PromptGenerator.generateNormalizationPrompts(request),
+        format: userInput.format,
+        level: userInput.level,
+        purpose: 'normalize',
+      },
+      metadata,
+      context
+    );
+    const { normalizedTopic, response } = await TopicNormalizer.normalize(request, signal);
+
+    await getTokenGuard().logActualUsage(context.requestId, response);
+
+    console.log(`[${context.requestId}] Topic normalized`, { domain: normalizedTopic.domain });
+    return normalizedTopic;
+  } catch (error) {
+    if (error instanceof LLMAbortedError) {
+      throw error;
+    }
+
+    console.warn(`[${context.requestId}] Topic normalization failed, continuing with raw topic`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Response form of a prompt validation: every check grouped by category, a
+ * suggestion per failed check, and how the score was computed
+ */
+function toResponseValidation(validation: PromptValidation): ResponseValidation {
+  const { checklist } = validation;
+
+  const categories = new Map<string, ResponseValidation['checklist'][number]['items']>();
+  for (const item of checklist.items) {
+    const items = categories.get(item.category) ?? [];
+    items.push({
+      description: item.name,
+      passed: item.passed,
+      severity: item.severity,
+      ...(item.suggestion ? { suggestion: item.suggestion } : {}),
+    });
+    categories.set(item.category, items);
+  }
+
+  const suggestions = Array.from(new Set(
+    checklist.items.flatMap(item => (!item.passed && item.suggestion ? [item.suggestion] : []))
+  ));
+
+  const { scoring } = checklist;
+  return {
+    passed: scoring.passed,
+    score: scoring.score,
+    checklist: Array.from(categories, ([category, items]) => ({ category, items })),
+    scoring,
+    warnings: [
+      ...validation.validation.warnings,
+      ...(scoring.weightedScore < scoring.passScore ? ['일부 체크리스트 항목이 통과하지 못했습니다.'] : []),
+    ],
+    ...(suggestions.length > 0 ? { suggestions } : {}),
+    findings: validation.validation.findings,
+  };
+}
+
+/**
+ * Validate the generated prompt, optionally run one rewrite pass and an LLM
+ * judge pass, log actual usage and build the API response
+ */
+export async function completePromptGeneration(
+  prepared: PreparedPrompt,
+  draftResponse: LLMResponse,
+  context: PromptRequestContext,
+  options: CompletionOptions = {}
+): Promise<PromptResponse> {
+  const { userInput, rulepack } = prepared;
+  const includeWarnings = userInput.options?.includeWarnings !== false;
+  const autoRewrite = userInput.options?.autoRewrite === true;
+  const judge = userInput.options?.judge === true;
+
+  // Log actual token usage
+  await getTokenGuard().logActualUsage(context.requestId, draftResponse);
+
+  // Validate generated prompt (if warnings, rewrite or judge enabled)
+  let llmResponse = draftResponse;
+  let validationResults: PromptValidation | undefined;
+  let rewrite: RewriteMetadata | undefined;
+  let judgeMetadata: JudgeMetadata | undefined;
+  if (includeWarnings || autoRewrite || judge) {
+    validationResults = await PromptGenerator.validatePrompt(
+      llmResponse.content,
+      userInput.format,
+      userInput.level,
+      prepared.rulepackVersion,
+      userInput.overlay
+    );
+  }
+
+  if (autoRewrite && validationResults && validationResults.checklist.failed.length > 0) {
+    options.onRewrite?.(validationResults.overallScore);
+    const outcome = await rewritePrompt(prepared, llmResponse, validationResults, context, options.signal);
+    llmResponse = outcome.response;
+    validationResults = outcome.validation;
+    rewrite = outcome.rewrite;
+  }
+
+  // The judge grades the prompt that will be returned
+  if (judge && validationResults) {
+    const outcome = await judgePrompt(prepared, llmResponse.content, validationResults, context, options.signal);
+    validationResults = outcome.validation;
+    judgeMetadata = outcome.judge;
+  }
+
+  if (!includeWarnings) {
+    validationResults = undefined;
+  }
+
+  const processingTime = Date.now() - context.startTime;
+  const cost = await getTokenGuard().getRequestCost(context.requestId);
+
+  const response: PromptResponse = {
+    success: true,
+    data: {
+      prompt: llmResponse.content,
+      metadata: {
+        format: userInput.format,
+        level: userInput.level,
+        tokenCount: draftResponse.usage.promptTokens,
+        estimatedOutputTokens: llmResponse.usage.completionTokens,
+        rulepackId: rulepack.id,
+        toneUsed: prepared.tonePack.id,
+        generatedAt: context.timestamp,
+        processingTime,
+        requestId: context.requestId,
+        ...(rewrite ? { rewrite } : {}),
+        ...(judgeMetadata ? { judge: judgeMetadata } : {}),
+        ...(prepared.normalizedTopic ? { normalizedTopic: prepared.normalizedTopic } : {}),
+        ...(prepared.budgets ? { budgets: prepared.budgets } : {}),
+        ...(prepared.tokenBudget ? { tokenBudget: prepared.tokenBudget } : {}),
+        cost,
+      },
+      validation: validationResults ? toResponseValidation(validationResults) : {
+        passed: true,
+        score: 100,
+        checklist: [],
+      },
+      rulepack: {
+        id: rulepack.id,
+        version: prepared.rulepackVersion,
+        requiredSections: rulepack.requiredSections,
+        complianceRules: rulepack.complianceRules,
+      },
+    },
+  };
+
+  console.log(`[${context.requestId}] Topic-customized prompt generated successfully`, {
+    topic: userInput.topic,
+    format: userInput.format,
+    level: userInput.level,
+    tokenUsage: llmResponse.usage.totalTokens,
+    cost: cost.total,
+    processingTime,
+    promptValidationScore: validationResults?.overallScore || 100,
+    rewrite,
+    judge: judgeMetadata,
+  });
+
+  return response;
+}
+
+/**
+ * Grade the prompt against the rulepack's dos and donts and the checklist
+ * items with the LLM judge and merge the verdict into the rule-based validation, re-scoring both
+ * together. A failed judge call, or one that would exceed a budget, keeps
+ * the validation as it was; cancellation is propagated.
+ */
+async function judgePrompt(
+  prepared: PreparedPrompt,
+  content: string,
+  validation: PromptValidation,
+  context: PromptRequestContext,
+  signal?: AbortSignal
+): Promise<{ validation: PromptValidation; judge?: JudgeMetadata }> {
+  const { userInput, rulepack, levelGuide } = prepared;
+  const criteria = await LLMJudge.criteriaFor(rulepack, userInput.format, userInput.level);
+
+  const { metadata } = prepared.llmRequest;
+  let result: JudgeResult;
+  try {
+    result = await LLMJudge.grade({
+      subject: 'prompt',
+      formatName: rulepack.display.name,
+      text: content,
+      criteria,
+      format: userInput.format,
+      level: userInput.level,
+      requestId: context.requestId,
+      metadata: getRequestMetadata(context),
+    }, signal, {
+      beforeCall: async request => {
+        await enforceCallBudgets(request, metadata ?? getRequestMetadata(context), context);
+      },
+      onUsage: async response => {
+        await getTokenGuard().logActualUsage(context.requestId, response);
+      },
+    });
+  } catch (error) {
+    if (error instanceof LLMAbortedError) {
+      throw error;
+    }
+
+    console.warn(`[${context.requestId}] LLM judge failed, keeping rule-based validation`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { validation };
+  }
+
+  const checks = LLMJudge.toChecks(result.judgments, criteria);
+  const items = [...validation.checklist.items, ...checks];
+  const findings = [...validation.validation.findings, ...LLMJudge.toFindings(result.judgments, criteria, content)];
+  const { errors, warnings } = splitFindings(findings);
+  const scoring = ScoringModel.score(
+    items,
+    ScoringModel.resolveConfig(rulepack, levelGuide),
+    levelGuide.strictness.passScore
+  );
+
+  return {
+    validation: {
+      validation: { isValid: errors.length === 0, errors, warnings, findings },
+      checklist: {
+        ...validation.checklist,
+        passed: items.filter(item => item.passed).map(item => item.name),
+        failed: items.filter(item => !item.passed).map(item => item.name),
+        items,
+        scoring,
+      },
+      overallScore: scoring.score,
+    },
+    judge: {
+      criteria: criteria.length,
+      failed: checks.filter(check => !check.passed).length,
+      cached: result.cached,
+    },
+  };
+}
+
+/**
+ * Feed the failed checklist items and errors back to the model once,
+ * re-validate, and keep whichever version scores higher. A failed rewrite
+ * call, or one that would exceed a budget, keeps the draft; cancellation is
+ * propagated.
+ */
+async function rewritePrompt(
+  prepared: PreparedPrompt,
+  draft: LLMResponse,
+  draftValidation: PromptValidation,
+  context: PromptRequestContext,
+  signal?: AbortSignal
+): Promise<{ response: LLMResponse; validation: PromptValidation; rewrite: RewriteMetadata }> {
+  const { userInput, rulepack, levelGuide, llmRequest } = prepared;
+  const scoreBefore = draftValidation.overallScore;
+
+  console.log(`[${context.requestId}] Rewriting prompt to address failed checks`, {
+    failed: draftValidation.checklist.failed,
+    scoreBefore,
+  });
+
+  const rewriteRequest: LLMRequest = {
+    ...llmRequest,
+    purpose: 'rewrite',
+    userPrompt: PromptGenerator.generateRewritePrompt({
+      rulepack,
+      levelGuide,
+      topic: userInput.topic,
+      draft: draft.content,
+      failedChecks: draftValidation.checklist.failed,
+      errors: draftValidation.validation.errors,
+      warnings: draftValidation.validation.warnings,
+    }),
+  };
+
+  let rewritten: LLMResponse;
+  try {
+    await enforceCallBudgets(rewriteRequest, llmRequest.metadata ?? getRequestMetadata(context), context);
+    rewritten = await getLLMClient().generateContent(rewriteRequest, signal);
+  } catch (error) {
+    if (error instanceof LLMAbortedError) {
+      throw error;
+    }
+
+    console.warn(`[${context.requestId}] Rewrite failed, keeping draft`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return {
+      response: draft,
+      validation: draftValidation,
+      rewrite: { count: 0, scoreBefore, kept: 'original' },
+    };
+  }
+
+  await getTokenGuard().logActualUsage(context.requestId, rewritten);
+
+  const rewrittenValidation = await PromptGenerator.validatePrompt(
+    rewritten.content,
+    userInput.format,
+    userInput.level,
+    prepared.rulepackVersion,
+    userInput.overlay
+  );
+  const scoreAfter = rewrittenValidation.overallScore;
+  const improved = scoreAfter > scoreBefore;
+
+  return {
+    response: improved ? rewritten : draft,
+    validation: improved ? rewrittenValidation : draftValidation,
+    rewrite: {
+      count: 1,
+      scoreBefore,
+      scoreAfter,
+      kept: improved ? 'rewritten' : 'original',
+    },
+  };
+}
+
+/**
+ * Map any pipeline failure to the standard error payload and HTTP status
+ */
+export function toErrorResponse(
+  error: unknown,
+  context: PromptRequestContext
+): { body: ErrorResponse; status: number; headers?: Record<string, string> } {
+  if (error instanceof PromptPipelineError) {
+    return {
+      body: ErrorResponseSchema.parse({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          timestamp: context.timestamp,
+          requestId: context.requestId,
+        },
+      }),
+      status: error.status,
+      ...(error.headers ? { headers: error.headers } : {}),
+    };
+  }
+
+  const processingTime = Date.now() - context.startTime;
+
+  if (error instanceof LLMAbortedError) {
+    console.log(`[${context.requestId}] Request cancelled by client`, { processingTime });
+
+    return {
+      body: ErrorResponseSchema.parse({
+        success: false,
+        error: {
+          code: 'REQUEST_CANCELLED',
+          message: '요청이 취소되었습니다.',
+          timestamp: context.timestamp,
+          requestId: context.requestId,
+        },
+      }),
+      status: 499,
+    };
+  }
+
+  console.error(`[${context.requestId}] Request failed`, {
+    error: error instanceof Error ? error.message : 'Unknown error',
+    processingTime,
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+
+  return {
+    body: ErrorResponseSchema.parse({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: '서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+        details: process.env.NODE_ENV === 'development' ? {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        } : undefined,
+        timestamp: context.timestamp,
+        requestId: context.requestId,
+      },
+    }),
+    status: 500,
+  };
+}
@@ -146,6 +146,15 @@ export class RateLimiter {
       skipFailedRequests: true, // Don't count failed requests
       standardHeaders: true,
     });
+
+    this.addConfig('tokens', {
+      windowMs: 60 * 1000, // 1 minute
+      maxRequests: 60, // 60 requests per minute (live token counts while typing)
+      keyGenerator: (identifier: string) => `ratelimit:tokens:${identifier}`,
+      skipSuccessfulRequests: false,
+      skipFailedRequests: false,
+      standardHeaders: true,
+    });
   }
 
   /**
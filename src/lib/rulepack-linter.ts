@@ -0,0 +1,619 @@
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import yaml from "js-yaml";
+import {
+  RulepackSourceSchema,
+  ValidationLevelEnum,
+  type AnyRulepack,
+  type Format,
+  type LevelGuide,
+  type OverlayPack,
+  type RulepackSource,
+  type ValidationLevel,
+} from "@/types/rulepack";
+import { ChecklistLoader, type ChecklistItem } from "./checklist-loader";
+import { ComplianceRuleRegistry } from "./compliance-rules";
+import { RulepackLoader } from "./rulepack-loader";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintCode =
+  | "parse_error" // Pack or checklist fails to load
+  | "invalid_file_name" // File name the loaders cannot address
+  | "unknown_section" // Required section without a `sections` entry
+  | "unused_section" // `sections` entry for a section nothing requires
+  | "unknown_compliance_rule" // Compliance rule missing from the rule registry
+  | "conflicting_rule" // Same entry in dos and donts
+  | "duplicate_entry" // Entry listed twice in one file
+  | "redundant_inherited_entry" // Entry already inherited through `extends`
+  | "unknown_format"
+  | "unknown_tone"
+  | "missing_checklist"
+  | "empty_checklist"
+  | "invalid_annotation"; // Checklist `<!-- check: ... -->` that fails to parse
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code: LintCode;
+  file: string; // Relative to the project root, e.g. rulepacks/format/sns_v1.yaml
+  message: string;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+  filesChecked: number;
+}
+
+// Same naming rules as RulepackLoader and ChecklistLoader
+const FORMAT_FILE_PATTERN = /^([a-z0-9_]+)_(v\d+)\.yaml$/;
+const LEVEL_FILE_PATTERN = new RegExp(
+  `^(${ValidationLevelEnum.options.join("|")})_(v\\d+)\\.yaml$`
+);
+const CHECKLIST_FILE_PATTERN = new RegExp(
+  `^([a-z0-9_]+)_(${ValidationLevelEnum.options.join("|")})_(v\\d+)\\.md$`
+);
+
+// Lists merged through `extends` (see rulepacks/README.md)
+const MERGED_LISTS = ["dos", "donts", "complianceRules"] as const;
+
+function findDuplicates(entries: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const entry of entries) {
+    if (seen.has(entry)) {
+      duplicates.add(entry);
+    }
+    seen.add(entry);
+  }
+  return Array.from(duplicates);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Static checks over every rulepack and checklist. The loaders only run the
+ * zod schemas, so a typo in a section key or compliance rule would otherwise
+ * surface as a raw key in prompts or a section the validator never finds.
+ */
+export class RulepackLinter {
+  /**
+   * Lint the rulepacks/ and checklists/ directories under the working directory
+   */
+  static async lint(): Promise<LintReport> {
+    const issues: LintIssue[] = [];
+
+    // Read the files as they are now, not as cached by a previous load
+    RulepackLoader.clearCache();
+    ChecklistLoader.clearCache();
+
+    const levelFiles = await this.listFiles("rulepacks/level", ".yaml");
+    await this.lintLevelGuides(levelFiles, issues);
+
+    const sourceFiles = [
+      ...(await this.listFiles("rulepacks/base", ".yaml")),
+      ...(await this.listFiles("rulepacks/format", ".yaml")),
+    ];
+    await this.lintPackSources(sourceFiles, issues);
+
+    const toneFiles = await this.listFiles("rulepacks/tone", ".yaml");
+    const toneIds = await this.lintTonePacks(toneFiles, issues);
+
+    const formats = await RulepackLoader.getAvailableFormats();
+    const rulepacks = await this.lintFormatPacks(formats, toneIds, issues);
+
+    const overlayFiles = await this.listFiles("rulepacks/overlay", ".yaml");
+    await this.lintOverlayPacks(overlayFiles, formats, rulepacks, issues);
+
+    const checklistFiles = await this.listFiles("checklists", ".md");
+    await this.lintChecklists(checklistFiles, formats, rulepacks, issues);
+
+    issues.sort((a, b) => a.file.localeCompare(b.file));
+    return {
+      issues,
+      errorCount: issues.filter((issue) => issue.severity === "error").length,
+      warningCount: issues.filter((issue) => issue.severity === "warning")
+        .length,
+      filesChecked:
+        levelFiles.length +
+        sourceFiles.length +
+        toneFiles.length +
+        overlayFiles.length +
+        checklistFiles.length,
+    };
+  }
+
+  private static async listFiles(
+    dir: string,
+    extension: string
+  ): Promise<string[]> {
+    try {
+      const files = await readdir(join(process.cwd(), dir));
+      return files
+        .filter((file) => file.endsWith(extension))
+        .sort()
+        .map((file) => `${dir}/${file}`);
+    } catch {
+      return [];
+    }
+  }
+
+  private static fileName(file: string): string {
+    return file.slice(file.lastIndexOf("/") + 1);
+  }
+
+  private static async lintLevelGuides(
+    files: string[],
+    issues: LintIssue[]
+  ): Promise<void> {
+    for (const file of files) {
+      const match = LEVEL_FILE_PATTERN.exec(this.fileName(file));
+      if (!match?.[1] || !match[2]) {
+        issues.push({
+          severity: "error",
+          code: "invalid_file_name",
+          file,
+          message: "Level guide files must be named <level>_<version>.yaml",
+        });
+        continue;
+      }
+
+      let levelGuide: LevelGuide;
+      try {
+        levelGuide = await RulepackLoader.loadLevelGuide(
+          match[1] as ValidationLevel,
+          match[2]
+        );
+      } catch (error) {
+        issues.push({
+          severity: "error",
+          code: "parse_error",
+          file,
+          message: errorMessage(error),
+        });
+        continue;
+      }
+
+      for (const section of levelGuide.extraSections) {
+        if (!levelGuide.sections[section]) {
+          issues.push({
+            severity: "error",
+            code: "unknown_section",
+            file,
+            message: `Extra section '${section}' has no entry in sections`,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Check format and base pack files as written: duplicates within a file and
+   * entries a file repeats from the packs it extends
+   */
+  private static async lintPackSources(
+    files: string[],
+    issues: LintIssue[]
+  ): Promise<void> {
+    const sources = new Map<string, RulepackSource>();
+
+    for (const file of files) {
+      if (
+        file.startsWith("rulepacks/format/") &&
+        !FORMAT_FILE_PATTERN.test(this.fileName(file))
+      ) {
+        issues.push({
+          severity: "warning",
+          code: "invalid_file_name",
+          file,
+          message:
+            "Format pack files must be named <format>_<version>.yaml; this file is ignored",
+        });
+        continue;
+      }
+
+      try {
+        const content = await readFile(join(process.cwd(), file), "utf-8");
+        const ref = file.replace(/^rulepacks\//, "").replace(/\.yaml$/, "");
+        sources.set(ref, RulepackSourceSchema.parse(yaml.load(content)));
+      } catch (error) {
+        issues.push({
+          severity: "error",
+          code: "parse_error",
+          file,
+          message: errorMessage(error),
+        });
+      }
+    }
+
+    for (const [ref, source] of sources) {
+      const file = `rulepacks/${ref}.yaml`;
+      for (const list of MERGED_LISTS) {
+        const entries = source[list] ?? [];
+
+        for (const entry of findDuplicates(entries)) {
+          issues.push({
+            severity: "warning",
+            code: "duplicate_entry",
+            file,
+            message: `'${entry}' is listed more than once in ${list}`,
+          });
+        }
+
+        const inherited = this.collectInherited(source.extends, list, sources, [
+          ref,
+        ]);
+        for (const entry of new Set(entries)) {
+          if (inherited.has(entry)) {
+            issues.push({
+              severity: "warning",
+              code: "redundant_inherited_entry",
+              file,
+              message: `'${entry}' in ${list} is already inherited from ${source.extends}`,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  private static collectInherited(
+    parentRef: string | undefined,
+    list: (typeof MERGED_LISTS)[number],
+    sources: Map<string, RulepackSource>,
+    chain: string[]
+  ): Set<string> {
+    // Missing parents and cycles are reported when the format pack is loaded
+    const parent = parentRef ? sources.get(parentRef) : undefined;
+    if (!parentRef || !parent || chain.includes(parentRef)) {
+      return new Set();
+    }
+
+    const inherited = this.collectInherited(parent.extends, list, sources, [
+      ...chain,
+      parentRef,
+    ]);
+    for (const entry of parent[list] ?? []) {
+      inherited.add(entry);
+    }
+    return inherited;
+  }
+
+  private static async lintTonePacks(
+    files: string[],
+    issues: LintIssue[]
+  ): Promise<Set<string>> {
+    const toneIds = new Set<string>();
+
+    for (const file of files) {
+      const toneId = this.fileName(file).replace(/\.yaml$/, "");
+      try {
+        await RulepackLoader.loadTonePack(toneId);
+        toneIds.add(toneId);
+      } catch (error) {
+        issues.push({
+          severity: "error",
+          code: "parse_error",
+          file,
+          message: errorMessage(error),
+        });
+      }
+    }
+
+    return toneIds;
+  }
+
+  /**
+   * Check every version of every format with its `extends` chain resolved
+   */
+  private static async lintFormatPacks(
+    formats: Format[],
+    toneIds: Set<string>,
+    issues: LintIssue[]
+  ): Promise<Map<Format, AnyRulepack[]>> {
+    const rulepacks = new Map<Format, AnyRulepack[]>();
+
+    for (const format of formats) {
+      for (const version of await RulepackLoader.getAvailableVersions(format)) {
+        const file = `rulepacks/format/${format}_${version}.yaml`;
+
+        let rulepack: AnyRulepack;
+        try {
+          rulepack = await RulepackLoader.loadFormatPack(format, version);
+        } catch (error) {
+          issues.push({
+            severity: "error",
+            code: "parse_error",
+            file,
+            message: errorMessage(error),
+          });
+          continue;
+        }
+        rulepacks.set(format, [...(rulepacks.get(format) ?? []), rulepack]);
+
+        this.lintSections(file, rulepack, issues);
+        this.lintComplianceRules(file, rulepack.complianceRules, issues);
+
+        for (const entry of rulepack.dos.filter((entry) =>
+          rulepack.donts.includes(entry)
+        )) {
+          issues.push({
+            severity: "error",
+            code: "conflicting_rule",
+            file,
+            message: `'${entry}' is in both dos and donts`,
+          });
+        }
+
+        if (!toneIds.has(rulepack.toneDefault)) {
+          issues.push({
+            severity: "error",
+            code: "unknown_tone",
+            file,
+            message: `toneDefault '${rulepack.toneDefault}' is not a tone pack in rulepacks/tone`,
+          });
+        }
+      }
+    }
+
+    return rulepacks;
+  }
+
+  private static lintSections(
+    file: string,
+    rulepack: AnyRulepack,
+    issues: LintIssue[]
+  ): void {
+    const sources: Array<{ sections: string[]; where: string }> = [
+      { sections: rulepack.requiredSections, where: "requiredSections" },
+      ...Object.entries(rulepack.modes ?? {}).map(
+        ([mode, { requiredSections }]) => ({
+          sections: requiredSections,
+          where: `mode '${mode}'`,
+        })
+      ),
+    ];
+    const reported = new Set<string>();
+
+    for (const { sections, where } of sources) {
+      for (const section of sections) {
+        if (reported.has(section)) {
+          continue;
+        }
+        reported.add(section);
+
+        if (!rulepack.sections[section]) {
+          issues.push({
+            severity: "error",
+            code: "unknown_section",
+            file,
+            message: `Section '${section}' (${where}) has no entry in sections`,
+          });
+        }
+      }
+    }
+
+    for (const section of Object.keys(rulepack.sections)) {
+      if (!reported.has(section)) {
+        issues.push({
+          severity: "warning",
+          code: "unused_section",
+          file,
+          message: `sections has '${section}', which is not a required section of any mode`,
+        });
+      }
+    }
+  }
+
+  private static lintComplianceRules(
+    file: string,
+    rules: string[],
+    issues: LintIssue[]
+  ): void {
+    for (const rule of rules) {
+      if (!ComplianceRuleRegistry.has(rule)) {
+        issues.push({
+          severity: "error",
+          code: "unknown_compliance_rule",
+          file,
+          message: `Compliance rule '${rule}' is not registered in ComplianceRuleRegistry`,
+        });
+      }
+    }
+  }
+
+  private static async lintOverlayPacks(
+    files: string[],
+    formats: Format[],
+    rulepacks: Map<Format, AnyRulepack[]>,
+    issues: LintIssue[]
+  ): Promise<void> {
+    for (const file of files) {
+      let overlay: OverlayPack;
+      try {
+        overlay = await RulepackLoader.loadOverlayPack(
+          this.fileName(file).replace(/\.yaml$/, "")
+        );
+      } catch (error) {
+        issues.push({
+          severity: "error",
+          code: "parse_error",
+          file,
+          message: errorMessage(error),
+        });
+        continue;
+      }
+
+      for (const format of overlay.appliesTo.filter(
+        (format) => !formats.includes(format)
+      )) {
+        issues.push({
+          severity: "error",
+          code: "unknown_format",
+          file,
+          message: `appliesTo names '${format}', which has no format pack`,
+        });
+      }
+
+      this.lintComplianceRules(file, overlay.complianceRules, issues);
+
+      for (const list of MERGED_LISTS) {
+        for (const entry of findDuplicates(overlay[list])) {
+          issues.push({
+            severity: "warning",
+            code: "duplicate_entry",
+            file,
+            message: `'${entry}' is listed more than once in ${list}`,
+          });
+        }
+      }
+
+      // Section patches only take effect for the formats the overlay applies to
+      const targets =
+        overlay.appliesTo.length > 0 ? overlay.appliesTo : formats;
+      const sections = new Set(
+        targets.flatMap((format) =>
+          (rulepacks.get(format) ?? []).flatMap((rulepack) => [
+            ...rulepack.requiredSections,
+            ...Object.values(rulepack.modes ?? {}).flatMap(
+              (mode) => mode.requiredSections
+            ),
+          ])
+        )
+      );
+      for (const section of Object.keys(overlay.sections)) {
+        if (!sections.has(section)) {
+          issues.push({
+            severity: "warning",
+            code: "unused_section",
+            file,
+            message: `sections has '${section}', which no targeted format requires`,
+          });
+        }
+      }
+    }
+  }
+
+  private static async lintChecklists(
+    files: string[],
+    formats: Format[],
+    rulepacks: Map<Format, AnyRulepack[]>,
+    issues: LintIssue[]
+  ): Promise<void> {
+    const covered = new Set<string>();
+
+    for (const file of files) {
+      const match = CHECKLIST_FILE_PATTERN.exec(this.fileName(file));
+      if (!match?.[1] || !match[2] || !match[3]) {
+        issues.push({
+          severity: "error",
+          code: "invalid_file_name",
+          file,
+          message:
+            "Checklist files must be named <format>_<level>_<version>.md",
+        });
+        continue;
+      }
+
+      const [, format, level, version] = match;
+      if (!formats.includes(format)) {
+        issues.push({
+          severity: "error",
+          code: "unknown_format",
+          file,
+          message: `Checklist for '${format}', which has no format pack`,
+        });
+        continue;
+      }
+      covered.add(`${format}_${level}`);
+
+      let checklist: ChecklistItem[];
+      try {
+        checklist = await ChecklistLoader.loadChecklist(
+          format,
+          level as ValidationLevel,
+          version
+        );
+      } catch (error) {
+        // Missing or mismatched frontmatter, unknown or circular `extends`
+        issues.push({
+          severity: "error",
+          code: "parse_error",
+          file,
+          message: errorMessage(error),
+        });
+        continue;
+      }
+      if (checklist.length === 0) {
+        issues.push({
+          severity: "warning",
+          code: "empty_checklist",
+          file,
+          message: "No '- [ ]' items under a ## or ### heading",
+        });
+      }
+
+      const content = await readFile(join(process.cwd(), file), "utf-8");
+      for (const error of ChecklistLoader.findAnnotationErrors(content)) {
+        issues.push({
+          severity: "error",
+          code: "invalid_annotation",
+          file,
+          message: `${error.message} in '${error.annotation}'`,
+        });
+      }
+
+      // Section checks name sections of any version of the format, or of the
+      // level guide
+      const sections = new Set(
+        (rulepacks.get(format) ?? []).flatMap((rulepack) =>
+          Object.keys(rulepack.sections)
+        )
+      );
+      try {
+        const levelGuide = await RulepackLoader.loadLevelGuide(
+          level as ValidationLevel
+        );
+        Object.keys(levelGuide.sections).forEach((section) =>
+          sections.add(section)
+        );
+      } catch {
+        // Reported with the level guides
+      }
+      for (const { annotations } of checklist) {
+        for (const annotation of Object.values(annotations)) {
+          const section =
+            annotation.kind === "section" || annotation.kind === "max-length"
+              ? annotation.section
+              : undefined;
+          if (section && !sections.has(section)) {
+            issues.push({
+              severity: "error",
+              code: "unknown_section",
+              file,
+              message: `Check names section '${section}', which the ${format} format does not define`,
+            });
+          }
+        }
+      }
+    }
+
+    for (const format of formats) {
+      for (const level of ValidationLevelEnum.options) {
+        if (!covered.has(`${format}_${level}`)) {
+          issues.push({
+            severity: "warning",
+            code: "missing_checklist",
+            file: `checklists/${format}_${level}_v1.md`,
+            message: `No ${level} checklist for ${format}`,
+          });
+        }
+      }
+    }
+  }
+}
+
+export default RulepackLinter;
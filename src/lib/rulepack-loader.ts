@@ -1,27 +1,168 @@
-import { readFile } from "fs/promises";
+import { readdir, readFile } from "fs/promises";
 import { join } from "path";
 import yaml from "js-yaml";
 import {
   AnyRulepackSchema,
+  LevelGuideSchema,
+  OverlayPackSchema,
+  RulepackSourceSchema,
+  TonePackSchema,
   type AnyRulepack,
   type Format,
-  FormatEnum,
+  type LevelGuide,
+  type OverlayPack,
+  type RulepackSource,
+  type Section,
+  type SectionPatch,
+  type TonePack,
+  type ValidationLevel,
+  ValidationLevelEnum,
 } from "@/types/rulepack";
 
+// Tone and overlay pack ids double as file names, so only allow safe characters
+const TONE_ID_PATTERN = /^[a-z0-9_]+$/;
+
+// Format pack files are named <format>_<version>.yaml, e.g. press_release_v2.yaml
+const FORMAT_FILE_PATTERN = /^([a-z0-9_]+)_(v\d+)\.yaml$/;
+
+// `extends` references a pack by its path under rulepacks/, without extension
+const PACK_REF_PATTERN = /^(base|format)\/[a-z0-9_]+$/;
+
+// Requested versions are joined into file names, so only allow v<number>
+const VERSION_PATTERN = /^v\d+$/;
+
+/**
+ * A requested rulepack version the format does not have
+ */
+export class RulepackVersionError extends Error {
+  constructor(
+    public readonly format: Format,
+    public readonly version: string,
+    public readonly availableVersions: string[]
+  ) {
+    super(`Unsupported rulepack version for ${format}: ${version}`);
+    this.name = "RulepackVersionError";
+  }
+}
+
+/**
+ * Merge semantics shared by `extends` and overlays (see rulepacks/README.md):
+ * lists are appended without duplicates, sections are merged per section id,
+ * everything else is replaced by the more specific pack.
+ */
+function mergeLists(base: string[] = [], extra: string[] = []): string[] {
+  return Array.from(new Set([...base, ...extra]));
+}
+
+function mergeSections(
+  base: Record<string, SectionPatch> = {},
+  extra: Record<string, SectionPatch> = {}
+): Record<string, SectionPatch> {
+  const merged: Record<string, SectionPatch> = { ...base };
+  for (const [id, section] of Object.entries(extra)) {
+    const current = merged[id];
+    merged[id] = current
+      ? {
+          ...current,
+          ...section,
+          aliases: mergeLists(current.aliases, section.aliases),
+          patterns: mergeLists(current.patterns, section.patterns),
+          hints: { ...current.hints, ...section.hints },
+        }
+      : section;
+  }
+  return merged;
+}
+
 export class RulepackLoader {
   private static cache = new Map<string, AnyRulepack>();
+  private static toneCache = new Map<string, TonePack>();
+  private static levelCache = new Map<string, LevelGuide>();
+  private static overlayCache = new Map<string, OverlayPack>();
+  private static versionIndex: Map<string, string[]> | null = null;
   // Lazily resolve to avoid evaluation issues during build/edge analysis
+  private static getPacksRoot(): string {
+    return join(process.cwd(), "rulepacks");
+  }
+
   private static getRulepackDir(): string {
     return join(process.cwd(), "rulepacks/format");
   }
 
+  private static getOverlayDir(): string {
+    return join(process.cwd(), "rulepacks/overlay");
+  }
+
+  private static getToneDir(): string {
+    return join(process.cwd(), "rulepacks/tone");
+  }
+
+  private static getLevelDir(): string {
+    return join(process.cwd(), "rulepacks/level");
+  }
+
+  /**
+   * Version used when a request does not name one
+   */
+  static getDefaultVersion(): string {
+    return process.env.NEXT_PUBLIC_RULEPACK_VERSION || "v1";
+  }
+
+  /**
+   * Versions available for a format (or for any format), oldest first,
+   * discovered from the file names in rulepacks/format
+   */
+  static async getAvailableVersions(format?: Format): Promise<string[]> {
+    if (!this.versionIndex) {
+      const index = new Map<string, string[]>();
+      for (const file of await readdir(this.getRulepackDir())) {
+        const match = FORMAT_FILE_PATTERN.exec(file);
+        if (match?.[1] && match[2]) {
+          index.set(match[1], [...(index.get(match[1]) ?? []), match[2]]);
+        }
+      }
+      for (const versions of index.values()) {
+        versions.sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+      }
+      this.versionIndex = index;
+    }
+
+    if (format) {
+      return [...(this.versionIndex.get(format) ?? [])];
+    }
+    const all = new Set(Array.from(this.versionIndex.values()).flat());
+    return Array.from(all).sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+  }
+
+  /**
+   * Pick the version to load: the requested one, else the default version
+   * when the format has it, else the format's latest version
+   *
+   * @throws RulepackVersionError when the format has no requested version
+   */
+  static async resolveVersion(format: Format, requested?: string): Promise<string> {
+    const versions = await this.getAvailableVersions(format);
+    if (requested) {
+      if (!VERSION_PATTERN.test(requested) || !versions.includes(requested)) {
+        throw new RulepackVersionError(format, requested, versions);
+      }
+      return requested;
+    }
+
+    const defaultVersion = this.getDefaultVersion();
+    return versions.includes(defaultVersion)
+      ? defaultVersion
+      : versions[versions.length - 1] ?? defaultVersion;
+  }
+
   /**
-   * Load a rulepack by format and version
+   * Load a rulepack by format and version, with its `extends` chain resolved
    */
   static async loadFormatPack(
     format: Format,
-    version: string = "v1"
+    requestedVersion?: string
   ): Promise<AnyRulepack> {
+    const version = await this.resolveVersion(format, requestedVersion);
     const cacheKey = `${format}_${version}`;
 
     // Check cache first
@@ -30,12 +171,10 @@ export class RulepackLoader {
     }
 
     try {
-      const filePath = join(this.getRulepackDir(), `${format}_${version}.yaml`);
-      const fileContent = await readFile(filePath, "utf-8");
-      const rawData = yaml.load(fileContent);
+      const source = await this.resolvePackSource(`format/${cacheKey}`, []);
 
-      // Validate the loaded data
-      const rulepack = AnyRulepackSchema.parse(rawData);
+      // Validate the merged pack; parents may omit required fields
+      const rulepack = AnyRulepackSchema.parse(source);
 
       // Cache the validated rulepack
       this.cache.set(cacheKey, rulepack);
@@ -52,12 +191,54 @@ export class RulepackLoader {
   }
 
   /**
-   * Load all format rulepacks for a given version
+   * Read a pack file and merge it over the packs it extends
+   */
+  private static async resolvePackSource(
+    ref: string,
+    chain: string[]
+  ): Promise<RulepackSource> {
+    if (chain.includes(ref)) {
+      throw new Error(`circular extends: ${[...chain, ref].join(" -> ")}`);
+    }
+
+    const filePath = join(this.getPacksRoot(), `${ref}.yaml`);
+    const fileContent = await readFile(filePath, "utf-8");
+    const { extends: parentRef, ...source } = RulepackSourceSchema.parse(
+      yaml.load(fileContent)
+    );
+
+    if (!parentRef) {
+      return source;
+    }
+    if (!PACK_REF_PATTERN.test(parentRef)) {
+      throw new Error(`invalid extends reference '${parentRef}' in ${ref}`);
+    }
+
+    const parent = await this.resolvePackSource(parentRef, [...chain, ref]);
+    return {
+      ...parent,
+      ...source,
+      dos: mergeLists(parent.dos, source.dos),
+      donts: mergeLists(parent.donts, source.donts),
+      complianceRules: mergeLists(parent.complianceRules, source.complianceRules),
+      sections: mergeSections(parent.sections, source.sections),
+      ...(parent.display || source.display
+        ? { display: { ...parent.display, ...source.display } }
+        : {}),
+      ...(parent.modes || source.modes
+        ? { modes: { ...parent.modes, ...source.modes } }
+        : {}),
+    };
+  }
+
+  /**
+   * Load all format rulepacks for a given version (by default, each format's
+   * resolved default version)
    */
   static async loadAllFormatPacks(
-    version: string = "v1"
+    version?: string
   ): Promise<Map<Format, AnyRulepack>> {
-    const formats = FormatEnum.options;
+    const formats = await this.getAvailableFormats();
     const rulepacks = new Map<Format, AnyRulepack>();
 
     const loadPromises = formats.map(async (format) => {
@@ -74,6 +255,179 @@ export class RulepackLoader {
     return rulepacks;
   }
 
+  /**
+   * Load a tone pack by id (e.g. public_official_v1)
+   */
+  static async loadTonePack(toneId: string): Promise<TonePack> {
+    if (this.toneCache.has(toneId)) {
+      return this.toneCache.get(toneId)!;
+    }
+
+    if (!TONE_ID_PATTERN.test(toneId)) {
+      throw new Error(`Invalid tone pack id: ${toneId}`);
+    }
+
+    try {
+      const filePath = join(this.getToneDir(), `${toneId}.yaml`);
+      const fileContent = await readFile(filePath, "utf-8");
+      const tonePack = TonePackSchema.parse(yaml.load(fileContent));
+
+      if (tonePack.id !== toneId) {
+        throw new Error(`id '${tonePack.id}' does not match file name`);
+      }
+
+      this.toneCache.set(toneId, tonePack);
+      return tonePack;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to load tone pack ${toneId}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load every tone pack in rulepacks/tone, sorted by id
+   */
+  static async loadAllTonePacks(): Promise<TonePack[]> {
+    const files = await readdir(this.getToneDir());
+    const toneIds = files
+      .filter((file) => file.endsWith(".yaml"))
+      .map((file) => file.replace(/\.yaml$/, ""))
+      .sort();
+
+    return Promise.all(toneIds.map((toneId) => this.loadTonePack(toneId)));
+  }
+
+  /**
+   * Load an office overlay pack by id (e.g. sample_office_v1)
+   */
+  static async loadOverlayPack(overlayId: string): Promise<OverlayPack> {
+    if (this.overlayCache.has(overlayId)) {
+      return this.overlayCache.get(overlayId)!;
+    }
+
+    if (!TONE_ID_PATTERN.test(overlayId)) {
+      throw new Error(`Invalid overlay pack id: ${overlayId}`);
+    }
+
+    try {
+      const filePath = join(this.getOverlayDir(), `${overlayId}.yaml`);
+      const fileContent = await readFile(filePath, "utf-8");
+      const overlay = OverlayPackSchema.parse(yaml.load(fileContent));
+
+      if (overlay.id !== overlayId) {
+        throw new Error(`id '${overlay.id}' does not match file name`);
+      }
+
+      this.overlayCache.set(overlayId, overlay);
+      return overlay;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to load overlay pack ${overlayId}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load every overlay pack in rulepacks/overlay, sorted by id
+   */
+  static async loadAllOverlayPacks(): Promise<OverlayPack[]> {
+    const files = await readdir(this.getOverlayDir());
+    const overlayIds = files
+      .filter((file) => file.endsWith(".yaml"))
+      .map((file) => file.replace(/\.yaml$/, ""))
+      .sort();
+
+    return Promise.all(overlayIds.map((overlayId) => this.loadOverlayPack(overlayId)));
+  }
+
+  /**
+   * Whether an overlay may be applied to a format
+   */
+  static isOverlayApplicable(overlay: OverlayPack, format: Format): boolean {
+    return overlay.appliesTo.length === 0 || overlay.appliesTo.includes(format);
+  }
+
+  /**
+   * Apply an overlay on top of a resolved rulepack, using the same merge
+   * semantics as `extends`
+   */
+  static applyOverlay(rulepack: AnyRulepack, overlay: OverlayPack): AnyRulepack {
+    return AnyRulepackSchema.parse({
+      ...rulepack,
+      dos: mergeLists(rulepack.dos, overlay.dos),
+      donts: mergeLists(rulepack.donts, overlay.donts),
+      complianceRules: mergeLists(rulepack.complianceRules, overlay.complianceRules),
+      sections: mergeSections(rulepack.sections, overlay.sections),
+      ...(overlay.contact ? { contact: overlay.contact } : {}),
+    });
+  }
+
+  /**
+   * Load a rulepack and apply an overlay to it when one is given
+   */
+  static async resolveRulepack(
+    format: Format,
+    version?: string,
+    overlayId?: string
+  ): Promise<AnyRulepack> {
+    const rulepack = await this.loadFormatPack(format, version);
+    if (!overlayId) {
+      return rulepack;
+    }
+
+    const overlay = await this.loadOverlayPack(overlayId);
+    if (!this.isOverlayApplicable(overlay, format)) {
+      throw new Error(`Overlay pack ${overlayId} does not apply to ${format}`);
+    }
+    return this.applyOverlay(rulepack, overlay);
+  }
+
+  /**
+   * Load the level guide (token caps, strictness, extra sections) for a level
+   */
+  static async loadLevelGuide(
+    level: ValidationLevel,
+    version: string = "v1"
+  ): Promise<LevelGuide> {
+    const cacheKey = `${level}_${version}`;
+
+    if (this.levelCache.has(cacheKey)) {
+      return this.levelCache.get(cacheKey)!;
+    }
+
+    try {
+      const filePath = join(this.getLevelDir(), `${cacheKey}.yaml`);
+      const fileContent = await readFile(filePath, "utf-8");
+      const levelGuide = LevelGuideSchema.parse(yaml.load(fileContent));
+
+      if (levelGuide.level !== level) {
+        throw new Error(`level '${levelGuide.level}' does not match file name`);
+      }
+
+      this.levelCache.set(cacheKey, levelGuide);
+      return levelGuide;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(
+          `Failed to load level guide ${cacheKey}: ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load the level guides of every level, in level order
+   */
+  static async loadAllLevelGuides(version: string = "v1"): Promise<LevelGuide[]> {
+    return Promise.all(
+      ValidationLevelEnum.options.map((level) => this.loadLevelGuide(level, version))
+    );
+  }
+
   /**
    * Validate rulepack structure
    */
@@ -82,17 +436,19 @@ export class RulepackLoader {
   }
 
   /**
-   * Get available formats
+   * Get available formats, discovered from rulepacks/format (sorted by id;
+   * use FormatRegistry for display order)
    */
-  static getAvailableFormats(): Format[] {
-    return FormatEnum.options;
+  static async getAvailableFormats(): Promise<Format[]> {
+    await this.getAvailableVersions();
+    return Array.from(this.versionIndex?.keys() ?? []).sort();
   }
 
   /**
-   * Check if a format is supported
+   * Check if a format has at least one rulepack file
    */
-  static isFormatSupported(format: string): format is Format {
-    return FormatEnum.safeParse(format).success;
+  static async isFormatSupported(format: string): Promise<boolean> {
+    return (await this.getAvailableVersions(format)).length > 0;
   }
 
   /**
@@ -100,6 +456,10 @@ export class RulepackLoader {
    */
   static clearCache(): void {
     this.cache.clear();
+    this.toneCache.clear();
+    this.levelCache.clear();
+    this.overlayCache.clear();
+    this.versionIndex = null;
   }
 
   /**
@@ -115,7 +475,7 @@ export class RulepackLoader {
   /**
    * Preload all rulepacks (useful for performance optimization)
    */
-  static async preloadAll(version: string = "v1"): Promise<void> {
+  static async preloadAll(version?: string): Promise<void> {
     await this.loadAllFormatPacks(version);
   }
 }
@@ -125,7 +485,7 @@ export class RulepackLoader {
  */
 export async function getRulepack(
   format: Format,
-  version: string = "v1"
+  version?: string
 ): Promise<AnyRulepack | null> {
   try {
     return await RulepackLoader.loadFormatPack(format, version);
@@ -136,14 +496,52 @@ export async function getRulepack(
 }
 
 /**
- * Utility function to get structure hints for a specific format
+ * Utility function to get a tone pack safely with error handling
+ */
+export async function getTonePack(toneId: string): Promise<TonePack | null> {
+  try {
+    return await RulepackLoader.loadTonePack(toneId);
+  } catch (error) {
+    console.error(`Error loading tone pack ${toneId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Utility function to get an overlay pack with error handling
+ */
+export async function getOverlayPack(overlayId: string): Promise<OverlayPack | null> {
+  try {
+    return await RulepackLoader.loadOverlayPack(overlayId);
+  } catch (error) {
+    console.error(`Error loading overlay pack ${overlayId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Utility function to get a level guide with error handling
+ */
+export async function getLevelGuide(
+  level: ValidationLevel
+): Promise<LevelGuide | null> {
+  try {
+    return await RulepackLoader.loadLevelGuide(level);
+  } catch (error) {
+    console.error(`Error loading level guide for ${level}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Utility function to get section definitions for a specific format
  */
-export async function getStructureHints(
+export async function getSections(
   format: Format,
-  version: string = "v1"
-): Promise<Record<string, unknown> | null> {
+  version?: string
+): Promise<Record<string, Section> | null> {
   const rulepack = await getRulepack(format, version);
-  return rulepack?.structureHints || null;
+  return rulepack?.sections || null;
 }
 
 /**
@@ -151,7 +549,7 @@ export async function getStructureHints(
  */
 export async function getComplianceRules(
   format: Format,
-  version: string = "v1"
+  version?: string
 ): Promise<string[] | null> {
   const rulepack = await getRulepack(format, version);
   return rulepack?.complianceRules || null;
@@ -162,7 +560,7 @@ export async function getComplianceRules(
  */
 export async function getGuidelines(
   format: Format,
-  version: string = "v1"
+  version?: string
 ): Promise<{ dos: string[]; donts: string[] } | null> {
   const rulepack = await getRulepack(format, version);
   if (!rulepack) return null;
@@ -179,7 +577,7 @@ export async function getGuidelines(
 export async function getRequiredSections(
   format: Format,
   mode?: string,
-  version: string = "v1"
+  version?: string
 ): Promise<string[] | null> {
   const rulepack = await getRulepack(format, version);
   if (!rulepack) return null;
@@ -198,7 +596,7 @@ export async function getRequiredSections(
  */
 export async function getAvailableModes(
   format: Format,
-  version: string = "v1"
+  version?: string
 ): Promise<Record<string, { description: string; requiredSections: string[] }> | null> {
   const rulepack = await getRulepack(format, version);
   if (!rulepack) return null;
@@ -211,7 +609,7 @@ export async function getAvailableModes(
  */
 export async function getDefaultMode(
   format: Format,
-  version: string = "v1"
+  version?: string
 ): Promise<string | null> {
   const rulepack = await getRulepack(format, version);
   if (!rulepack || !rulepack.modes) return null;
@@ -228,7 +626,7 @@ export async function getDefaultMode(
 export async function isValidMode(
   format: Format,
   mode: string,
-  version: string = "v1"
+  version?: string
 ): Promise<boolean> {
   const availableModes = await getAvailableModes(format, version);
   return availableModes ? mode in availableModes : false;
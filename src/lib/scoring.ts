@@ -0,0 +1,119 @@
+import {
+  type AnyRulepack,
+  type LevelGuide,
+  type ScoreBreakdown,
+  type ScoredCheck,
+  type ScoringConfig,
+} from "@/types/rulepack";
+
+// Ceiling on the score of a validation with a failed error check, unless the
+// rulepack or level sets its own
+export const DEFAULT_ERROR_CAP = 60;
+
+/**
+ * The one way validations are scored. Checks are grouped by category; a
+ * category scores the share of its check weight that passed, and the score
+ * is the average of the categories weighted by category weight. A failed
+ * error check caps the score and fails the validation.
+ */
+export class ScoringModel {
+  /**
+   * Scoring config for a format and level: the level guide's weights and
+   * error cap override the format pack's
+   */
+  static resolveConfig(
+    rulepack: Pick<AnyRulepack, "scoring">,
+    levelGuide: Pick<LevelGuide, "scoring">
+  ): ScoringConfig {
+    const configs = [rulepack.scoring, levelGuide.scoring];
+    const errorCap = configs.reduce<number | undefined>(
+      (cap, config) => config?.errorCap ?? cap,
+      undefined
+    );
+
+    return {
+      ruleWeights: Object.assign(
+        {},
+        ...configs.map((config) => config?.ruleWeights)
+      ),
+      categoryWeights: Object.assign(
+        {},
+        ...configs.map((config) => config?.categoryWeights)
+      ),
+      ...(errorCap !== undefined ? { errorCap } : {}),
+    };
+  }
+
+  /**
+   * Score checks
+   */
+  static score(
+    checks: ScoredCheck[],
+    config: ScoringConfig,
+    passScore: number
+  ): ScoreBreakdown {
+    const groups = new Map<string, ScoredCheck[]>();
+    for (const check of checks) {
+      groups.set(check.category, [
+        ...(groups.get(check.category) ?? []),
+        check,
+      ]);
+    }
+
+    let weightedSum = 0;
+    let weightTotal = 0;
+    const categories = Array.from(groups, ([category, group]) => {
+      const weight = config.categoryWeights[category] ?? 1;
+      const checkWeight = (check: ScoredCheck) =>
+        config.ruleWeights[check.id] ?? 1;
+      const possible = group.reduce(
+        (sum, check) => sum + checkWeight(check),
+        0
+      );
+      const earned = group
+        .filter((check) => check.passed)
+        .reduce((sum, check) => sum + checkWeight(check), 0);
+      const share = possible > 0 ? earned / possible : 1;
+
+      // Categories whose checks all weigh 0 do not count
+      if (possible > 0) {
+        weightedSum += share * weight;
+        weightTotal += weight;
+      }
+
+      return {
+        category,
+        weight,
+        passedChecks: group.filter((check) => check.passed).length,
+        totalChecks: group.length,
+        score: Math.round(share * 100),
+      };
+    });
+
+    const weightedScore =
+      weightTotal > 0 ? Math.round((weightedSum / weightTotal) * 100) : 100;
+    const hasError = checks.some(
+      (check) => !check.passed && check.severity === "error"
+    );
+    const errorCap = hasError
+      ? (config.errorCap ?? DEFAULT_ERROR_CAP)
+      : undefined;
+    const score =
+      errorCap === undefined
+        ? weightedScore
+        : Math.min(weightedScore, errorCap);
+
+    return {
+      score,
+      weightedScore,
+      ...(errorCap !== undefined ? { errorCap } : {}),
+      passScore,
+      passed: !hasError && score >= passScore,
+      passedChecks: checks.filter((check) => check.passed).length,
+      totalChecks: checks.length,
+      categories,
+    };
+  }
+}
+
+export default ScoringModel;
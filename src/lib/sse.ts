@@ -0,0 +1,69 @@
+// Server-Sent Events helpers shared by the streaming route, the browser client
+// and providers that stream over SSE
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Encode one SSE frame with a JSON payload
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Split buffered text into complete SSE events. The trailing, not yet
+ * terminated frame is returned as `rest` to be prepended to the next chunk.
+ */
+export function parseSSE(buffer: string): { events: SSEEvent[]; rest: string } {
+  const frames = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = frames.pop() ?? '';
+  const events: SSEEvent[] = [];
+
+  for (const frame of frames) {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (data.length > 0) {
+      events.push({ event, data: data.join('\n') });
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Read a byte stream and yield SSE events as they complete
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const { events, rest } = parseSSE(buffer);
+      buffer = rest;
+      yield* events;
+    }
+
+    const { events } = parseSSE(buffer + '\n\n');
+    yield* events;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  type LevelGuide,
+  type TokenAllocation,
+  type TokenBudgetPlan,
+  type ValidationLevel
+} from '@/types/rulepack';
+
+import { type LLMPurpose, LLMTokenLimitError } from './llm-providers';
+import { RulepackLoader } from './rulepack-loader';
+import { countTokens } from './tokenizer';
+
+// What a model can take, by model id. Reasoning models think before they
+// answer, in tokens billed and capped as completion tokens.
+const MODEL_PROFILES: Array<{ pattern: RegExp; contextWindow: number; reasoning: boolean }> = [
+  { pattern: /^gpt-5/, contextWindow: 400_000, reasoning: true },
+  { pattern: /^o\d/, contextWindow: 200_000, reasoning: true },
+  { pattern: /^gpt-4\.1/, contextWindow: 1_047_576, reasoning: false },
+  { pattern: /^gpt-4o/, contextWindow: 128_000, reasoning: false },
+  { pattern: /^claude-/, contextWindow: 200_000, reasoning: false },
+];
+
+// Context window assumed for models not listed above (e.g. local models)
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Reasoning tokens set aside for reasoning models at minimal effort
+const REASONING_ALLOCATION = 2000;
+
+export interface BudgetPlanRequest {
+  model: string;
+  level: ValidationLevel;
+  purpose?: LLMPurpose | undefined; // Defaults to 'generate'
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+/**
+ * Splits a request's tokens into system prompt, user prompt, reasoning and
+ * output shares for the model and level, and decides whether it fits. This
+ * is the only place token limits are decided; the token guard reports the
+ * plan to users and the LLM client enforces it before every call.
+ *
+ * Only the user prompt's share is a hard limit within the level guide,
+ * since users can shorten what they wrote. The system prompt is built from
+ * rulepacks, so when it outgrows its share it gets the tokens it needs and
+ * the plan says so; past that, only the model's context window applies.
+ */
+export class TokenBudgetPlanner {
+  /**
+   * Plan a request with its level guide
+   */
+  static async plan(request: BudgetPlanRequest): Promise<TokenBudgetPlan> {
+    return this.planFor(request, await RulepackLoader.loadLevelGuide(request.level));
+  }
+
+  /**
+   * Plan a request with a level guide already loaded
+   */
+  static planFor(request: BudgetPlanRequest, levelGuide: LevelGuide): TokenBudgetPlan {
+    const { model, purpose = 'generate' } = request;
+    const { tokenLimits } = levelGuide;
+    const profile = MODEL_PROFILES.find(({ pattern }) => pattern.test(model));
+    const contextWindow = profile?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+
+    const systemUsed = countTokens(request.systemPrompt, model);
+    const userUsed = countTokens(request.userPrompt, model);
+    const systemShare = tokenLimits.input - tokenLimits.user;
+
+    const system: TokenAllocation = systemUsed <= systemShare
+      ? {
+        tokens: systemShare,
+        used: systemUsed,
+        reason: `${levelGuide.name} 수준의 입력 한도 ${tokenLimits.input} 중 사용자 입력 몫을 뺀 나머지`,
+      }
+      : {
+        tokens: systemUsed,
+        used: systemUsed,
+        reason: `규칙과 지침이 기본 몫(${systemShare})보다 길어 필요한 만큼 배정했습니다. 사용자가 줄일 수 없는 부분이라 한도에 포함하지 않습니다`,
+      };
+
+    // A rewrite or judgment also carries the text under review, which was
+    // itself produced within the level's output limit
+    const carriesText = purpose === 'rewrite' || purpose === 'judge';
+    const user: TokenAllocation = {
+      tokens: tokenLimits.user + (carriesText ? tokenLimits.output : 0),
+      used: userUsed,
+      reason: carriesText
+        ? `${levelGuide.name} 수준의 사용자 입력 몫 ${tokenLimits.user}에 검토할 글(출력 한도 ${tokenLimits.output})을 더한 값`
+        : `${levelGuide.name} 수준의 사용자 입력 몫 (주제, 배경 정보, 추가 요구사항)`,
+    };
+
+    const reasoning: TokenAllocation = profile?.reasoning
+      ? {
+        tokens: REASONING_ALLOCATION,
+        reason: `${model} 모델은 답변 전에 추론 토큰을 쓰므로 최소 추론 노력 기준으로 따로 배정했습니다`,
+      }
+      : { tokens: 0, reason: `${model || '설정된'} 모델은 추론 토큰을 쓰지 않습니다` };
+
+    const output: TokenAllocation = {
+      tokens: tokenLimits.output,
+      reason: `${levelGuide.name} 수준에서 생성할 프롬프트의 최대 길이`,
+    };
+
+    const plan: TokenBudgetPlan = { model, level: request.level, contextWindow, system, user, reasoning, output };
+    if (userUsed > user.tokens) {
+      plan.exceeded = 'user';
+    } else if (this.totalTokens(plan) > contextWindow) {
+      plan.exceeded = 'context';
+    }
+    return plan;
+  }
+
+  /**
+   * Throw if the request does not fit its plan
+   */
+  static enforce(plan: TokenBudgetPlan): void {
+    if (plan.exceeded === 'user') {
+      throw new LLMTokenLimitError(plan.user.used ?? 0, plan.user.tokens, 'user');
+    }
+    if (plan.exceeded === 'context') {
+      throw new LLMTokenLimitError(this.totalTokens(plan), plan.contextWindow, 'context');
+    }
+  }
+
+  /**
+   * Tokens the plan needs in all: both prompts as measured, plus reasoning
+   * and output
+   */
+  static totalTokens(plan: TokenBudgetPlan): number {
+    return (plan.system.used ?? plan.system.tokens)
+      + (plan.user.used ?? plan.user.tokens)
+      + plan.reasoning.tokens
+      + plan.output.tokens;
+  }
+}
@@ -1,10 +1,23 @@
+import { createHash } from 'crypto';
+
 import { 
+  type BudgetStatus,
+  type CostMetadata,
   type Format, 
+  type LevelGuide,
   type ValidationLevel,
   type RequestMetadata,
-  TokenLimitsSchema
+  type TokenBudgetPlan
 } from '@/types/rulepack';
 
+import { FormatRegistry } from './format-registry';
+import { configuredModel, type LLMPurpose, type LLMResponse } from './llm-providers';
+import { PricingCatalog, type CompletionCost } from './pricing';
+import { RulepackLoader } from './rulepack-loader';
+import { TokenBudgetPlanner } from './token-budget';
+import { countTokens } from './tokenizer';
+import { TokenLedger, monthOf, type UsageFilter } from './token-ledger';
+
 // Token usage tracking
 interface TokenUsage {
   promptTokens: number;
@@ -13,48 +26,73 @@ interface TokenUsage {
   estimatedCost: number; // in USD
 }
 
-// Token guard configuration
+// Monthly token budget; requests are warned about past softRatio of it
+interface BudgetLimit {
+  monthlyTokens: number;
+  softRatio: number;
+}
+
+// Budgets by scope; a scope without one is unlimited. The office and user
+// budgets apply to each office and user separately.
+interface BudgetConfig {
+  global?: BudgetLimit | undefined;
+  office?: BudgetLimit | undefined;
+  user?: BudgetLimit | undefined;
+  averagePerRequest?: number; // Monthly average total tokens to warn above
+}
+
+// Token guard configuration (limits come from TokenBudgetPlanner, prices
+// from the pricing catalog)
 interface TokenGuardConfig {
-  limits: {
-    basic: number;
-    intermediate: number;
-    advanced: number;
-  };
-  pricing: {
-    gpt4oMini: {
-      input: number;  // per 1M tokens
-      output: number; // per 1M tokens
-    };
-  };
+  budgets: BudgetConfig;
   warningThreshold: number; // percentage
   logAllRequests: boolean;
 }
 
 // Token guard result
-interface TokenGuardResult {
-  allowed: boolean;
+export interface TokenGuardResult {
+  allowed: boolean; // Fits its token plan and every budget
+  budgetExceeded: boolean;
+  budgets: BudgetStatus[]; // Every budget the request counts against
+  plan: TokenBudgetPlan;
   usage: TokenUsage;
-  limit: number;
+  limit: number; // The user prompt's share
   remaining: number;
   warnings: string[];
   suggestions: string[];
 }
 
+// Office that requests without an office overlay are counted under, so
+// leaving the overlay out does not escape the office budget
+const UNASSIGNED_OFFICE = 'unassigned';
+
+// What users are told when a budget refuses their request
+export const BUDGET_EXCEEDED_SUGGESTION = '다음 달에 다시 시도하거나 관리자에게 예산 조정을 요청하세요';
+
+// Budget scopes as shown to users
+const BUDGET_NAMES: Record<BudgetStatus['scope'], string> = {
+  global: '전체',
+  office: '의원실',
+  user: '사용자',
+};
+
 export class TokenGuard {
   private config: TokenGuardConfig;
+  private ledger: TokenLedger;
 
-  constructor() {
+  constructor(ledger: TokenLedger = new TokenLedger()) {
+    const softRatio = parseFloat(process.env.TOKEN_BUDGET_SOFT_RATIO || '0.8');
+    const budget = (value: string | undefined): BudgetLimit | undefined =>
+      value ? { monthlyTokens: parseInt(value), softRatio } : undefined;
+
+    this.ledger = ledger;
     this.config = {
-      limits: TokenLimitsSchema.parse({
-        basic: parseInt(process.env.NEXT_PUBLIC_TOKEN_LIMIT_BASIC || '300'),
-        intermediate: parseInt(process.env.NEXT_PUBLIC_TOKEN_LIMIT_INTERMEDIATE || '600'),
-        advanced: parseInt(process.env.NEXT_PUBLIC_TOKEN_LIMIT_ADVANCED || '900'),
-      }),
-      pricing: {
-        gpt4oMini: {
-          input: 0.00015,  // $0.15 per 1M tokens
-          output: 0.0006,  // $0.60 per 1M tokens
-        },
+      budgets: {
+        global: budget(process.env.TOKEN_BUDGET_MONTHLY),
+        office: budget(process.env.TOKEN_BUDGET_OFFICE_MONTHLY),
+        user: budget(process.env.TOKEN_BUDGET_USER_MONTHLY),
+        // PRD section 10: average total tokens per request below 900
+        averagePerRequest: parseInt(process.env.TOKEN_BUDGET_AVERAGE_PER_REQUEST || '900'),
       },
       warningThreshold: 0.8, // 80%
       logAllRequests: process.env.NODE_ENV === 'development',
@@ -69,28 +107,33 @@ export class TokenGuard {
     userPrompt: string,
     format: Format,
     level: ValidationLevel,
-    metadata: RequestMetadata
+    metadata: RequestMetadata,
+    purpose: LLMPurpose = 'generate'
   ): Promise<TokenGuardResult> {
     const startTime = Date.now();
 
-    // Estimate input tokens
-    const promptTokens = this.estimateTokens(systemPrompt + userPrompt);
-    const limit = this.config.limits[level];
-    
-    // Reserve tokens for completion (20% for prompt generation, 80% for prompt content)
-    const reservedTokens = Math.floor(limit * 0.2);
-    const maxPromptTokens = limit - reservedTokens;
+    // Plan the request's tokens for the configured model
+    const model = configuredModel();
+    const plan = await TokenBudgetPlanner.plan({ model, level, purpose, systemPrompt, userPrompt });
+    const userTokens = plan.user.used ?? 0;
+    const promptTokens = (plan.system.used ?? 0) + userTokens;
 
-    // Check if prompt exceeds limit
-    const allowed = promptTokens <= maxPromptTokens;
-    const remaining = Math.max(0, maxPromptTokens - promptTokens);
+    // Only the user prompt's share limits what users write
+    const limit = plan.user.tokens;
+    const totalLimit = plan.system.tokens + plan.user.tokens + plan.output.tokens;
+    const withinLimit = !plan.exceeded;
+    const remaining = Math.max(0, limit - userTokens);
 
     // Estimate completion tokens
-    const estimatedCompletionTokens = this.estimateCompletionTokens(format, level);
+    const estimatedCompletionTokens = await this.estimateCompletionTokens(format, level);
     const totalEstimatedTokens = promptTokens + estimatedCompletionTokens;
 
-    // Calculate estimated cost
-    const estimatedCost = this.calculateCost(promptTokens, estimatedCompletionTokens);
+    // Calculate estimated cost with the configured model's prices
+    const estimatedCost = PricingCatalog.costOf(model, {
+      promptTokens,
+      completionTokens: estimatedCompletionTokens,
+      totalTokens: totalEstimatedTokens,
+    }).total;
 
     const usage: TokenUsage = {
       promptTokens,
@@ -103,22 +146,69 @@ export class TokenGuard {
     const warnings: string[] = [];
     const suggestions: string[] = [];
 
-    if (!allowed) {
-      warnings.push(`프롬프트 토큰이 ${level} 레벨 한도를 초과했습니다 (${promptTokens}/${maxPromptTokens})`);
+    if (plan.exceeded === 'user') {
+      warnings.push(`입력 내용의 토큰이 ${level} 레벨 한도를 초과했습니다 (${userTokens}/${limit})`);
       suggestions.push('주제를 더 간결하게 작성해보세요');
-      suggestions.push('배경 정보를 줄여보세요');
+      suggestions.push('배경 정보나 추가 요구사항을 줄여보세요');
       
-      if (level !== 'basic') {
-        const lowerLevel = level === 'advanced' ? 'intermediate' : 'basic';
-        suggestions.push(`${lowerLevel} 레벨로 변경해보세요`);
+      const roomierLevel = (await RulepackLoader.loadAllLevelGuides())
+        .find(guide => guide.tokenLimits.user > limit);
+      if (roomierLevel) {
+        suggestions.push(`${roomierLevel.name} 레벨로 변경해보세요`);
       }
-    } else if (promptTokens > maxPromptTokens * this.config.warningThreshold) {
-      warnings.push(`토큰 사용량이 높습니다 (${promptTokens}/${maxPromptTokens})`);
+    } else if (plan.exceeded === 'context') {
+      warnings.push(
+        `요청이 ${model} 모델의 컨텍스트 한도를 넘습니다 (${TokenBudgetPlanner.totalTokens(plan)}/${plan.contextWindow})`
+      );
+      suggestions.push('관리자에게 더 긴 입력을 지원하는 모델 설정을 요청하세요');
+    } else if (userTokens > limit * this.config.warningThreshold) {
+      warnings.push(`입력 내용의 토큰이 많습니다 (${userTokens}/${limit})`);
       suggestions.push('더 나은 성능을 위해 내용을 줄여보세요');
     }
 
-    if (totalEstimatedTokens > limit * 0.9) {
-      warnings.push(`예상 총 토큰이 한도에 가깝습니다 (${totalEstimatedTokens}/${limit})`);
+    if (totalEstimatedTokens > totalLimit * 0.9) {
+      warnings.push(`예상 총 토큰이 한도에 가깝습니다 (${totalEstimatedTokens}/${totalLimit})`);
+    }
+
+    // Check this month's budgets, counting this request's estimate
+    const { office, userKey } = budgetKeysOf(metadata);
+    const budgets = await this.checkBudgets({ office, userKey }, totalEstimatedTokens);
+    const budgetExceeded = budgets.some(budget => budget.state === 'hard');
+    for (const budget of budgets.filter(budget => budget.state !== 'ok')) {
+      warnings.push(
+        budget.state === 'hard'
+          ? `이번 달 ${BUDGET_NAMES[budget.scope]} 토큰 예산을 초과합니다 (${budget.usedTokens}+${totalEstimatedTokens}/${budget.limit})`
+          : `이번 달 ${BUDGET_NAMES[budget.scope]} 토큰 예산의 ${Math.round((budget.usedTokens / budget.limit) * 100)}%를 사용했습니다`
+      );
+    }
+    if (budgetExceeded) {
+      suggestions.push(BUDGET_EXCEEDED_SUGGESTION);
+    }
+
+    const { averagePerRequest } = this.config.budgets;
+    if (averagePerRequest) {
+      const month = await this.ledger.summarize({ month: monthOf() });
+      const average = month.requestCount > 0 ? Math.round(month.totalTokens / month.requestCount) : 0;
+      if (average > averagePerRequest) {
+        warnings.push(`이번 달 요청당 평균 토큰(${average})이 기준(${averagePerRequest})을 넘었습니다`);
+      }
+    }
+
+    const allowed = withinLimit && !budgetExceeded;
+    if (allowed) {
+      await this.ledger.record({
+        requestId: metadata.requestId,
+        type: 'estimated',
+        timestamp: new Date().toISOString(),
+        format,
+        level,
+        ...(userKey ? { userId: userKey } : {}),
+        office,
+        promptTokens,
+        completionTokens: estimatedCompletionTokens,
+        totalTokens: totalEstimatedTokens,
+        cost: estimatedCost,
+      });
     }
 
     // Log request
@@ -136,6 +226,9 @@ export class TokenGuard {
 
     return {
       allowed,
+      budgetExceeded,
+      budgets,
+      plan,
       usage,
       limit,
       remaining,
@@ -145,77 +238,122 @@ export class TokenGuard {
   }
 
   /**
-   * Estimate token count for text
+   * This month's budgets for a further LLM call of a request that
+   * checkTokenLimits admitted, counting the call's own estimate on top of
+   * the usage recorded so far. Nothing is recorded.
    */
-  private estimateTokens(text: string): number {
-    if (!text) return 0;
-    
-    // More accurate estimation for Korean + English mixed text
-    const koreanChars = (text.match(/[\u3130-\u318F\uAC00-\uD7AF]/g) || []).length;
-    const englishChars = text.length - koreanChars;
-    
-    // Korean: ~2.5 chars per token, English: ~4 chars per token
-    const koreanTokens = Math.ceil(koreanChars / 2.5);
-    const englishTokens = Math.ceil(englishChars / 4);
-    
-    return koreanTokens + englishTokens;
+  async checkCallBudgets(
+    systemPrompt: string,
+    userPrompt: string,
+    format: Format,
+    level: ValidationLevel,
+    metadata: RequestMetadata,
+    purpose: LLMPurpose = 'generate'
+  ): Promise<BudgetStatus[]> {
+    const plan = await TokenBudgetPlanner.plan({ model: configuredModel(), level, purpose, systemPrompt, userPrompt });
+    const callTokens = (plan.system.used ?? 0) + (plan.user.used ?? 0)
+      + await this.estimateCompletionTokens(format, level);
+
+    return this.checkBudgets(budgetKeysOf(metadata), callTokens);
   }
 
   /**
-   * Estimate completion tokens based on format and level
+   * This month's usage against every budget the request counts against.
+   * A budget is at its hard state when the request would take usage past
+   * the limit.
    */
-  private estimateCompletionTokens(format: Format, level: ValidationLevel): number {
-    const baseEstimates = {
-      press_release: { basic: 150, intermediate: 250, advanced: 350 },
-      speech: { basic: 200, intermediate: 300, advanced: 450 },
-      sns: { basic: 50, intermediate: 100, advanced: 150 },
-      inquiry: { basic: 180, intermediate: 280, advanced: 400 },
-      report: { basic: 250, intermediate: 400, advanced: 550 },
-      media_scraping: { basic: 120, intermediate: 200, advanced: 300 },
-    };
+  private async checkBudgets(
+    keys: { office?: string | undefined; userKey?: string | undefined },
+    requestTokens: number
+  ): Promise<BudgetStatus[]> {
+    const month = monthOf();
+    const scopes: Array<{ scope: BudgetStatus['scope']; filter: UsageFilter | undefined }> = [
+      { scope: 'global', filter: {} },
+      { scope: 'office', filter: keys.office ? { office: keys.office } : undefined },
+      { scope: 'user', filter: keys.userKey ? { userId: keys.userKey } : undefined },
+    ];
+
+    const budgets: BudgetStatus[] = [];
+    for (const { scope, filter } of scopes) {
+      const budget = this.config.budgets[scope];
+      if (!budget || !filter) {
+        continue;
+      }
 
-    return baseEstimates[format]?.[level] || 200;
+      const { totalTokens: usedTokens } = await this.ledger.summarize({ ...filter, month });
+      const softLimit = Math.floor(budget.monthlyTokens * budget.softRatio);
+      budgets.push({
+        scope,
+        month,
+        usedTokens,
+        limit: budget.monthlyTokens,
+        softLimit,
+        state: usedTokens + requestTokens > budget.monthlyTokens
+          ? 'hard'
+          : usedTokens + requestTokens > softLimit ? 'soft' : 'ok',
+      });
+    }
+
+    return budgets;
   }
 
   /**
-   * Calculate estimated cost
+   * Estimate completion tokens from the format's rulepack
    */
-  private calculateCost(inputTokens: number, outputTokens: number): number {
-    const { input, output } = this.config.pricing.gpt4oMini;
-    
-    const inputCost = (inputTokens / 1_000_000) * input;
-    const outputCost = (outputTokens / 1_000_000) * output;
-    
-    return inputCost + outputCost;
+  private async estimateCompletionTokens(format: Format, level: ValidationLevel): Promise<number> {
+    return (await FormatRegistry.getCompletionEstimate(format, level)) ?? 200;
   }
 
   /**
-   * Log actual token usage after LLM response
+   * Log actual token usage after LLM response, priced by the model that
+   * answered (or by the provider, for offline ones)
    */
   async logActualUsage(
     requestId: string,
-    actualUsage: {
-      promptTokens: number;
-      completionTokens: number;
-      totalTokens: number;
-    },
-    responseTime: number
-  ): Promise<void> {
-    const actualCost = this.calculateCost(
-      actualUsage.promptTokens, 
-      actualUsage.completionTokens
-    );
+    response: Pick<LLMResponse, 'usage' | 'model' | 'responseTime' | 'provider'>
+  ): Promise<CompletionCost> {
+    const { usage, model, provider } = response;
+    const cost = PricingCatalog.costOf(model, usage, provider);
+
+    await this.ledger.record({
+      requestId,
+      type: 'actual',
+      timestamp: new Date().toISOString(),
+      model,
+      ...(provider ? { provider } : {}),
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      ...(usage.cachedPromptTokens ? { cachedPromptTokens: usage.cachedPromptTokens } : {}),
+      ...(usage.reasoningTokens ? { reasoningTokens: usage.reasoningTokens } : {}),
+      cost: cost.total,
+    });
 
     await this.logTokenUsage({
       requestId,
       type: 'actual',
+      model,
       usage: {
-        ...actualUsage,
-        estimatedCost: actualCost,
+        ...usage,
+        estimatedCost: cost.total,
       },
-      processingTime: responseTime,
+      processingTime: response.responseTime,
       timestamp: new Date().toISOString(),
     });
+
+    return cost;
+  }
+
+  /**
+   * Actual cost of a request's LLM calls so far, from the usage ledger
+   */
+  async getRequestCost(requestId: string): Promise<CostMetadata> {
+    const entries = await this.ledger.entries(requestId);
+    return PricingCatalog.summarize(
+      entries
+        .filter(entry => entry.type === 'actual')
+        .map(entry => PricingCatalog.costOf(entry.model ?? '', entry, entry.provider))
+    );
   }
 
   /**
@@ -231,36 +369,45 @@ export class TokenGuard {
   }
 
   /**
-   * Get current limits
+   * Get current limits per level, as defined by the level guides
    */
-  getLimits(): { basic: number; intermediate: number; advanced: number } {
-    return { ...this.config.limits };
+  async getLimits(): Promise<Record<ValidationLevel, LevelGuide['tokenLimits']>> {
+    const levelGuides = await RulepackLoader.loadAllLevelGuides();
+    return Object.fromEntries(
+      levelGuides.map(guide => [guide.level, { ...guide.tokenLimits }])
+    ) as Record<ValidationLevel, LevelGuide['tokenLimits']>;
   }
 
   /**
-   * Get token statistics for format/level combination
+   * Token statistics from the usage ledger for the requests matching a
+   * filter, with this month's budgets for the filter's user and office.
+   * The filter names a user by session id or token, as requests do.
    */
-  async getTokenStats(
-    format: Format, 
-    level: ValidationLevel
-  ): Promise<{
+  async getTokenStats(filter: UsageFilter = {}): Promise<{
+    month?: string;
+    requestCount: number;
+    totalTokens: number;
+    totalCost: number;
     averagePromptTokens: number;
     averageCompletionTokens: number;
     averageTotalTokens: number;
     averageCost: number;
-    requestCount: number;
+    budgets: BudgetStatus[];
   }> {
-    // In production, this would query actual usage data
-    // For now, return estimated values
-    const estimatedCompletion = this.estimateCompletionTokens(format, level);
-    const averagePrompt = Math.floor(this.config.limits[level] * 0.3);
-    
+    const userKey = filter.userId ? userKeyOf(filter.userId) : undefined;
+    const summary = await this.ledger.summarize({ ...filter, ...(userKey ? { userId: userKey } : {}) });
+    const average = (value: number) => summary.requestCount > 0 ? value / summary.requestCount : 0;
+
     return {
-      averagePromptTokens: averagePrompt,
-      averageCompletionTokens: estimatedCompletion,
-      averageTotalTokens: averagePrompt + estimatedCompletion,
-      averageCost: this.calculateCost(averagePrompt, estimatedCompletion),
-      requestCount: 0, // Would be actual count from logs
+      ...(filter.month ? { month: filter.month } : {}),
+      requestCount: summary.requestCount,
+      totalTokens: summary.totalTokens,
+      totalCost: summary.cost,
+      averagePromptTokens: Math.round(average(summary.promptTokens)),
+      averageCompletionTokens: Math.round(average(summary.completionTokens)),
+      averageTotalTokens: Math.round(average(summary.totalTokens)),
+      averageCost: average(summary.cost),
+      budgets: await this.checkBudgets({ office: filter.office, userKey }, 0),
     };
   }
 
@@ -271,7 +418,7 @@ export class TokenGuard {
     prompt: string, 
     targetTokens: number
   ): { optimizedPrompt: string; tokensSaved: number } {
-    const originalTokens = this.estimateTokens(prompt);
+    const originalTokens = countTokens(prompt);
     
     if (originalTokens <= targetTokens) {
       return { optimizedPrompt: prompt, tokensSaved: 0 };
@@ -285,12 +432,12 @@ export class TokenGuard {
     
     // Truncate if still too long
     const targetRatio = targetTokens / originalTokens;
-    if (this.estimateTokens(optimized) > targetTokens) {
+    if (countTokens(optimized) > targetTokens) {
       const targetLength = Math.floor(optimized.length * targetRatio * 0.9);
       optimized = optimized.substring(0, targetLength) + '...';
     }
 
-    const finalTokens = this.estimateTokens(optimized);
+    const finalTokens = countTokens(optimized);
     const tokensSaved = originalTokens - finalTokens;
 
     return { optimizedPrompt: optimized, tokensSaved };
@@ -311,6 +458,24 @@ export class TokenGuard {
   }
 }
 
+/**
+ * Key a user is counted under in the ledger: a hash of their session id or
+ * bearer token, so neither is stored or compared in the clear
+ */
+function userKeyOf(userId: string): string {
+  return createHash('sha256').update(userId).digest('hex');
+}
+
+/**
+ * Office and user a request's usage counts against
+ */
+function budgetKeysOf(metadata: RequestMetadata): { office: string; userKey: string | undefined } {
+  return {
+    office: metadata.office ?? UNASSIGNED_OFFICE,
+    userKey: metadata.sessionId ? userKeyOf(metadata.sessionId) : undefined,
+  };
+}
+
 // Singleton instance
 let tokenGuardInstance: TokenGuard | null = null;
 
@@ -0,0 +1,152 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+import { type Format, type ValidationLevel } from '@/types/rulepack';
+
+import { type LLMProviderName } from './llm-providers';
+
+// One line of the ledger: a request's estimate before it runs, or the usage
+// one of its LLM calls reported
+export interface LedgerEntry {
+  requestId: string;
+  type: 'estimated' | 'actual';
+  timestamp: string;
+  format?: Format;
+  level?: ValidationLevel;
+  userId?: string; // SHA-256 of the user's session id or token
+  office?: string;
+  model?: string; // Model that answered, for actual usage
+  provider?: LLMProviderName; // Provider that answered, for actual usage
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cachedPromptTokens?: number; // Part of promptTokens
+  reasoningTokens?: number; // Part of completionTokens
+  cost: number; // in USD
+}
+
+// Which requests to aggregate; every field narrows the selection
+export interface UsageFilter {
+  month?: string; // YYYY-MM (UTC)
+  format?: Format;
+  level?: ValidationLevel;
+  userId?: string;
+  office?: string;
+}
+
+export interface UsageSummary {
+  requestCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+/**
+ * Month of a timestamp, or of now, as YYYY-MM (UTC)
+ */
+export function monthOf(timestamp: string | Date = new Date()): string {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+/**
+ * Append-only token usage ledger, one JSON entry per line in
+ * TOKEN_LEDGER_PATH (.data/token-ledger.jsonl by default). A request counts
+ * the usage its LLM calls reported, or its estimate when none did; its
+ * format, level, user and office come from the estimate.
+ */
+export class TokenLedger {
+  private loading: Promise<LedgerEntry[]> | null = null;
+
+  constructor(
+    readonly path: string = process.env.TOKEN_LEDGER_PATH || join(process.cwd(), '.data', 'token-ledger.jsonl')
+  ) {}
+
+  /**
+   * Append an entry. An entry that cannot be written (e.g. on a read-only
+   * file system) is still counted by this process.
+   */
+  async record(entry: LedgerEntry): Promise<void> {
+    const entries = await this.load();
+    entries.push(entry);
+
+    try {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      console.warn(`[TokenLedger] Failed to write ${this.path}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Entries recorded for a request, oldest first
+   */
+  async entries(requestId: string): Promise<LedgerEntry[]> {
+    return (await this.load()).filter(entry => entry.requestId === requestId);
+  }
+
+  /**
+   * Usage of the requests matching a filter
+   */
+  async summarize(filter: UsageFilter = {}): Promise<UsageSummary> {
+    const requests = new Map<string, { estimate?: LedgerEntry; actual: LedgerEntry[]; timestamp: string }>();
+    for (const entry of await this.load()) {
+      const request = requests.get(entry.requestId) ?? { actual: [], timestamp: entry.timestamp };
+      if (entry.type === 'estimated') {
+        request.estimate = entry;
+      } else {
+        request.actual.push(entry);
+      }
+      requests.set(entry.requestId, request);
+    }
+
+    const summary: UsageSummary = { requestCount: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+    for (const { estimate, actual, timestamp } of requests.values()) {
+      const matches = (filter.month === undefined || monthOf(timestamp) === filter.month)
+        && (['format', 'level', 'userId', 'office'] as const)
+          .every(field => filter[field] === undefined || estimate?.[field] === filter[field]);
+      if (!matches) {
+        continue;
+      }
+
+      summary.requestCount++;
+      for (const entry of actual.length > 0 ? actual : [estimate!]) {
+        summary.promptTokens += entry.promptTokens;
+        summary.completionTokens += entry.completionTokens;
+        summary.totalTokens += entry.totalTokens;
+        summary.cost += entry.cost;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Entries on disk, read once; later entries are kept in memory as they
+   * are recorded
+   */
+  private load(): Promise<LedgerEntry[]> {
+    this.loading ??= readFile(this.path, 'utf-8').then(
+      content => content
+        .split('\n')
+        .filter(line => line.trim())
+        .flatMap(line => {
+          try {
+            return [JSON.parse(line) as LedgerEntry];
+          } catch {
+            console.warn(`[TokenLedger] Skipping unreadable entry in ${this.path}`);
+            return [];
+          }
+        }),
+      (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+}
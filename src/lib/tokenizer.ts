@@ -0,0 +1,264 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import { configuredModel } from './llm-providers';
+
+// Pre-tokenization pattern of each vocabulary under tokenizers/: text is
+// split into these pieces and BPE merges only within a piece. As published
+// with the vocabularies (tiktoken's case-insensitive contractions spelled
+// out, since JavaScript has no inline flags).
+const CONTRACTIONS = `'s|'S|'t|'T|'re|'rE|'Re|'RE|'ve|'vE|'Ve|'VE|'m|'M|'ll|'lL|'Ll|'LL|'d|'D`;
+const VOCABULARY_PATTERNS: Record<string, string> = {
+  o200k_base: [
+    String.raw`[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]*[\p{Ll}\p{Lm}\p{Lo}\p{M}]+(?:${CONTRACTIONS})?`,
+    String.raw`[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]+[\p{Ll}\p{Lm}\p{Lo}\p{M}]*(?:${CONTRACTIONS})?`,
+    String.raw`\p{N}{1,3}`,
+    String.raw` ?[^\s\p{L}\p{N}]+[\r\n/]*`,
+    String.raw`\s*[\r\n]+`,
+    String.raw`\s+(?!\S)`,
+    String.raw`\s+`,
+  ].join('|'),
+  cl100k_base: [
+    `(?:${CONTRACTIONS})`,
+    String.raw`[^\r\n\p{L}\p{N}]?\p{L}+`,
+    String.raw`\p{N}{1,3}`,
+    String.raw` ?[^\s\p{L}\p{N}]+[\r\n]*`,
+    String.raw`\s*[\r\n]+`,
+    String.raw`\s+(?!\S)`,
+    String.raw`\s+`,
+  ].join('|'),
+};
+
+// Vocabulary for models without a published one (Anthropic, local and
+// offline models), as the closest available estimate
+export const DEFAULT_VOCABULARY = 'o200k_base';
+
+// Vocabulary each model family tokenizes with, by model id
+const MODEL_VOCABULARIES: Array<{ pattern: RegExp; vocabulary: string }> = [
+  { pattern: /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/, vocabulary: 'o200k_base' },
+  { pattern: /^(gpt-4|gpt-3\.5)/, vocabulary: 'cl100k_base' },
+];
+
+/**
+ * Byte-level BPE tokenizer over a vocabulary in tiktoken's rank file format
+ * (one `<base64 token> <rank>` per line). Text is split into pieces and each
+ * piece's UTF-8 bytes are merged pairwise, lowest rank first. Special tokens
+ * are not recognized; they count as the text they are written as.
+ */
+export class BPETokenizer {
+  private pattern: RegExp;
+
+  // Token bytes (one char per byte) to rank, and back
+  private ranks: Map<string, number>;
+  private tokens: Map<number, string>;
+
+  constructor(readonly vocabulary: string, ranks: Map<string, number>, pattern: string) {
+    this.pattern = new RegExp(pattern, 'gu');
+    this.ranks = ranks;
+    this.tokens = new Map(Array.from(ranks, ([token, rank]) => [rank, token]));
+  }
+
+  /**
+   * Load tokenizers/<vocabulary>.tiktoken
+   */
+  static load(vocabulary: string): BPETokenizer {
+    const ranks = new Map<string, number>();
+
+    for (const line of readFileSync(vocabularyPath(vocabulary), 'utf-8').split('\n')) {
+      const [token, rank] = line.trim().split(' ');
+      if (token && rank) {
+        ranks.set(Buffer.from(token, 'base64').toString('latin1'), parseInt(rank));
+      }
+    }
+
+    return new BPETokenizer(vocabulary, ranks, VOCABULARY_PATTERNS[vocabulary]!);
+  }
+
+  /**
+   * Token ids of a text
+   */
+  encode(text: string): number[] {
+    return (text.match(this.pattern) ?? []).flatMap(piece =>
+      this.mergePiece(Buffer.from(piece, 'utf-8').toString('latin1'))
+    );
+  }
+
+  /**
+   * Text of token ids
+   */
+  decode(tokens: number[]): string {
+    return Buffer.from(tokens.map(token => this.tokens.get(token) ?? '').join(''), 'latin1').toString('utf-8');
+  }
+
+  /**
+   * Number of tokens in a text
+   */
+  count(text: string): number {
+    return text ? this.encode(text).length : 0;
+  }
+
+  /**
+   * Merge a piece's bytes pairwise, always taking the lowest-ranked pair
+   * (leftmost on ties). Parts form a linked list and candidate pairs wait in
+   * a heap, so long pieces merge in O(n log n) rather than rescanning every
+   * pair after each merge.
+   */
+  private mergePiece(piece: string): number[] {
+    const whole = this.ranks.get(piece);
+    if (whole !== undefined) {
+      return [whole];
+    }
+
+    // Parts by start index; merged parts keep the left start and the right
+    // one is emptied. A part's version changes whenever it does, so queued
+    // pairs that no longer exist can be told apart.
+    const parts = Array.from(piece);
+    const next = parts.map((_, i) => i + 1);
+    const prev = parts.map((_, i) => i - 1);
+    const versions = parts.map(() => 0);
+    const pairs = new PairHeap();
+
+    const push = (left: number) => {
+      const right = next[left]!;
+      if (right < parts.length) {
+        const rank = this.ranks.get(parts[left]! + parts[right]!);
+        if (rank !== undefined) {
+          pairs.push({ rank, left, right, leftVersion: versions[left]!, rightVersion: versions[right]! });
+        }
+      }
+    };
+
+    for (let i = 0; i < parts.length - 1; i++) {
+      push(i);
+    }
+
+    for (let pair = pairs.pop(); pair; pair = pairs.pop()) {
+      const { left, right } = pair;
+      if (versions[left] !== pair.leftVersion || versions[right] !== pair.rightVersion) {
+        continue;
+      }
+
+      parts[left] = parts[left]! + parts[right]!;
+      parts[right] = '';
+      versions[left]!++;
+      versions[right]!++;
+      next[left] = next[right]!;
+      if (next[left]! < parts.length) {
+        prev[next[left]!] = left;
+      }
+
+      if (prev[left]! >= 0) {
+        push(prev[left]!);
+      }
+      push(left);
+    }
+
+    // Every vocabulary has the 256 single bytes
+    return parts.filter(part => part).map(part => this.ranks.get(part) ?? 0);
+  }
+}
+
+interface PairCandidate {
+  rank: number;
+  left: number; // Start index of the pair's left part
+  right: number;
+  leftVersion: number;
+  rightVersion: number;
+}
+
+/**
+ * Binary min-heap of candidate pairs by rank, then by position
+ */
+class PairHeap {
+  private items: PairCandidate[] = [];
+
+  push(item: PairCandidate): void {
+    const { items } = this;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!precedes(items[i]!, items[parent]!)) {
+        break;
+      }
+      [items[i], items[parent]] = [items[parent]!, items[i]!];
+      i = parent;
+    }
+  }
+
+  pop(): PairCandidate | undefined {
+    const { items } = this;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && precedes(items[left]!, items[smallest]!)) {
+          smallest = left;
+        }
+        if (right < items.length && precedes(items[right]!, items[smallest]!)) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        [items[i], items[smallest]] = [items[smallest]!, items[i]!];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+function precedes(a: PairCandidate, b: PairCandidate): boolean {
+  return a.rank < b.rank || (a.rank === b.rank && a.left < b.left);
+}
+
+/**
+ * Vocabulary for a model: LLM_TOKENIZER when it names a bundled one,
+ * otherwise the model family's, otherwise the default
+ */
+export function resolveVocabulary(model: string): string {
+  const vocabulary = process.env.LLM_TOKENIZER
+    || MODEL_VOCABULARIES.find(({ pattern }) => pattern.test(model))?.vocabulary;
+
+  return vocabulary && vocabulary in VOCABULARY_PATTERNS && existsSync(vocabularyPath(vocabulary))
+    ? vocabulary
+    : DEFAULT_VOCABULARY;
+}
+
+// Loaded vocabularies, by name
+const tokenizers = new Map<string, BPETokenizer>();
+
+/**
+ * Tokenizer for a model, the configured one by default
+ */
+export function getTokenizer(model: string = configuredModel()): BPETokenizer {
+  const vocabulary = resolveVocabulary(model);
+  let tokenizer = tokenizers.get(vocabulary);
+  if (!tokenizer) {
+    tokenizer = BPETokenizer.load(vocabulary);
+    tokenizers.set(vocabulary, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Number of tokens in a text for a model, the configured one by default
+ */
+export function countTokens(text: string, model?: string): number {
+  return getTokenizer(model).count(text);
+}
+
+// Export for testing
+export function resetTokenizers(): void {
+  tokenizers.clear();
+}
+
+function vocabularyPath(vocabulary: string): string {
+  return join(process.cwd(), 'tokenizers', `${vocabulary}.tiktoken`);
+}
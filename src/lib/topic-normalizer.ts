@@ -0,0 +1,73 @@
+import { ZodError } from 'zod';
+
+import {
+  NormalizedTopicSchema,
+  type NormalizedTopic,
+  type PromptRequest,
+  type RequestMetadata
+} from '@/types/rulepack';
+
+import { type LLMResponse, LLMError, getLLMClient } from './llm-client';
+import PromptGenerator from './prompt-generator';
+
+export interface NormalizationRequest extends Pick<PromptRequest, 'format' | 'level' | 'topic' | 'context'> {
+  formatName: string; // Display name of `format`
+  requestId: string;
+  metadata?: RequestMetadata;
+}
+
+/**
+ * Normalization stage: asks the LLM to interpret the raw topic as domain,
+ * key messages, stakeholders and risks before the prompt is generated
+ */
+export class TopicNormalizer {
+  /**
+   * Run the normalization call and parse its JSON output
+   */
+  static async normalize(
+    request: NormalizationRequest,
+    signal?: AbortSignal
+  ): Promise<{ normalizedTopic: NormalizedTopic; response: LLMResponse }> {
+    const { systemPrompt, userPrompt } = PromptGenerator.generateNormalizationPrompts(request);
+
+    const response = await getLLMClient().generateContent({
+      systemPrompt,
+      userPrompt,
+      format: request.format,
+      level: request.level,
+      requestId: request.requestId,
+      topic: request.topic,
+      purpose: 'normalize',
+      responseFormat: 'json',
+      ...(request.metadata ? { metadata: request.metadata } : {}),
+    }, signal);
+
+    return { normalizedTopic: this.parse(response.content), response };
+  }
+
+  /**
+   * Parse a model response into a NormalizedTopic. Tolerates code fences and
+   * text around the JSON object.
+   */
+  static parse(content: string): NormalizedTopic {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+
+    if (start === -1 || end <= start) {
+      throw new LLMError('Normalization response does not contain a JSON object', 'INVALID_NORMALIZATION');
+    }
+
+    try {
+      return NormalizedTopicSchema.parse(JSON.parse(content.slice(start, end + 1)));
+    } catch (error) {
+      throw new LLMError(
+        `Invalid normalization response: ${error instanceof ZodError
+          ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+          : error instanceof Error ? error.message : 'Unknown error'}`,
+        'INVALID_NORMALIZATION'
+      );
+    }
+  }
+}
+
+export default TopicNormalizer;
@@ -1,348 +1,342 @@
 import {
   type Format,
+  type ScoredCheck,
+  type Section,
+  type ValidationFinding,
   type ValidationLevel,
   type ValidationResult,
-  type TokenLimits,
-  TokenLimitsSchema,
 } from "@/types/rulepack";
+import {
+  ComplianceRuleRegistry,
+  type ComplianceJudge,
+} from "./compliance-rules";
+import { splitFindings } from "./findings";
+import { MarkdownSectionParser, type SectionSpan } from "./markdown-sections";
 import { RulepackLoader } from "./rulepack-loader";
+import { ScoringModel } from "./scoring";
+import { countTokens } from "./tokenizer";
 
 export class ContentValidator {
-  private static tokenLimits: TokenLimits = TokenLimitsSchema.parse({
-    basic: parseInt(process.env.NEXT_PUBLIC_TOKEN_LIMIT_BASIC || "300"),
-    intermediate: parseInt(
-      process.env.NEXT_PUBLIC_TOKEN_LIMIT_INTERMEDIATE || "600"
-    ),
-    advanced: parseInt(process.env.NEXT_PUBLIC_TOKEN_LIMIT_ADVANCED || "900"),
-  });
-
   /**
-   * Validate content against rulepack requirements
+   * Validate content against rulepack requirements. Compliance rules judged
+   * by an LLM run only when a judge is given.
    */
   static async validateContent(
     content: string,
     format: Format,
     level: ValidationLevel,
-    version: string = "v1"
+    version?: string,
+    judge?: ComplianceJudge
   ): Promise<ValidationResult> {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const findings: ValidationFinding[] = [];
+    let rulepackVersion = version ?? RulepackLoader.getDefaultVersion();
 
     try {
-      // Load the rulepack
-      const rulepack = await RulepackLoader.loadFormatPack(format, version);
+      // Load the rulepack and the level guide
+      rulepackVersion = await RulepackLoader.resolveVersion(format, version);
+      const rulepack = await RulepackLoader.loadFormatPack(format, rulepackVersion);
+      const levelGuide = await RulepackLoader.loadLevelGuide(level);
 
-      // Count tokens (simple approximation)
-      const tokenCount = this.estimateTokens(content);
+      // Count tokens with the configured model's tokenizer
+      const tokenCount = countTokens(content);
 
       // Check token limits
-      const tokenLimit = this.tokenLimits[level];
+      const tokenLimit = levelGuide.tokenLimits.output;
       if (tokenCount > tokenLimit) {
-        errors.push(
-          `Content exceeds ${level} token limit (${tokenCount}/${tokenLimit})`
-        );
+        findings.push({
+          ruleId: "token_limit",
+          severity: "error",
+          message: `Content exceeds ${level} token limit (${tokenCount}/${tokenLimit})`,
+          suggestion: "분량을 줄이거나 상위 레벨을 선택하세요",
+        });
       }
 
-      // Check required sections
-      const missingSections = this.checkRequiredSections(
-        content,
-        rulepack.requiredSections
+      // Locate sections, including the level's extra sections
+      const sections = { ...rulepack.sections, ...levelGuide.sections };
+      const requiredSections = [
+        ...rulepack.requiredSections,
+        ...levelGuide.extraSections,
+      ];
+      const document = MarkdownSectionParser.parse(content, {
+        labels: MarkdownSectionParser.sectionLabels(sections),
+      });
+      const spans = MarkdownSectionParser.locate(
+        document,
+        Array.from(new Set([...requiredSections, ...Object.keys(sections)])),
+        sections
       );
+
+      // Check required sections
+      const missingSections = requiredSections.filter((id) => !spans[id]);
       if (missingSections.length > 0) {
-        errors.push(`Missing required sections: ${missingSections.join(", ")}`);
+        findings.push({
+          ruleId: "required_sections",
+          severity: "error",
+          message: `Missing required sections: ${missingSections.join(", ")}`,
+          suggestion: `다음 제목의 섹션을 추가하세요: ${missingSections
+            .map((id) => sections[id]?.label ?? id)
+            .join(", ")}`,
+        });
       }
 
       // Check compliance rules
-      const complianceIssues = await this.checkComplianceRules(
-        content,
-        rulepack.complianceRules
+      findings.push(
+        ...(await this.checkComplianceRules(
+          content,
+          rulepack.complianceRules,
+          rulepack.requiredSections,
+          spans,
+          judge
+        ))
       );
-      errors.push(...complianceIssues);
 
-      // Check structure hints
-      const structureWarnings = this.checkStructureHints(
-        content,
-        rulepack.structureHints
+      // Check structure hints; strict levels treat violations as errors
+      const structureSeverity: ValidationFinding["severity"] = levelGuide
+        .strictness.structureHintsAsErrors
+        ? "error"
+        : "warning";
+      findings.push(
+        ...this.checkStructureHints(content, sections, spans).map(
+          (finding) => ({ ...finding, severity: structureSeverity })
+        )
       );
-      warnings.push(...structureWarnings);
 
+      // One check per rule that ran; LLM-judged rules ran only with a judge
+      const failed = new Set(findings.map((finding) => finding.ruleId));
+      const checks: ScoredCheck[] = [
+        {
+          id: "token_limit",
+          category: "분량",
+          severity: "error",
+          passed: !failed.has("token_limit"),
+        },
+        {
+          id: "required_sections",
+          category: "구조",
+          severity: "error",
+          passed: !failed.has("required_sections"),
+        },
+        ...rulepack.complianceRules
+          .filter(
+            (id) => judge || ComplianceRuleRegistry.get(id)?.kind !== "llm"
+          )
+          .map((id) => ({
+            id,
+            category: "준수",
+            severity: ComplianceRuleRegistry.get(id)?.severity ?? "error",
+            passed: !failed.has(id),
+          })),
+        {
+          id: "structure_hint",
+          category: "구조",
+          severity: structureSeverity,
+          passed: !failed.has("structure_hint"),
+        },
+      ];
+
+      const { errors, warnings } = splitFindings(findings);
       return {
         isValid: errors.length === 0,
         errors,
         warnings,
+        findings,
+        checks,
+        scoring: ScoringModel.score(
+          checks,
+          ScoringModel.resolveConfig(rulepack, levelGuide),
+          levelGuide.strictness.passScore
+        ),
         metadata: {
           format,
           level,
           tokenCount,
-          rulepackVersion: version,
+          rulepackVersion,
         },
       };
     } catch (error) {
+      const message = `Validation failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+      const checks: ScoredCheck[] = [
+        {
+          id: "validation_failed",
+          category: "검증",
+          severity: "error",
+          passed: false,
+        },
+      ];
       return {
         isValid: false,
-        errors: [
-          `Validation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-        ],
+        errors: [message],
         warnings: [],
+        findings: [{ ruleId: "validation_failed", severity: "error", message }],
+        checks,
+        scoring: ScoringModel.score(
+          checks,
+          { ruleWeights: {}, categoryWeights: {} },
+          100
+        ),
         metadata: {
           format,
           level,
           tokenCount: 0,
-          rulepackVersion: version,
+          rulepackVersion,
         },
       };
     }
   }
 
   /**
-   * Simple token estimation (approximation)
-   */
-  private static estimateTokens(text: string): number {
-    // Rough approximation: 1 token ≈ 4 characters for Korean text
-    // More sophisticated tokenization would use actual tokenizer
-    return Math.ceil(text.length / 4);
-  }
-
-  /**
-   * Check if content includes required sections
-   */
-  private static checkRequiredSections(
-    content: string,
-    requiredSections: string[]
-  ): string[] {
-    const contentLower = content.toLowerCase();
-    const missingSections: string[] = [];
-
-    for (const section of requiredSections) {
-      // Simple keyword-based detection
-      // In production, this should use more sophisticated parsing
-      const sectionKeywords = this.getSectionKeywords(section);
-      const hasSection = sectionKeywords.some((keyword) =>
-        contentLower.includes(keyword.toLowerCase())
-      );
-
-      if (!hasSection) {
-        missingSections.push(section);
-      }
-    }
-
-    return missingSections;
-  }
-
-  /**
-   * Get keywords that indicate presence of a section
-   */
-  private static getSectionKeywords(section: string): string[] {
-    const keywordMap: Record<string, string[]> = {
-      headline: ["제목", "헤드라인", "표제"],
-      lead: ["리드", "서론", "개요"],
-      body: ["본문", "내용", "상세"],
-      quote: ["인용", "발언", "말씀"],
-      background: ["배경", "경위", "현황"],
-      contact: ["연락처", "문의", "담당"],
-      opening: ["인사", "개회", "시작"],
-      introduction: ["소개", "도입", "서론"],
-      main_points: ["주요", "핵심", "요점"],
-      conclusion: ["결론", "마무리", "정리"],
-      closing: ["마감", "종료", "감사"],
-      hook: ["훅", "도입부", "시작"],
-      main_content: ["주요내용", "본문", "핵심"],
-      call_to_action: ["행동촉구", "참여", "요청"],
-      hashtags: ["해시태그", "#"],
-      summary: ["요약", "개요", "정리"],
-      analysis: ["분석", "검토", "평가"],
-      appendix: ["부록", "첨부", "참고"],
-    };
-
-    return keywordMap[section] || [section];
-  }
-
-  /**
-   * Check compliance rules
+   * Check compliance rules against the rule registry. Rules checked by an LLM
+   * judge are reported as unchecked when validation runs without one.
    */
   private static async checkComplianceRules(
     content: string,
-    complianceRules: string[]
-  ): Promise<string[]> {
-    const issues: string[] = [];
-
-    for (const rule of complianceRules) {
-      const issue = await this.checkComplianceRule(content, rule);
-      if (issue) {
-        issues.push(issue);
+    complianceRules: string[],
+    requiredSections: string[],
+    spans: Record<string, SectionSpan>,
+    judge?: ComplianceJudge
+  ): Promise<ValidationFinding[]> {
+    const { findings, skipped } = await ComplianceRuleRegistry.check(
+      complianceRules,
+      {
+        content,
+        requiredSections,
+        findSection: (id) => spans[id] ?? null,
+        ...(judge ? { judge } : {}),
       }
+    );
+
+    if (skipped.length > 0) {
+      findings.push({
+        ruleId: "llm_judge",
+        severity: "warning",
+        message: `LLM 판정이 필요한 준수 규칙은 검사하지 않았습니다: ${skipped.join(", ")}`,
+      });
     }
 
-    return issues;
-  }
-
-  /**
-   * Check individual compliance rule
-   */
-  private static async checkComplianceRule(
-    content: string,
-    rule: string
-  ): Promise<string | null> {
-    switch (rule) {
-      case "facts_required":
-        if (!this.hasFactualContent(content)) {
-          return "객관적 사실 기반 내용이 부족합니다";
-        }
-        break;
-
-      case "source_required":
-        if (!this.hasSources(content)) {
-          return "출처나 근거가 명시되지 않았습니다";
-        }
-        break;
-
-      case "objective_tone":
-        if (!this.hasObjectiveTone(content)) {
-          return "객관적 어조가 유지되지 않았습니다";
-        }
-        break;
-
-      case "no_exaggeration":
-        if (this.hasExaggeration(content)) {
-          return "과장된 표현이 포함되어 있습니다";
-        }
-        break;
-
-      case "evidence_based":
-        if (!this.hasEvidence(content)) {
-          return "충분한 근거나 증거가 제시되지 않았습니다";
-        }
-        break;
-
-      case "accuracy_required":
-        // This would require fact-checking APIs in production
-        break;
-
-      case "official_tone":
-        if (!this.hasOfficialTone(content)) {
-          return "공식적인 어조가 유지되지 않았습니다";
-        }
-        break;
-
-      case "character_limit":
-        // Already handled in token validation
-        break;
-
-      default:
-        // Unknown rule
-        break;
-    }
-
-    return null;
+    return findings;
   }
 
   /**
-   * Check structure hints and generate warnings
+   * Check structure hints. Findings are warnings located at the section they
+   * concern.
    */
   private static checkStructureHints(
     content: string,
-    structureHints: Record<string, unknown>
-  ): string[] {
-    const warnings: string[] = [];
-
-    for (const [section, hints] of Object.entries(structureHints)) {
-      if (typeof hints === 'object' && hints !== null && 'maxLines' in hints && hints.maxLines) {
-        const sectionContent = this.extractSectionContent(content, section);
-        if (sectionContent) {
-          const lineCount = sectionContent.split("\n").length;
-          if (lineCount > Number(hints.maxLines)) {
-            warnings.push(
-              `${section} 섹션이 권장 줄 수(${hints.maxLines})를 초과했습니다`
-            );
-          }
+    sections: Record<string, Section>,
+    spans: Record<string, SectionSpan>
+  ): ValidationFinding[] {
+    const findings: ValidationFinding[] = [];
+
+    for (const [id, section] of Object.entries(sections)) {
+      const { hints, label } = section;
+      const span = spans[id];
+      const report = (message: string, suggestion: string) =>
+        findings.push({
+          ruleId: "structure_hint",
+          severity: "warning",
+          message,
+          suggestion,
+          ...(span ? { start: span.start, end: span.end } : {}),
+        });
+
+      // Item counts may come from pattern matches anywhere in the content
+      if (hints.maxCount) {
+        const count = this.countSectionItems(content, section, span);
+        if (count > hints.maxCount) {
+          report(
+            `${label} 항목 수(${count})가 권장 개수(${hints.maxCount})를 초과했습니다`,
+            `${label} 항목을 ${hints.maxCount}개 이하로 줄이세요`
+          );
         }
       }
 
-      if (typeof hints === 'object' && hints !== null && 'maxCharacters' in hints && hints.maxCharacters) {
-        const sectionContent = this.extractSectionContent(content, section);
-        if (sectionContent && sectionContent.length > Number(hints.maxCharacters)) {
-          warnings.push(
-            `${section} 섹션이 권장 글자 수(${hints.maxCharacters})를 초과했습니다`
-          );
-        }
+      // The remaining constraints apply to the text under the section heading
+      const sectionContent = span?.text;
+      if (!sectionContent) {
+        continue;
       }
 
-      if (typeof hints === 'object' && hints !== null && 'maxCount' in hints && hints.maxCount && section === "hashtags") {
-        const hashtagCount = (content.match(/#\w+/g) || []).length;
-        if (hashtagCount > Number(hints.maxCount)) {
-          warnings.push(
-            `해시태그가 권장 개수(${hints.maxCount})를 초과했습니다`
+      if (hints.maxLines) {
+        const lineCount = sectionContent.split("\n").length;
+        if (lineCount > hints.maxLines) {
+          report(
+            `${label} 섹션이 권장 줄 수(${hints.maxLines})를 초과했습니다`,
+            `${label} 섹션을 ${hints.maxLines}줄 이내로 줄이세요`
           );
         }
       }
-    }
-
-    return warnings;
-  }
-
-  // Helper methods for compliance rule checking
-  private static hasFactualContent(content: string): boolean {
-    // Simple heuristic - look for dates, numbers, specific references
-    return /\d{4}년|\d+%|\d+명|\d+건|통계|자료|조사|연구/.test(content);
-  }
-
-  private static hasSources(content: string): boolean {
-    // Look for source indicators
-    return /출처|자료|참고|근거|기준|법령|조례|규정/.test(content);
-  }
 
-  private static hasObjectiveTone(content: string): boolean {
-    // Check for subjective language (simple heuristic)
-    const subjectiveWords = /아마도|추측|생각|느낌|개인적|주관적/;
-    return !subjectiveWords.test(content);
-  }
+      if (hints.maxCharacters && sectionContent.length > hints.maxCharacters) {
+        report(
+          `${label} 섹션이 권장 글자 수(${hints.maxCharacters})를 초과했습니다`,
+          `${label} 섹션을 ${hints.maxCharacters}자 이내로 줄이세요`
+        );
+      }
 
-  private static hasExaggeration(content: string): boolean {
-    // Look for exaggerated language
-    const exaggeratedWords =
-      /매우|극도로|엄청|대단히|놀랍게|획기적|혁신적|최고|최대|최소/;
-    return exaggeratedWords.test(content);
-  }
+      const unmet = (hints.requirements ?? []).filter(
+        (requirement) => !this.addressesRequirement(sectionContent, requirement)
+      );
+      if (unmet.length > 0) {
+        report(
+          `${label} 섹션에 필수 요건이 드러나지 않습니다: ${unmet.join(", ")}`,
+          `${label} 섹션에 ${unmet.join(", ")} 내용을 추가하세요`
+        );
+      }
 
-  private static hasEvidence(content: string): boolean {
-    // Look for evidence indicators
-    return /증명|입증|확인|검증|사례|예시|데이터|결과|분석/.test(content);
-  }
+      const sectionLower = sectionContent.toLowerCase();
+      const missing = (hints.includes ?? []).filter(
+        (item) => !sectionLower.includes(item.toLowerCase())
+      );
+      if (missing.length > 0) {
+        report(
+          `${label} 섹션에 포함되어야 할 항목이 없습니다: ${missing.join(", ")}`,
+          `${label} 섹션에 ${missing.join(", ")} 항목을 넣으세요`
+        );
+      }
+    }
 
-  private static hasOfficialTone(content: string): boolean {
-    // Check for informal language
-    const informalWords = /ㅋ|ㅎ|~|!!|요즘|막|진짜|완전/;
-    return !informalWords.test(content);
+    return findings;
   }
 
-  private static extractSectionContent(
+  /**
+   * Count a section's items: matches of its patterns across the content, or
+   * else list items under its heading
+   */
+  private static countSectionItems(
     content: string,
-    section: string
-  ): string | null {
-    // Simple section extraction - in production this would be more sophisticated
-    const lines = content.split("\n");
-    const sectionKeywords = this.getSectionKeywords(section);
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      if (line && sectionKeywords.some((keyword) => line.includes(keyword))) {
-        // Found section, extract until next section or end
-        let sectionContent = "";
-        for (let j = i; j < lines.length; j++) {
-          const currentLine = lines[j];
-          if (
-            j > i &&
-            currentLine &&
-            (currentLine.startsWith("#") || currentLine.includes("##"))
-          ) {
-            break; // Next section found
-          }
-          sectionContent += (currentLine || "") + "\n";
-        }
-        return sectionContent.trim();
-      }
+    section: Section,
+    span: SectionSpan | undefined
+  ): number {
+    if (section.patterns.length > 0) {
+      return Math.max(
+        ...section.patterns.map(
+          (pattern) => content.match(new RegExp(pattern, "gim"))?.length ?? 0
+        )
+      );
     }
 
-    return null;
+    return (span?.text ?? "")
+      .split("\n")
+      .filter((line) => /^\s*([-*•]|\d+[.)])\s+/.test(line)).length;
+  }
+
+  /**
+   * Simple heuristic: a requirement is addressed when the section mentions it
+   * or any of its words (e.g. '논리적' for '논리적 전개')
+   */
+  private static addressesRequirement(
+    sectionContent: string,
+    requirement: string
+  ): boolean {
+    const sectionLower = sectionContent.toLowerCase();
+    const words = requirement
+      .toLowerCase()
+      .split(/[\s/·,()]+/)
+      .filter((word) => word.length >= 2);
+
+    return (
+      sectionLower.includes(requirement.toLowerCase()) ||
+      words.some((word) => sectionLower.includes(word))
+    );
   }
 }
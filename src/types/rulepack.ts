@@ -6,18 +6,120 @@ export const ModeSchema = z.object({
   requiredSections: z.array(z.string()),
 });
 
+// Contact block rendered into generated prompts (usually set by an overlay)
+export const ContactBlockSchema = z.object({
+  office: z.string(),
+  department: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().optional(),
+});
+
+// Structure hints for the contents of one section. Constraints are checked by
+// ContentValidator; every hint is also rendered into the generated prompt.
+export const SectionHintsSchema = z
+  .object({
+    // Constraints
+    maxLines: z.number().int().positive().optional(),
+    maxCharacters: z.number().int().positive().optional(),
+    maxCount: z.number().int().positive().optional(), // Pattern matches, or list items under the heading
+    requirements: z.array(z.string()).optional(), // Points the section must address
+    includes: z.array(z.string()).optional(), // Items that must appear verbatim
+    // Guidance
+    description: z.string().optional(),
+    purpose: z.string().optional(),
+    keyPoints: z.string().optional(),
+    structure: z.string().optional(),
+    format: z.string().optional(),
+    examples: z.array(z.string()).optional(),
+    notes: z.array(z.string()).optional(),
+  })
+  .strict();
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// One section of a document: its label in prompts, how the validator finds it
+// in generated content, and hints for its contents
+export const SectionSchema = z.object({
+  label: z.string(), // e.g. 제목; also searched for in content
+  aliases: z.array(z.string()).default([]), // Other words that mark the section
+  patterns: z
+    .array(z.string().refine(isValidPattern, "올바른 정규식이 아닙니다"))
+    .default([]), // Regular expressions, matched per line, case-insensitive
+  hints: SectionHintsSchema.default({}),
+});
+
+// Section as written in a child pack or overlay, merged over the inherited one
+export const SectionPatchSchema = SectionSchema.partial();
+
+// How a format is presented: display name, icon and the expected completion
+// length per level
+export const FormatDisplaySchema = z.object({
+  name: z.string(), // e.g. 보도자료
+  icon: z.string(), // Emoji shown next to the name
+  description: z.string().optional(),
+  order: z.number().int().default(100), // Position in format lists
+  completionEstimate: z.object({
+    basic: z.number().int().positive(),
+    intermediate: z.number().int().positive(),
+    advanced: z.number().int().positive(),
+  }),
+});
+
+// Weights for the score of a validation (see src/lib/scoring.ts). Unlisted
+// checks and categories weigh 1; a weight of 0 leaves them out of the score.
+export const ScoringConfigSchema = z.object({
+  ruleWeights: z.record(z.string(), z.number().min(0)).default({}), // By check or compliance rule id
+  categoryWeights: z.record(z.string(), z.number().min(0)).default({}), // By category name, e.g. 구조
+  errorCap: z.number().min(0).max(100).optional(), // Ceiling when a check reports an error
+});
+
 // Base rulepack schema with optional modes support
 export const RulepackSchema = z.object({
   id: z.string(),
   type: z.literal("formatPack"),
+  display: FormatDisplaySchema,
   requiredSections: z.array(z.string()),
   toneDefault: z.string(),
   dos: z.array(z.string()),
   donts: z.array(z.string()),
-  structureHints: z.record(z.string(), z.any()),
+  sections: z.record(z.string(), SectionSchema), // By section id
   complianceRules: z.array(z.string()),
   // New optional modes field
   modes: z.record(z.string(), ModeSchema).optional(),
+  contact: ContactBlockSchema.optional(),
+  scoring: ScoringConfigSchema.optional(),
+});
+
+// Rulepack file as written, before `extends` is resolved. Base packs
+// (rulepacks/base) only hold shared fields and are never used directly.
+export const RulepackSourceSchema = RulepackSchema.partial().extend({
+  id: z.string(),
+  display: FormatDisplaySchema.partial().optional(),
+  sections: z.record(z.string(), SectionPatchSchema).optional(),
+  type: z.enum(["formatPack", "basePack"]),
+  extends: z.string().optional(), // e.g. base/public_comm_v1 or format/press_release_v1
+});
+
+// Per-office overlay pack (rulepacks/overlay/*.yaml), applied on top of a
+// resolved format pack
+export const OverlayPackSchema = z.object({
+  id: z.string(),
+  type: z.literal("overlayPack"),
+  name: z.string(),
+  description: z.string().optional(),
+  appliesTo: z.array(z.string()).default([]), // Formats; empty means all
+  dos: z.array(z.string()).default([]),
+  donts: z.array(z.string()).default([]),
+  complianceRules: z.array(z.string()).default([]),
+  sections: z.record(z.string(), SectionPatchSchema).default({}),
+  contact: ContactBlockSchema.optional(),
 });
 
 // Format-specific schemas
@@ -28,23 +130,52 @@ export const FormatPackSchema = RulepackSchema.extend({
 // Union type for all rulepack types (just use FormatPackSchema since there's only one type)
 export const AnyRulepackSchema = FormatPackSchema;
 
+// Tone pack schema (rulepacks/tone/*.yaml)
+export const TonePackSchema = z.object({
+  id: z.string(),
+  type: z.literal("tonePack"),
+  name: z.string(), // Display name shown in the UI
+  description: z.string().optional(),
+  register: z.object({
+    style: z.string(),
+    persona: z.string(),
+    forbidden: z.array(z.string()).default([]),
+  }),
+  honorifics: z.object({
+    level: z.string(), // e.g. 하십시오체, 해요체
+    guidance: z.string().optional(),
+  }),
+  lexiconHints: z.object({
+    prefer: z.array(z.string()).default([]),
+    avoid: z.array(z.string()).default([]),
+  }),
+  sentenceEndings: z.object({
+    style: z.string(),
+    examples: z.array(z.string()).default([]),
+    avoid: z.array(z.string()).default([]),
+  }),
+});
+
 // TypeScript types
 export type Mode = z.infer<typeof ModeSchema>;
+export type ScoringConfig = z.infer<typeof ScoringConfigSchema>;
+export type SectionHints = z.infer<typeof SectionHintsSchema>;
+export type Section = z.infer<typeof SectionSchema>;
+export type SectionPatch = z.infer<typeof SectionPatchSchema>;
+export type FormatDisplay = z.infer<typeof FormatDisplaySchema>;
+export type ContactBlock = z.infer<typeof ContactBlockSchema>;
+export type RulepackSource = z.infer<typeof RulepackSourceSchema>;
+export type OverlayPack = z.infer<typeof OverlayPackSchema>;
+export type TonePack = z.infer<typeof TonePackSchema>;
 export type Rulepack = z.infer<typeof RulepackSchema>;
 export type FormatPack = z.infer<typeof FormatPackSchema>;
 export type AnyRulepack = z.infer<typeof AnyRulepackSchema>;
 
-// Format enumeration
-export const FormatEnum = z.enum([
-  "press_release",
-  "speech",
-  "sns",
-  "inquiry",
-  "report",
-  "media_scraping",
-]);
+// Format id. Formats are discovered from rulepacks/format (see FormatRegistry),
+// so this only checks the shape of the id.
+export const FormatIdSchema = z.string().regex(/^[a-z][a-z0-9_]*$/, "형식 id가 올바르지 않습니다");
 
-export type Format = z.infer<typeof FormatEnum>;
+export type Format = z.infer<typeof FormatIdSchema>;
 
 // Validation level enumeration
 export const ValidationLevelEnum = z.enum([
@@ -54,31 +185,85 @@ export const ValidationLevelEnum = z.enum([
 ]);
 export type ValidationLevel = z.infer<typeof ValidationLevelEnum>;
 
-// Token limits configuration
-export const TokenLimitsSchema = z.object({
-  basic: z.number().default(300),
-  intermediate: z.number().default(600),
-  advanced: z.number().default(900),
-});
-
-export type TokenLimits = z.infer<typeof TokenLimitsSchema>;
-
-// Structure hints types
-export interface StructureHint {
-  maxLines?: number;
-  maxCharacters?: number;
-  keyPoints?: string;
-  format?: string;
-  description?: string;
-  requirements?: string[];
-  structure?: string;
-  perspectives?: string[];
-  actionItems?: string;
-  timeline?: string;
-  includes?: string[];
-  purpose?: string;
-  examples?: string[];
-  maxCount?: number;
+// Level guide schema (rulepacks/level/*.yaml)
+export const LevelGuideSchema = z.object({
+  id: z.string(),
+  type: z.literal("levelGuide"),
+  level: ValidationLevelEnum,
+  name: z.string(), // Display name, e.g. 중급
+  description: z.string().optional(),
+  tokenLimits: z.object({
+    input: z.number().int().positive(), // System + user prompt sent to the model
+    user: z.number().int().positive(), // Share of input for the user prompt; the rest is the system prompt's
+    output: z.number().int().positive(), // Length of the generated prompt
+  }).refine((limits) => limits.user < limits.input, {
+    message: "tokenLimits.user must leave room for the system prompt within tokenLimits.input",
+    path: ["user"],
+  }),
+  mandatoryInstructions: z.number().int().min(0), // Minimum instructions in the generated prompt
+  requiredDirectives: z.array(z.string()).default([]),
+  strictness: z.object({
+    passScore: z.number().min(0).max(100), // Score needed to pass (see ScoringModel)
+    structureHintsAsErrors: z.boolean().default(false),
+  }),
+  extraSections: z.array(z.string()).default([]), // Required on top of the format's sections
+  sections: z.record(z.string(), SectionSchema).default({}), // Definitions of extraSections
+  scoring: ScoringConfigSchema.optional(), // Applied over the format pack's
+});
+
+export type LevelGuide = z.infer<typeof LevelGuideSchema>;
+
+// How a validation was scored: each category's share of passed check weight,
+// averaged by category weight, then capped if a check reported an error
+export const ScoreBreakdownSchema = z.object({
+  score: z.number().min(0).max(100), // Final score
+  weightedScore: z.number().min(0).max(100), // Before the error cap
+  errorCap: z.number().min(0).max(100).optional(), // Present when applied
+  passScore: z.number().min(0).max(100), // Level's score needed to pass
+  passed: z.boolean(), // No failed error checks and score >= passScore
+  passedChecks: z.number().int().min(0),
+  totalChecks: z.number().int().min(0),
+  categories: z.array(z.object({
+    category: z.string(),
+    weight: z.number().min(0),
+    passedChecks: z.number().int().min(0),
+    totalChecks: z.number().int().min(0),
+    score: z.number().min(0).max(100),
+  })),
+});
+
+export type ScoreBreakdown = z.infer<typeof ScoreBreakdownSchema>;
+
+// Checklist frontmatter (checklists/*.md). `extends` names another checklist
+// by file name without .md, e.g. sns_intermediate_v1
+export const ChecklistFrontmatterSchema = z.object({
+  format: FormatIdSchema,
+  level: ValidationLevelEnum,
+  version: z.string().regex(/^v\d+$/),
+  extends: z.string().optional(),
+});
+
+export type ChecklistFrontmatter = z.infer<typeof ChecklistFrontmatterSchema>;
+
+// A single validation issue. Offsets locate it in the validated text (end is
+// exclusive); issues about the text as a whole have none.
+export const ValidationFindingSchema = z.object({
+  ruleId: z.string(), // Compliance rule id, or the validator's own check id
+  severity: z.enum(["error", "warning"]),
+  message: z.string(),
+  start: z.number().int().min(0).optional(),
+  end: z.number().int().min(0).optional(),
+  suggestion: z.string().optional(),
+});
+
+export type ValidationFinding = z.infer<typeof ValidationFindingSchema>;
+
+// One pass/fail check that counts towards a score
+export interface ScoredCheck {
+  id: string; // Check or compliance rule id, looked up in ruleWeights
+  category: string;
+  severity: "error" | "warning" | "info";
+  passed: boolean;
 }
 
 // Validation result types
@@ -86,6 +271,9 @@ export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  findings: ValidationFinding[]; // errors and warnings, with locations and fixes
+  checks: ScoredCheck[]; // What was checked, passed or not
+  scoring: ScoreBreakdown;
   metadata: {
     format: Format;
     level: ValidationLevel;
@@ -94,18 +282,33 @@ export interface ValidationResult {
   };
 }
 
+// Topic interpretation produced by the normalization stage (editable by aides)
+export const NormalizedTopicSchema = z.object({
+  domain: z.string().min(1).max(100),
+  keyMessages: z.array(z.string().min(1).max(200)).min(1).max(5),
+  stakeholders: z.array(z.string().min(1).max(100)).max(8).default([]),
+  risks: z.array(z.string().min(1).max(200)).max(5).default([]),
+});
+
+export type NormalizedTopic = z.infer<typeof NormalizedTopicSchema>;
+
 // User input schema (from frontend)
 export const UserInputSchema = z.object({
   topic: z.string().min(1, "주제를 입력해주세요").max(200, "주제는 200자 이내로 입력해주세요"),
-  format: FormatEnum,
+  format: FormatIdSchema,
   level: ValidationLevelEnum,
   context: z.string().max(500, "배경정보는 500자 이내로 입력해주세요").optional(),
-  tone: z.string().optional().default("public_official_v1"),
+  tone: z.string().max(50).optional(), // Tone pack id; defaults to the format's toneDefault
   mode: z.string().optional(), // For rulepacks that support modes
+  overlay: z.string().max(50).optional(), // Office overlay pack id (rulepacks/overlay)
+  rulepackVersion: z.string().regex(/^v\d+$/, "규칙 버전은 v1, v2 형식이어야 합니다").optional(), // Defaults to the configured version
   additionalRequirements: z.array(z.string().max(100)).max(5, "추가 요구사항은 최대 5개까지 가능합니다").optional(),
+  normalizedTopic: NormalizedTopicSchema.optional(), // Edited interpretation; skips the normalization call
   options: z.object({
     includeWarnings: z.boolean().default(true),
     strictMode: z.boolean().default(false),
+    autoRewrite: z.boolean().default(false), // One LLM rewrite pass when checklist items fail
+    judge: z.boolean().default(false), // Have the LLM grade the prompt against the rulepack
     customTone: z.string().max(50).optional(),
   }).optional(),
 });
@@ -114,29 +317,135 @@ export type UserInput = z.infer<typeof UserInputSchema>;
 
 // Internal prompt request schema (for API processing)
 export const PromptRequestSchema = z.object({
-  format: FormatEnum,
+  format: FormatIdSchema,
   level: ValidationLevelEnum,
   topic: z.string().min(1, "Topic is required"),
   context: z.string().optional(),
   tone: z.string().optional(),
   mode: z.string().optional(), // For mode-based rulepacks
   additionalRequirements: z.array(z.string()).optional(),
+  normalizedTopic: NormalizedTopicSchema.optional(),
   options: z.object({
     includeWarnings: z.boolean().default(true),
     strictMode: z.boolean().default(false),
+    autoRewrite: z.boolean().default(false),
     customTone: z.string().optional(),
   }).optional(),
 });
 
 export type PromptRequest = z.infer<typeof PromptRequestSchema>;
 
+// One criterion graded by the LLM judge. The judge must answer every
+// criterion it is given, by id, and nothing else.
+export const JudgmentSchema = z.object({
+  id: z.string(), // Criterion id as given, e.g. dont_2
+  passed: z.boolean(),
+  reason: z.string().min(1).max(300),
+  quote: z.string().max(200).optional(), // Offending passage, verbatim
+}).strict();
+
+export const JudgeVerdictSchema = z.object({
+  judgments: z.array(JudgmentSchema),
+}).strict();
+
+export type Judgment = z.infer<typeof JudgmentSchema>;
+
+// How the judge pass went, when it ran
+export const JudgeMetadataSchema = z.object({
+  criteria: z.number().int().min(0),
+  failed: z.number().int().min(0),
+  cached: z.boolean(), // Verdict reused for identical text and criteria
+});
+
+export type JudgeMetadata = z.infer<typeof JudgeMetadataSchema>;
+
+// Month-to-date token usage against one budget. A request is refused once it
+// would take usage past the limit, and warned about past the soft limit.
+export const BudgetStatusSchema = z.object({
+  scope: z.enum(["global", "office", "user"]),
+  month: z.string(), // YYYY-MM (UTC)
+  usedTokens: z.number().int().min(0),
+  limit: z.number().int().min(0),
+  softLimit: z.number().int().min(0),
+  state: z.enum(["ok", "soft", "hard"]),
+});
+
+export type BudgetStatus = z.infer<typeof BudgetStatusSchema>;
+
+// One share of a request's token budget, with what it holds and why it is
+// that size
+export const TokenAllocationSchema = z.object({
+  tokens: z.number().int().min(0),
+  used: z.number().int().min(0).optional(), // Measured size of the prompt shares
+  reason: z.string(),
+});
+
+export type TokenAllocation = z.infer<typeof TokenAllocationSchema>;
+
+// How a request's tokens are split for a model and level (see
+// TokenBudgetPlanner). exceeded names what the request does not fit.
+export const TokenBudgetPlanSchema = z.object({
+  model: z.string(),
+  level: ValidationLevelEnum,
+  contextWindow: z.number().int().positive(),
+  system: TokenAllocationSchema,
+  user: TokenAllocationSchema,
+  reasoning: TokenAllocationSchema,
+  output: TokenAllocationSchema,
+  exceeded: z.enum(["user", "context"]).optional(),
+});
+
+export type TokenBudgetPlan = z.infer<typeof TokenBudgetPlanSchema>;
+
+// Prices of one model in USD per 1M tokens (pricing/models.yaml). Cached
+// input defaults to the input price, reasoning to the output price.
+export const ModelPricingSchema = z.object({
+  input: z.number().min(0),
+  cachedInput: z.number().min(0).optional(),
+  output: z.number().min(0),
+  reasoning: z.number().min(0).optional(),
+}).strict();
+
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+
+export const PricingCatalogSchema = z.object({
+  currency: z.literal("USD"),
+  models: z.record(z.string(), ModelPricingSchema), // By model id or id prefix
+});
+
+export type PricingCatalogFile = z.infer<typeof PricingCatalogSchema>;
+
+// What a request's LLM calls cost, priced by the models that answered
+export const CostMetadataSchema = z.object({
+  currency: z.literal("USD"),
+  total: z.number().min(0),
+  input: z.number().min(0), // Uncached prompt tokens
+  cachedInput: z.number().min(0),
+  output: z.number().min(0), // Completion tokens other than reasoning
+  reasoning: z.number().min(0),
+  models: z.array(z.string()),
+  unpricedModels: z.array(z.string()).optional(), // Models missing from the catalog, counted as free
+});
+
+export type CostMetadata = z.infer<typeof CostMetadataSchema>;
+
+// Outcome of the automatic checklist-driven rewrite pass
+export const RewriteMetadataSchema = z.object({
+  count: z.number().int().min(0), // Completed rewrite calls
+  scoreBefore: z.number().min(0).max(100),
+  scoreAfter: z.number().min(0).max(100).optional(),
+  kept: z.enum(["original", "rewritten"]),
+});
+
+export type RewriteMetadata = z.infer<typeof RewriteMetadataSchema>;
+
 // Prompt generation response schema
 export const PromptResponseSchema = z.object({
   success: z.literal(true),
   data: z.object({
     prompt: z.string(),
     metadata: z.object({
-      format: FormatEnum,
+      format: FormatIdSchema,
       level: ValidationLevelEnum,
       tokenCount: z.number(),
       estimatedOutputTokens: z.number(),
@@ -145,6 +454,12 @@ export const PromptResponseSchema = z.object({
       generatedAt: z.string(),
       processingTime: z.number(), // milliseconds
       requestId: z.string(),
+      rewrite: RewriteMetadataSchema.optional(), // Present when autoRewrite ran
+      judge: JudgeMetadataSchema.optional(), // Present when the judge ran
+      budgets: z.array(BudgetStatusSchema).optional(), // Budgets past their soft limit
+      tokenBudget: TokenBudgetPlanSchema.optional(), // How the generation call's tokens were allocated
+      cost: CostMetadataSchema.optional(), // Actual cost of the request's LLM calls
+      normalizedTopic: NormalizedTopicSchema.optional(), // How the topic was interpreted
     }),
     validation: z.object({
       passed: z.boolean(),
@@ -155,10 +470,13 @@ export const PromptResponseSchema = z.object({
           description: z.string(),
           passed: z.boolean(),
           severity: z.enum(["error", "warning", "info"]),
+          suggestion: z.string().optional(), // How to fix a failed item
         })),
       })),
+      scoring: ScoreBreakdownSchema.optional(), // How score was computed
       warnings: z.array(z.string()).optional(),
       suggestions: z.array(z.string()).optional(),
+      findings: z.array(ValidationFindingSchema).optional(),
     }),
     rulepack: z.object({
       id: z.string(),
@@ -206,6 +524,7 @@ export const RequestMetadataSchema = z.object({
   userAgent: z.string().optional(),
   ip: z.string().optional(),
   sessionId: z.string().optional(),
+  office: z.string().optional(), // Office overlay the request was made for
   processingTime: z.number().optional(),
 });
 